@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'basic-row-number',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Use ROW_NUMBER to Rank Employees',
     prompt: 'Write a query that shows each employee\'s name and salary, along with a row number ordered by salary descending. Include columns: name, salary, row_num.',
@@ -45,6 +46,7 @@ export const exercises: Exercise[] = [
   {
     id: 'rank-with-ties',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Understand RANK vs DENSE_RANK',
     prompt: 'Write a query showing name, score, and both RANK() and DENSE_RANK() ordered by score descending. Include columns: name, score, rank, dense_rank.',
@@ -85,6 +87,7 @@ export const exercises: Exercise[] = [
   {
     id: 'partition-by-department',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Rank Within Departments Using PARTITION BY',
     prompt: 'Write a query that ranks employees by salary within each department. Show: name, department, salary, dept_rank. Order results by department, then dept_rank.',
@@ -126,6 +129,7 @@ export const exercises: Exercise[] = [
   {
     id: 'running-total',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Calculate Running Total with Window Function',
     prompt: 'Write a query showing each month\'s sales and the running total. Include columns: month, sales, running_total. Order by month.',
@@ -163,6 +167,7 @@ export const exercises: Exercise[] = [
   {
     id: 'top-n-per-group',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Find Top 2 Earners Per Department',
     prompt: 'Write a query that returns only the top 2 highest-paid employees in each department. Show: name, department, salary. Order by department, then salary descending.',
@@ -206,6 +211,7 @@ export const exercises: Exercise[] = [
   {
     id: 'ntile-quartiles',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Divide Employees into Salary Quartiles',
     prompt: 'Write a query that divides employees into 4 salary quartiles (1=lowest, 4=highest). Show: name, salary, quartile. Order by salary ascending.',
@@ -248,6 +254,7 @@ export const exercises: Exercise[] = [
   {
     id: 'compare-to-average',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Compare Salary to Department Average',
     prompt: 'Write a query showing each employee\'s salary compared to their department average. Include: name, department, salary, dept_avg, diff_from_avg (salary minus department average). Order by department, then name.',
@@ -289,6 +296,7 @@ export const exercises: Exercise[] = [
   {
     id: 'percent-of-total',
     lessonId: '',
+    concepts: ['queries', 'window-functions'],
     type: 'sql-query',
     title: 'Calculate Percentage of Total Sales',
     prompt: 'Write a query showing each product\'s sales as a percentage of total sales. Include: product_name, sales, pct_of_total (rounded to 2 decimal places). Order by sales descending.',
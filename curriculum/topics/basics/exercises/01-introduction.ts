@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'version-check',
     lessonId: '', // Will be set by curriculum service
+    concepts: ['fundamentals', 'queries'],
     type: 'sql-query',
     title: 'Check PostgreSQL Version',
     prompt: 'Write a query to display the PostgreSQL version information.',
@@ -28,6 +29,7 @@ export const exercises: Exercise[] = [
   {
     id: 'simple-math',
     lessonId: '',
+    concepts: ['fundamentals', 'queries'],
     type: 'sql-query',
     title: 'Basic Math Operations',
     prompt: 'Write a query that calculates 42 * 100 and displays the result with a column name "result".',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'bt-metap',
     lessonId: '',
+    concepts: ['indexes', 'storage'],
     type: 'sql-query',
     requiresSuperuser: true,
     title: 'Inspect B+ Tree Metadata',
@@ -41,6 +42,7 @@ export const exercises: Exercise[] = [
   {
     id: 'bt-page-stats',
     lessonId: '',
+    concepts: ['indexes', 'storage'],
     type: 'sql-query',
     requiresSuperuser: true,
     title: 'Examine Index Page Statistics',
@@ -75,6 +77,7 @@ export const exercises: Exercise[] = [
   {
     id: 'bt-page-items',
     lessonId: '',
+    concepts: ['indexes', 'storage'],
     type: 'sql-query',
     requiresSuperuser: true,
     title: 'View Individual Index Entries',
@@ -112,6 +115,7 @@ export const exercises: Exercise[] = [
   {
     id: 'index-size-calculation',
     lessonId: '',
+    concepts: ['indexes', 'storage'],
     type: 'sql-query',
     title: 'Calculate Index Size in Pages',
     prompt: 'Calculate how many 8KB pages the idx_btree_test_value index occupies. Use pg_relation_size() divided by 8192 and alias it as index_pages.',
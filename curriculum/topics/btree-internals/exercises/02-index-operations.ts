@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'index-maintenance-cost',
     lessonId: '',
+    concepts: ['indexes', 'query-planning'],
     type: 'sql-query',
     title: 'Observe Index Maintenance Cost',
     prompt: 'A table with NO indexes has been created. Run EXPLAIN ANALYZE to insert 1,000 rows and observe the timing: EXPLAIN ANALYZE INSERT INTO perf_test (value) SELECT i FROM generate_series(1, 1000) i. Note the execution time — later exercises will compare this with indexed inserts.',
@@ -37,6 +38,7 @@ export const exercises: Exercise[] = [
   {
     id: 'bulk-vs-individual',
     lessonId: '',
+    concepts: ['indexes', 'query-planning'],
     type: 'sql-query',
     title: 'Bulk Create Index on Existing Data',
     prompt: 'A table with 100,000 rows already exists but has no index on the value column. Create an index and measure how long it takes using EXPLAIN ANALYZE. Run: EXPLAIN ANALYZE CREATE INDEX idx_perf_value ON perf_test(value). Bulk index creation is very efficient because it sorts all values first, then builds the tree bottom-up.',
@@ -72,6 +74,7 @@ export const exercises: Exercise[] = [
   {
     id: 'index-size-vs-table',
     lessonId: '',
+    concepts: ['indexes', 'query-planning'],
     type: 'sql-query',
     title: 'Compare Index Size to Table Size',
     prompt: 'Compare the heap size and index size for the perf_test table. Select pg_size_pretty(pg_relation_size(\'perf_test\')) AS table_size, pg_size_pretty(pg_relation_size(\'idx_perf_value\')) AS index_size, pg_size_pretty(pg_total_relation_size(\'perf_test\')) AS total_size.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-correlation',
     lessonId: '',
+    concepts: ['indexes', 'storage', 'performance'],
     type: 'sql-query',
     title: 'Check Column Correlation',
     prompt: 'Check the physical-to-logical correlation of the value column in the cluster_test table. Query pg_stats for the correlation where tablename = \'cluster_test\' and attname = \'value\'. A value near 0 means randomly ordered (unclustered).',
@@ -43,6 +44,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-heap-fetches',
     lessonId: '',
+    concepts: ['indexes', 'storage', 'performance'],
     type: 'sql-query',
     title: 'Observe Index Scan on Unclustered Data',
     prompt: 'Run EXPLAIN (ANALYZE, BUFFERS) on a range query over unclustered data to see how many buffer reads are needed. Run: EXPLAIN (ANALYZE, BUFFERS) SELECT * FROM cluster_test WHERE value BETWEEN 100 AND 200. Notice the high number of buffer reads relative to rows returned.',
@@ -80,6 +82,7 @@ export const exercises: Exercise[] = [
   {
     id: 'cluster-table',
     lessonId: '',
+    concepts: ['indexes', 'storage', 'performance'],
     type: 'sql-query',
     title: 'Cluster the Table',
     prompt: 'Physically reorder the cluster_test table to match the idx_cluster_value index using the CLUSTER command. Run: CLUSTER cluster_test USING idx_cluster_value. This rewrites the table with rows sorted by value.',
@@ -115,6 +118,7 @@ export const exercises: Exercise[] = [
   {
     id: 'correlation-after-cluster',
     lessonId: '',
+    concepts: ['indexes', 'storage', 'performance'],
     type: 'sql-query',
     title: 'Verify Clustering with Correlation',
     prompt: 'After clustering the table, run ANALYZE and check the correlation again. The correlation should now be near 1.0, indicating the physical order matches the index order. Run: ANALYZE cluster_test; then SELECT correlation FROM pg_stats WHERE tablename = \'cluster_test\' AND attname = \'value\'.',
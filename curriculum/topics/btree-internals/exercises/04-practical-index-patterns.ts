@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'multicolumn-ordering',
     lessonId: '',
+    concepts: ['indexes', 'optimization'],
     type: 'sql-query',
     title: 'Multi-Column Index: First Column Filter',
     prompt: 'A composite index on (city, name) has been created. Run EXPLAIN to see that filtering on city (the first column) can use the index. Run: EXPLAIN SELECT * FROM users WHERE city = \'Boston\'.',
@@ -47,6 +48,7 @@ export const exercises: Exercise[] = [
   {
     id: 'multicolumn-wrong-column',
     lessonId: '',
+    concepts: ['indexes', 'optimization'],
     type: 'sql-query',
     title: 'Multi-Column Index: Wrong Column Filter',
     prompt: 'Now try filtering on name only (the second column) using the same (city, name) index. Run: EXPLAIN SELECT * FROM users WHERE name = \'user_42\'. Notice the planner chooses a Seq Scan — the index can\'t help with a filter on the non-leading column.',
@@ -90,6 +92,7 @@ export const exercises: Exercise[] = [
   {
     id: 'partial-index',
     lessonId: '',
+    concepts: ['indexes', 'optimization'],
     type: 'sql-query',
     title: 'Create and Use a Partial Index',
     prompt: 'Create a partial index that only covers active orders, then verify the planner uses it. Run these statements: CREATE INDEX idx_active_orders ON orders(id) WHERE status = \'active\'; then EXPLAIN SELECT * FROM orders WHERE status = \'active\' AND id = 42.',
@@ -131,6 +134,7 @@ export const exercises: Exercise[] = [
   {
     id: 'expression-index',
     lessonId: '',
+    concepts: ['indexes', 'optimization'],
     type: 'sql-query',
     title: 'Create and Use an Expression Index',
     prompt: 'Create an expression index on lower(email) for case-insensitive lookups, then verify the planner uses it. Run: CREATE INDEX idx_lower_email ON users(lower(email)); then EXPLAIN SELECT * FROM users WHERE lower(email) = \'user_1@example.com\'.',
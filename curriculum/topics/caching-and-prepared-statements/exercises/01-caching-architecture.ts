@@ -4,10 +4,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-01-01',
     lessonId: 'caching-and-prepared-statements-01',
+    concepts: ['caching', 'memory'],
     type: 'sql-query',
     title: 'Check Shared Buffers Configuration',
     prompt: 'Write a query to display the current shared_buffers setting.',
-    setupSql: null,
     hints: [
       'Use the SHOW command',
       'The parameter is called shared_buffers'
@@ -28,10 +28,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-01-02',
     lessonId: 'caching-and-prepared-statements-01',
+    concepts: ['caching', 'memory'],
     type: 'sql-query',
     title: 'Check effective_cache_size',
     prompt: 'Write a query to display the effective_cache_size parameter, which tells the planner how much memory is available for caching.',
-    setupSql: null,
     hints: [
       'Use the SHOW command',
       'The parameter is called effective_cache_size'
@@ -52,10 +52,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-01-03',
     lessonId: 'caching-and-prepared-statements-01',
+    concepts: ['caching', 'memory'],
     type: 'sql-query',
     title: 'Check Multiple Memory Settings',
     prompt: 'Write a query to show shared_buffers, effective_cache_size, and work_mem in a single result set.',
-    setupSql: null,
     hints: [
       'You can SELECT from pg_settings',
       'Filter by name IN (\'shared_buffers\', \'effective_cache_size\', \'work_mem\')',
@@ -78,10 +78,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-01-04',
     lessonId: 'caching-and-prepared-statements-01',
+    concepts: ['caching', 'memory'],
     type: 'sql-query',
     title: 'View Cost Parameters',
     prompt: 'Write a query to display the four main cost parameters: seq_page_cost, random_page_cost, cpu_tuple_cost, and cpu_operator_cost.',
-    setupSql: null,
     hints: [
       'Query pg_settings',
       'Filter by name IN (...)',
@@ -104,10 +104,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-01-05',
     lessonId: 'caching-and-prepared-statements-01',
+    concepts: ['caching', 'memory'],
     type: 'sql-query',
     title: 'Identify SSD vs HDD Configuration',
     prompt: 'Write a query that shows the random_page_cost setting and indicates whether it appears to be configured for SSD (<= 2.0) or HDD (> 2.0). Use a CASE expression to add a column called storage_type.',
-    setupSql: null,
     hints: [
       'Query pg_settings for random_page_cost',
       'Use CASE WHEN setting::numeric <= 2.0 THEN \'SSD\' ELSE \'HDD\' END',
@@ -130,6 +130,7 @@ const exercises: Exercise[] = [
   {
     id: 'buffer-ring-observation',
     lessonId: 'caching-and-prepared-statements-01',
+    concepts: ['caching', 'memory'],
     type: 'sql-query',
     title: 'Buffer Ring: Sequential Scan Isolation',
     prompt: 'Run EXPLAIN (ANALYZE, BUFFERS) on a sequential scan of the large table. Observe the "shared hit" count — it should be low (~32) because PostgreSQL uses a buffer ring to prevent this scan from flooding the cache.',
@@ -161,6 +162,7 @@ const exercises: Exercise[] = [
   {
     id: 'cache-impact-check',
     lessonId: 'caching-and-prepared-statements-01',
+    concepts: ['caching', 'memory'],
     type: 'sql-query',
     title: 'Cache Impact: Check Buffer Contents After Large Scan',
     prompt: 'After the large sequential scan, check pg_buffercache to see how many pages from huge_table are actually in the buffer pool. It should be surprisingly low due to the buffer ring.',
@@ -4,10 +4,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-02-01',
     lessonId: 'caching-and-prepared-statements-02',
+    concepts: ['caching', 'memory', 'monitoring'],
     type: 'sql-query',
     title: 'Calculate Database Cache Hit Ratio',
     prompt: 'Write a query to calculate the buffer cache hit ratio for the current database as a percentage. Include columns for cache_hits, disk_reads, and cache_hit_ratio_percent (rounded to 2 decimal places).',
-    setupSql: null,
     hints: [
       'Query pg_stat_database',
       'Use blks_hit for cache hits and blks_read for disk reads',
@@ -31,6 +31,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-02-02',
     lessonId: 'caching-and-prepared-statements-02',
+    concepts: ['caching', 'memory', 'monitoring'],
     type: 'sql-query',
     title: 'View Table-Level Cache Statistics',
     prompt: 'Write a query to show cache statistics for user tables. Include schemaname, relname (as table_name), heap_blks_read (as disk_reads), heap_blks_hit (as cache_hits), and the cache hit ratio as a percentage. Order by disk_reads descending and limit to 10 rows.',
@@ -65,6 +66,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-02-03',
     lessonId: 'caching-and-prepared-statements-02',
+    concepts: ['caching', 'memory', 'monitoring'],
     type: 'sql-query',
     title: 'Identify Tables with Low Cache Hit Ratios',
     prompt: 'Write a query to find user tables with a cache hit ratio below 95% and more than 100 total block reads. Show table_name, cache_hit_ratio (as percentage), and total_reads (sum of cache hits and disk reads). Order by cache_hit_ratio ascending.',
@@ -96,6 +98,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-02-04',
     lessonId: 'caching-and-prepared-statements-02',
+    concepts: ['caching', 'memory', 'monitoring'],
     type: 'sql-query',
     title: 'Analyze Index Cache Performance',
     prompt: 'Write a query to show index cache statistics. Include schemaname, relname (as table_name), indexrelname (as index_name), idx_blks_read (as disk_reads), idx_blks_hit (as cache_hits), and cache hit ratio as a percentage. Only show indexes with at least one access (cache hits or disk reads > 0). Order by disk_reads descending, limit to 10.',
@@ -130,6 +133,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-02-05',
     lessonId: 'caching-and-prepared-statements-02',
+    concepts: ['caching', 'memory', 'monitoring'],
     type: 'sql-query',
     title: 'Compare Table vs Index Caching',
     prompt: 'Write a query that shows separate cache hit ratios for tables vs indexes in the database. Show two rows: one for "tables" and one for "indexes" with columns: object_type, total_cache_hits, total_disk_reads, and cache_hit_ratio_percent.',
@@ -4,6 +4,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-03-01',
     lessonId: 'caching-and-prepared-statements-03',
+    concepts: ['prepared-statements', 'query-planning'],
     type: 'sql-query',
     title: 'Create a Simple Prepared Statement',
     prompt: 'Write a PREPARE statement named "get_product" that accepts an integer product ID and returns all columns from a products table where id matches the parameter.',
@@ -31,6 +32,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-03-02',
     lessonId: 'caching-and-prepared-statements-03',
+    concepts: ['prepared-statements', 'query-planning'],
     type: 'sql-query',
     title: 'Execute a Prepared Statement',
     prompt: 'Create a prepared statement named "get_product" that accepts an integer parameter and returns all columns from products where id = $1. Then execute it with product ID 2.',
@@ -65,6 +67,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-03-03',
     lessonId: 'caching-and-prepared-statements-03',
+    concepts: ['prepared-statements', 'query-planning'],
     type: 'sql-query',
     title: 'Prepared Statement with Multiple Parameters',
     prompt: 'Create a prepared statement named "find_products" that accepts a minimum price (numeric) and a name pattern (text), and returns products where price >= $1 AND name ILIKE $2. Then execute it with min_price = 25.00 and pattern = \'%get%\'.',
@@ -94,6 +97,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-03-04',
     lessonId: 'caching-and-prepared-statements-03',
+    concepts: ['prepared-statements', 'query-planning'],
     type: 'sql-query',
     title: 'View Prepared Statements',
     prompt: 'Create two prepared statements: "get_product" (accepts int, selects all from products where id = $1) and "find_expensive" (accepts numeric, selects all from products where price > $1). Then query pg_prepared_statements to show the name, statement, and parameter_types of all prepared statements.',
@@ -123,6 +127,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-03-05',
     lessonId: 'caching-and-prepared-statements-03',
+    concepts: ['prepared-statements', 'query-planning'],
     type: 'sql-query',
     title: 'Prepared INSERT Statement',
     prompt: 'Create a prepared statement named "insert_product" that inserts a new product with name (text) and price (numeric) parameters, and returns the inserted id. Then execute it to insert a product named "New Widget" with price 15.99.',
@@ -152,6 +157,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-03-06',
     lessonId: 'caching-and-prepared-statements-03',
+    concepts: ['prepared-statements', 'query-planning'],
     type: 'sql-query',
     title: 'Deallocate Prepared Statement',
     prompt: 'Create two prepared statements: "get_product" (int param, selects from products by id) and "find_expensive" (numeric param, selects from products where price > $1). Then deallocate "get_product" and query pg_prepared_statements to count the remaining statements.',
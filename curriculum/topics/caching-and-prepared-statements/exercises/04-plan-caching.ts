@@ -4,10 +4,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-04-01',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Check plan_cache_mode Setting',
     prompt: 'Write a query to display the current plan_cache_mode setting.',
-    setupSql: null,
     hints: [
       'Use SHOW plan_cache_mode',
       'Or query pg_settings WHERE name = \'plan_cache_mode\''
@@ -28,6 +28,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-04-02',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Monitor Plan Usage',
     prompt: 'Create a prepared statement "get_order" that selects all columns from an orders table where user_id = $1. Then write a query to check pg_prepared_statements showing the name, generic_plans, and custom_plans columns.',
@@ -59,10 +60,10 @@ const exercises: Exercise[] = [
   {
     id: 'caching-04-03',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Force Generic Plan Mode',
     prompt: 'Set plan_cache_mode to force_generic_plan for the current session, then verify the setting changed.',
-    setupSql: null,
     hints: [
       'Use SET plan_cache_mode = \'force_generic_plan\'',
       'Then SHOW plan_cache_mode to verify'
@@ -83,6 +84,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-04-04',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Analyze Planning Time',
     prompt: 'Use EXPLAIN (ANALYZE, TIMING ON) to show both planning time and execution time for a simple query. The query should be: SELECT COUNT(*) FROM orders WHERE user_id = 100.',
@@ -109,6 +111,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-04-05',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Compare Custom vs Generic Plan Performance',
     prompt: 'First, set plan_cache_mode to force_custom_plan, prepare a statement "count_orders" that counts orders where user_id = $1, and execute it once. Then query pg_prepared_statements to see the custom_plans count.',
@@ -140,6 +143,7 @@ const exercises: Exercise[] = [
   {
     id: 'caching-04-06',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Identify High-Planning Overhead Queries',
     prompt: 'Query pg_stat_statements to find queries where planning time is significant. Show the query, calls, mean_plan_time, mean_exec_time, and calculate plan_to_exec_ratio (mean_plan_time / mean_exec_time). Filter for queries called more than 100 times. Order by total planning time (mean_plan_time * calls) descending, limit to 5.',
@@ -177,6 +181,7 @@ const exercises: Exercise[] = [
   {
     id: 'plan-invalidation',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Plan Invalidation: New Index Changes the Plan',
     prompt: 'PREPARE a statement that does a sequential scan (no index exists). Execute it. Then CREATE INDEX on the filtered column. Execute the same prepared statement again — the plan should change to use the new index. Use EXPLAIN EXECUTE to see the plan.',
@@ -212,6 +217,7 @@ const exercises: Exercise[] = [
   {
     id: 'skewed-data-custom-plans',
     lessonId: 'caching-and-prepared-statements-04',
+    concepts: ['prepared-statements', 'query-planning', 'performance'],
     type: 'sql-query',
     title: 'Skewed Data: Why PostgreSQL Keeps Custom Plans',
     prompt: 'Create a prepared statement on a table with highly skewed data. Execute it 6+ times with different parameters. Check pg_prepared_statements to see if it\'s using generic or custom plans.',
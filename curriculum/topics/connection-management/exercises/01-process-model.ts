@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'count-backends',
     lessonId: '',
+    concepts: ['connections', 'fundamentals'],
     type: 'sql-query',
     title: 'Count Client Backends',
     prompt:
@@ -34,6 +35,7 @@ export const exercises: Exercise[] = [
   {
     id: 'backend-memory',
     lessonId: '',
+    concepts: ['connections', 'fundamentals'],
     type: 'sql-query',
     title: 'Inspect Backend Processes',
     prompt:
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'server-vs-client-connections',
     lessonId: '',
+    concepts: ['connections', 'pooling'],
     type: 'sql-query',
     title: 'Count Server-Side Connections',
     prompt:
@@ -34,6 +35,7 @@ export const exercises: Exercise[] = [
   {
     id: 'max-connections-check',
     lessonId: '',
+    concepts: ['connections', 'pooling'],
     type: 'sql-query',
     title: 'Check the Connection Limit',
     prompt:
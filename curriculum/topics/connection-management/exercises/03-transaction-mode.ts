@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'set-local-pattern',
     lessonId: '',
+    concepts: ['pooling', 'transactions'],
     type: 'sql-query',
     title: 'Use SET LOCAL for Transaction-Scoped Settings',
     prompt:
@@ -34,6 +35,7 @@ export const exercises: Exercise[] = [
   {
     id: 'session-vs-transaction-set',
     lessonId: '',
+    concepts: ['pooling', 'transactions'],
     type: 'sql-query',
     title: 'Compare SET vs SET LOCAL Persistence',
     prompt:
@@ -59,6 +61,7 @@ export const exercises: Exercise[] = [
       }
     },
     order: 2,
-    difficulty: 3
+    difficulty: 3,
+    execution: 'commit'
   }
 ];
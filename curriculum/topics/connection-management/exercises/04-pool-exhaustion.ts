@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-max-connections',
     lessonId: '',
+    concepts: ['pooling', 'connections', 'monitoring'],
     type: 'sql-query',
     title: 'Check Connection Usage vs Limit',
     prompt:
@@ -34,6 +35,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connection-wait-timeout',
     lessonId: '',
+    concepts: ['pooling', 'connections', 'monitoring'],
     type: 'sql-query',
     title: 'Understand Connection Timeouts',
     prompt:
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'identify-read-queries',
     lessonId: '',
+    concepts: ['pooling', 'replication'],
     type: 'sql-query',
     title: 'Identify Read vs Write Queries',
     prompt:
@@ -34,6 +35,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-replication-status',
     lessonId: '',
+    concepts: ['pooling', 'replication'],
     type: 'sql-query',
     title: 'Check Replication Settings',
     prompt:
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'pg-stat-activity-monitoring',
     lessonId: '',
+    concepts: ['pooling', 'monitoring'],
     type: 'sql-query',
     title: 'Monitor Connection States',
     prompt:
@@ -33,6 +34,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connection-state-summary',
     lessonId: '',
+    concepts: ['pooling', 'monitoring'],
     type: 'sql-query',
     title: 'Summarize Connection States',
     prompt:
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-idle-transactions',
     lessonId: '',
+    concepts: ['connections', 'transactions', 'monitoring'],
     type: 'sql-query',
     title: 'Find Idle-in-Transaction Sessions',
     prompt:
@@ -38,6 +39,7 @@ export const exercises: Exercise[] = [
   {
     id: 'idle-transaction-timeout',
     lessonId: '',
+    concepts: ['connections', 'transactions', 'monitoring'],
     type: 'sql-query',
     title: 'Configure Idle Transaction Timeout',
     prompt:
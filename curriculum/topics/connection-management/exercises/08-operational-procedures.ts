@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-connection-settings',
     lessonId: '',
+    concepts: ['connections', 'pooling', 'maintenance'],
     type: 'sql-query',
     title: 'Review Connection Settings',
     prompt:
@@ -34,6 +35,7 @@ export const exercises: Exercise[] = [
   {
     id: 'terminate-idle-connections',
     lessonId: '',
+    concepts: ['connections', 'pooling', 'maintenance'],
     type: 'sql-query',
     title: 'Terminate Idle Connections',
     prompt:
@@ -58,6 +60,7 @@ export const exercises: Exercise[] = [
       }
     },
     order: 2,
-    difficulty: 3
+    difficulty: 3,
+    policy: { allowDangerous: ['pg_terminate_backend'] }
   }
 ];
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'diagnose-slow-queries',
     lessonId: '',
+    concepts: ['incident-response', 'monitoring', 'performance'],
     type: 'sql-query',
     title: 'Find the Slow Queries',
     prompt:
@@ -73,6 +74,7 @@ export const exercises: Exercise[] = [
   {
     id: 'explain-bad-plan',
     lessonId: '',
+    concepts: ['incident-response', 'monitoring', 'performance'],
     type: 'sql-query',
     title: 'Examine the Bad Query Plan',
     prompt:
@@ -133,6 +135,7 @@ export const exercises: Exercise[] = [
   {
     id: 'fix-with-analyze',
     lessonId: '',
+    concepts: ['incident-response', 'monitoring', 'performance'],
     type: 'sql-query',
     title: 'Fix the Statistics',
     prompt:
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'diagnose-connection-state',
     lessonId: '',
+    concepts: ['incident-response', 'connections'],
     type: 'sql-query',
     title: 'Assess the Connection State',
     prompt:
@@ -44,6 +45,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-idle-transactions',
     lessonId: '',
+    concepts: ['incident-response', 'connections'],
     type: 'sql-query',
     title: 'Find the Idle-in-Transaction Sessions',
     prompt:
@@ -81,6 +83,7 @@ export const exercises: Exercise[] = [
   {
     id: 'fix-terminate-idle',
     lessonId: '',
+    concepts: ['incident-response', 'connections'],
     type: 'sql-query',
     title: 'Terminate the Offenders',
     prompt:
@@ -114,5 +117,6 @@ export const exercises: Exercise[] = [
     },
     order: 3,
     difficulty: 6,
+    policy: { allowDangerous: ['pg_terminate_backend'] },
   },
 ];
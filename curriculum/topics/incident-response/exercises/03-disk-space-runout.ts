@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-bloated-table',
     lessonId: '',
+    concepts: ['incident-response', 'storage', 'wal'],
     type: 'sql-query',
     title: 'Find the Bloated Table',
     prompt:
@@ -93,6 +94,7 @@ export const exercises: Exercise[] = [
   {
     id: 'confirm-no-vacuum',
     lessonId: '',
+    concepts: ['incident-response', 'storage', 'wal'],
     type: 'sql-query',
     title: 'Confirm Autovacuum Is Not Running',
     prompt:
@@ -145,6 +147,7 @@ export const exercises: Exercise[] = [
   {
     id: 'fix-vacuum-and-tune',
     lessonId: '',
+    concepts: ['incident-response', 'storage', 'wal'],
     type: 'sql-query',
     title: 'Vacuum and Fix the Configuration',
     prompt:
@@ -194,5 +197,6 @@ export const exercises: Exercise[] = [
     },
     order: 3,
     difficulty: 6,
+    execution: 'commit',
   },
 ];
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-oldest-xid',
     lessonId: '',
+    concepts: ['incident-response', 'vacuum', 'mvcc'],
     type: 'sql-query',
     title: 'Find the Oldest Transaction IDs',
     prompt:
@@ -44,6 +45,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-table-and-freeze',
     lessonId: '',
+    concepts: ['incident-response', 'vacuum', 'mvcc'],
     type: 'sql-query',
     title: 'Find the Worst Table and Freeze It',
     prompt:
@@ -81,5 +83,6 @@ export const exercises: Exercise[] = [
     },
     order: 2,
     difficulty: 6,
+    execution: 'commit',
   },
 ];
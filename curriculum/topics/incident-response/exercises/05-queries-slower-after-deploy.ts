@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'identify-slow-query',
     lessonId: '',
+    concepts: ['incident-response', 'query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Identify the Slow Query',
     prompt:
@@ -67,6 +68,7 @@ export const exercises: Exercise[] = [
   {
     id: 'explain-changed-plan',
     lessonId: '',
+    concepts: ['incident-response', 'query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Understand the Plan Change',
     prompt:
@@ -125,6 +127,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-correlation',
     lessonId: '',
+    concepts: ['incident-response', 'query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Check Column Correlation',
     prompt:
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-blocking-query',
     lessonId: '',
+    concepts: ['incident-response', 'locking'],
     type: 'sql-query',
     title: 'Find the Blocking Query',
     prompt:
@@ -59,6 +60,7 @@ export const exercises: Exercise[] = [
   {
     id: 'terminate-blocker',
     lessonId: '',
+    concepts: ['incident-response', 'locking'],
     type: 'sql-query',
     title: 'Terminate the Blocker',
     prompt:
@@ -96,10 +98,12 @@ export const exercises: Exercise[] = [
     },
     order: 2,
     difficulty: 6,
+    policy: { allowDangerous: ['pg_terminate_backend'] },
   },
   {
     id: 'prevent-recurrence',
     lessonId: '',
+    concepts: ['incident-response', 'locking'],
     type: 'sql-query',
     title: 'Prevent Recurrence with Timeouts',
     prompt:
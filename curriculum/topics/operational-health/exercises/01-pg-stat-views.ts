@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'active-connections',
     lessonId: '',
+    concepts: ['monitoring'],
     type: 'sql-query',
     title: 'View Active Connections',
     prompt: 'Write a query to show all active database connections with their process ID (pid), username (usename), database name (datname), and current query. Exclude the current query itself.',
@@ -31,6 +32,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connection-count-by-state',
     lessonId: '',
+    concepts: ['monitoring'],
     type: 'sql-query',
     title: 'Count Connections by State',
     prompt: 'Write a query to count the number of connections grouped by their state. Include columns: state and connection_count. Order by connection_count descending.',
@@ -60,6 +62,7 @@ export const exercises: Exercise[] = [
   {
     id: 'database-cache-hit-ratio',
     lessonId: '',
+    concepts: ['monitoring'],
     type: 'sql-query',
     title: 'Calculate Cache Hit Ratio',
     prompt: 'Write a query to calculate the cache hit ratio for the current database. Return columns: datname, cache_hit_ratio (rounded to 2 decimal places). The formula is: 100.0 * blks_hit / (blks_hit + blks_read).',
@@ -89,6 +92,7 @@ export const exercises: Exercise[] = [
   {
     id: 'tables-needing-vacuum',
     lessonId: '',
+    concepts: ['monitoring'],
     type: 'sql-query',
     title: 'Identify Tables Needing Vacuum',
     prompt: 'Write a query to find user tables with more than 1000 dead tuples. Return: schemaname, relname, n_live_tup, n_dead_tup, and dead_ratio (percentage of dead tuples, rounded to 2 decimals). Order by n_dead_tup descending.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'enable-pg-stat-statements',
     lessonId: '',
+    concepts: ['monitoring', 'performance'],
     type: 'sql-query',
     title: 'Enable pg_stat_statements Extension',
     prompt: 'Write a query to create the pg_stat_statements extension if it does not already exist.',
@@ -18,9 +19,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          successMessage: 'Extension created or already exists'
-        }
+        rules: {}
       }
     },
     order: 1,
@@ -29,6 +28,7 @@ export const exercises: Exercise[] = [
   {
     id: 'top-queries-by-total-time',
     lessonId: '',
+    concepts: ['monitoring', 'performance'],
     type: 'sql-query',
     title: 'Find Top Queries by Total Time',
     prompt: 'Write a query to find the top 10 queries by total execution time from pg_stat_statements. Return: queryid, calls, total_exec_time (rounded to 2 decimals), mean_exec_time (rounded to 2 decimals), and the first 80 characters of query as query_preview. Order by total_exec_time descending.',
@@ -65,6 +65,7 @@ export const exercises: Exercise[] = [
   {
     id: 'queries-with-high-io',
     lessonId: '',
+    concepts: ['monitoring', 'performance'],
     type: 'sql-query',
     title: 'Find Queries with High Disk I/O',
     prompt: 'Write a query to find queries that have read blocks from disk (shared_blks_read > 0). Return: queryid, shared_blks_read, shared_blks_hit, cache_hit_ratio (rounded to 2 decimals), and first 60 characters of query. Order by shared_blks_read descending, limit 10.',
@@ -96,6 +97,7 @@ export const exercises: Exercise[] = [
   {
     id: 'queries-using-temp-space',
     lessonId: '',
+    concepts: ['monitoring', 'performance'],
     type: 'sql-query',
     title: 'Identify Queries Using Temporary Disk Space',
     prompt: 'Write a query to find queries that have written temporary blocks (temp_blks_written > 0). Return: queryid, calls, temp_blks_written, temp_size_mb (calculated as temp_blks_written * 8192 / 1048576, rounded to 2 decimals), mean_exec_time (rounded to 2 decimals), and first 70 characters of query. Order by temp_blks_written descending.',
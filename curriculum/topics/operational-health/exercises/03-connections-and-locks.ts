@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connection-utilization',
     lessonId: '',
+    concepts: ['monitoring', 'connections', 'locking'],
     type: 'sql-query',
     title: 'Calculate Connection Utilization',
     prompt: 'Write a query to calculate connection utilization. Return: current_connections (count from pg_stat_activity), max_connections (from settings), and utilization_pct (rounded to 2 decimals). Use current_setting() to get max_connections.',
@@ -33,6 +34,7 @@ export const exercises: Exercise[] = [
   {
     id: 'idle-in-transaction',
     lessonId: '',
+    concepts: ['monitoring', 'connections', 'locking'],
     type: 'sql-query',
     title: 'Find Idle in Transaction Connections',
     prompt: 'Write a query to find all idle in transaction connections. Return: pid, usename, state_change, idle_duration (age from state_change to now), and query. Order by state_change ascending (oldest first).',
@@ -61,6 +63,7 @@ export const exercises: Exercise[] = [
   {
     id: 'current-locks-summary',
     lessonId: '',
+    concepts: ['monitoring', 'connections', 'locking'],
     type: 'sql-query',
     title: 'Summarize Current Locks',
     prompt: 'Write a query to summarize locks by type and mode. Return: locktype, mode, total_count (all locks), granted_count (granted locks), and waiting_count (locks not granted). Order by total_count descending.',
@@ -90,6 +93,7 @@ export const exercises: Exercise[] = [
   {
     id: 'blocking-queries',
     lessonId: '',
+    concepts: ['monitoring', 'connections', 'locking'],
     type: 'sql-query',
     title: 'Identify Blocking Queries',
     prompt: 'Write a query to show blocking relationships. Return: blocked_pid, blocked_user (usename), blocking_pid, blocking_user (usename), blocked_query, and blocking_query. Join pg_locks and pg_stat_activity to find locks where blocked_locks.granted = false.',
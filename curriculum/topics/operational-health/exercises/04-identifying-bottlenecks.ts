@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'sequential-scans-large-tables',
     lessonId: '',
+    concepts: ['monitoring', 'performance', 'optimization'],
     type: 'sql-query',
     title: 'Find Sequential Scans on Large Tables',
     prompt: 'Write a query to find tables with more than 10,000 live tuples that have sequential scans. Return: schemaname, relname, seq_scan, seq_tup_read, n_live_tup, and table_size (use pg_size_pretty). Order by seq_tup_read descending, limit 10.',
@@ -40,6 +41,7 @@ export const exercises: Exercise[] = [
   {
     id: 'unused-indexes',
     lessonId: '',
+    concepts: ['monitoring', 'performance', 'optimization'],
     type: 'sql-query',
     title: 'Find Unused Indexes',
     prompt: 'Write a query to find indexes that have never been used (idx_scan = 0) and are not primary keys. Return: schemaname, tablename, indexname, idx_scan, and index_size (use pg_size_pretty). Order by pg_relation_size(indexrelid) descending.',
@@ -74,6 +76,7 @@ export const exercises: Exercise[] = [
   {
     id: 'hot-update-ratio',
     lessonId: '',
+    concepts: ['monitoring', 'performance', 'optimization'],
     type: 'sql-query',
     title: 'Calculate HOT Update Ratio',
     prompt: 'Write a query to calculate the HOT (Heap-Only Tuple) update ratio for tables with updates. Return: schemaname, relname, n_tup_upd, n_tup_hot_upd, hot_ratio (percentage, rounded to 2 decimals). Filter for tables with n_tup_upd > 0. Order by hot_ratio ascending (worst first), limit 10.',
@@ -110,6 +113,7 @@ export const exercises: Exercise[] = [
   {
     id: 'long-running-queries',
     lessonId: '',
+    concepts: ['monitoring', 'performance', 'optimization'],
     type: 'sql-query',
     title: 'Find Long-Running Queries',
     prompt: 'Write a query to find currently active queries running longer than 5 seconds. Return: pid, usename, query_start, duration (age from query_start to now), state, and query. Exclude queries on pg_stat_activity itself. Order by query_start ascending.',
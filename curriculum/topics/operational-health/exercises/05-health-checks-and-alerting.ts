@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connection-health-check',
     lessonId: '',
+    concepts: ['monitoring', 'maintenance'],
     type: 'sql-query',
     title: 'Connection Health Check',
     prompt: 'Write a query to check connection health. Return: current_connections, max_connections, available_connections (max - reserved - current), and status. Status should be "CRITICAL" if utilization > 95%, "WARNING" if > 80%, otherwise "OK". Use current_setting() for max_connections and superuser_reserved_connections.',
@@ -33,6 +34,7 @@ export const exercises: Exercise[] = [
   {
     id: 'transaction-wraparound-check',
     lessonId: '',
+    concepts: ['monitoring', 'maintenance'],
     type: 'sql-query',
     title: 'Check Transaction ID Wraparound',
     prompt: 'Write a query to check for approaching transaction ID wraparound. Return: datname, xid_age (age of datfrozenxid), xids_remaining (2147483648 - xid_age), pct_towards_wraparound (rounded to 2 decimals), and status. Status should be "CRITICAL" if age > 1800000000, "WARNING" if > 1500000000, otherwise "OK". Filter for current_database().',
@@ -63,6 +65,7 @@ export const exercises: Exercise[] = [
   {
     id: 'replication-lag-check',
     lessonId: '',
+    concepts: ['monitoring', 'maintenance'],
     type: 'sql-query',
     title: 'Replication Lag Health Check',
     prompt: 'Write a query to check replication lag. Return: is_replica (pg_is_in_recovery()), lag_seconds (extract epoch from now() - pg_last_xact_replay_timestamp(), rounded to integer), and status. Status should be "N/A" if not a replica, "CRITICAL" if lag > 60 seconds, "WARNING" if > 30 seconds, otherwise "OK".',
@@ -92,6 +95,7 @@ export const exercises: Exercise[] = [
   {
     id: 'vacuum-analyze-health',
     lessonId: '',
+    concepts: ['monitoring', 'maintenance'],
     type: 'sql-query',
     title: 'Check Vacuum and Analyze Freshness',
     prompt: 'Write a query to check tables that have not been vacuumed in over 7 days. Return: schemaname, relname, hours_since_vacuum (extract epoch from age, divide by 3600, round to 2 decimals), n_live_tup, n_dead_tup. Use GREATEST(last_vacuum, last_autovacuum) for last vacuum time. Filter for tables with n_live_tup > 1000 and hours_since_vacuum > 168. Order by hours_since_vacuum descending.',
@@ -125,6 +129,7 @@ export const exercises: Exercise[] = [
   {
     id: 'comprehensive-health-check',
     lessonId: '',
+    concepts: ['monitoring', 'maintenance'],
     type: 'sql-query',
     title: 'Create Comprehensive Health Check',
     prompt: 'Write a query that returns multiple health checks. Use UNION ALL to combine: (1) cache_hit_ratio check with columns: check_name, metric_value, status; (2) connection_utilization with same columns; (3) bloat_check showing max dead ratio. Each should have appropriate status (OK, WARNING, CRITICAL).',
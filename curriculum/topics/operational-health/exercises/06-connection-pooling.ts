@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-max-connections',
     lessonId: '',
+    concepts: ['pooling', 'connections'],
     type: 'sql-query',
     title: 'Check Maximum Connections Setting',
     prompt: 'Write a query to display the current max_connections setting for the PostgreSQL server.',
@@ -28,6 +29,7 @@ export const exercises: Exercise[] = [
   {
     id: 'count-current-connections',
     lessonId: '',
+    concepts: ['pooling', 'connections'],
     type: 'sql-query',
     title: 'Count Current Active Connections',
     prompt: 'Write a query to count the total number of current connections to the database.',
@@ -54,6 +56,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connections-by-state',
     lessonId: '',
+    concepts: ['pooling', 'connections'],
     type: 'sql-query',
     title: 'Analyze Connection States',
     prompt: 'Write a query to show the count of connections grouped by their state. Include columns: state, count. Order by count descending.',
@@ -80,6 +83,7 @@ export const exercises: Exercise[] = [
   {
     id: 'identify-idle-connections',
     lessonId: '',
+    concepts: ['pooling', 'connections'],
     type: 'sql-query',
     title: 'Find Long-Running Idle Connections',
     prompt: 'Write a query to find connections that have been idle for more than 5 minutes. Show: pid, usename, datname, state, and how long they\'ve been idle (call it idle_duration). Order by idle duration descending.',
@@ -110,6 +114,7 @@ export const exercises: Exercise[] = [
   {
     id: 'idle-in-transaction',
     lessonId: '',
+    concepts: ['pooling', 'connections'],
     type: 'sql-query',
     title: 'Detect Idle in Transaction Connections',
     prompt: 'Write a query to find connections in "idle in transaction" state. Show: pid, usename, transaction_duration (time since transaction started), and idle_duration (time since state changed). Order by transaction duration descending.',
@@ -137,6 +142,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connection-utilization',
     lessonId: '',
+    concepts: ['pooling', 'connections'],
     type: 'sql-query',
     title: 'Calculate Connection Utilization Percentage',
     prompt: 'Write a query that shows: current_connections (count from pg_stat_activity), max_connections (from settings), available_connections (max - current), and utilization_pct (percentage of max in use). Return one row.',
@@ -165,6 +171,7 @@ export const exercises: Exercise[] = [
   {
     id: 'connections-by-database',
     lessonId: '',
+    concepts: ['pooling', 'connections'],
     type: 'sql-query',
     title: 'Group Connections by Database',
     prompt: 'Write a query to show connection counts grouped by database. Include: datname, connection_count. Filter out NULL database names. Order by connection_count descending.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'range-partition',
     lessonId: '',
+    concepts: ['partitioning'],
     type: 'sql-query',
     title: 'Create a Range-Partitioned Table',
     prompt: 'Create a range-partitioned events table partitioned by month. Create the parent table, three monthly partitions (2025-01, 2025-02, 2025-03), insert some data, then verify rows landed in the correct partitions with: SELECT tableoid::regclass AS partition, count(*) FROM events GROUP BY 1 ORDER BY 1.',
@@ -56,6 +57,7 @@ export const exercises: Exercise[] = [
   {
     id: 'hash-partition',
     lessonId: '',
+    concepts: ['partitioning'],
     type: 'sql-query',
     title: 'Create a Hash-Partitioned Table',
     prompt: 'A hash-partitioned users table with 4 partitions has been created and populated. Verify the even distribution by querying: SELECT tableoid::regclass AS partition, count(*) FROM users GROUP BY 1 ORDER BY 1.',
@@ -102,6 +104,7 @@ export const exercises: Exercise[] = [
   {
     id: 'list-partition',
     lessonId: '',
+    concepts: ['partitioning'],
     type: 'sql-query',
     title: 'Create a List-Partitioned Table',
     prompt: 'A list-partitioned orders table organized by region has been created. Insert some orders and verify the distribution: SELECT tableoid::regclass AS partition, count(*) FROM orders GROUP BY 1 ORDER BY 1.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-pruning',
     lessonId: '',
+    concepts: ['partitioning', 'query-planning'],
     type: 'sql-query',
     title: 'Observe Partition Pruning',
     prompt: 'Run EXPLAIN (ANALYZE) on a query that filters on the partition key to see partition pruning in action. Only the matching partition should appear in the plan. Run: EXPLAIN (ANALYZE) SELECT * FROM events WHERE created_at >= \'2025-01-01\' AND created_at < \'2025-02-01\'.',
@@ -50,6 +51,7 @@ export const exercises: Exercise[] = [
   {
     id: 'no-pruning',
     lessonId: '',
+    concepts: ['partitioning', 'query-planning'],
     type: 'sql-query',
     title: 'Query Without Pruning',
     prompt: 'Run EXPLAIN (ANALYZE) on a query that does NOT filter on the partition key. All partitions must be scanned. Run: EXPLAIN (ANALYZE) SELECT count(*) FROM events.',
@@ -96,6 +98,7 @@ export const exercises: Exercise[] = [
   {
     id: 'partitionwise-aggregate',
     lessonId: '',
+    concepts: ['partitioning', 'query-planning'],
     type: 'sql-query',
     title: 'Partition-Wise Aggregation',
     prompt: 'Enable partition-wise aggregation and see how PostgreSQL aggregates within each partition independently. Run: SET enable_partitionwise_aggregate = on; EXPLAIN (ANALYZE) SELECT date_trunc(\'month\', created_at) AS month, count(*) FROM events GROUP BY 1 ORDER BY 1.',
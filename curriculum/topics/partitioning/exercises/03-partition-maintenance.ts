@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'detach-partition',
     lessonId: '',
+    concepts: ['partitioning', 'maintenance'],
     type: 'sql-query',
     title: 'Detach a Partition',
     prompt: 'Detach the January 2025 partition from the events table. This makes it a standalone table without deleting any data. Run: ALTER TABLE events DETACH PARTITION events_2025_01. Then verify by querying: SELECT tableoid::regclass AS partition, count(*) FROM events GROUP BY 1 ORDER BY 1.',
@@ -50,6 +51,7 @@ export const exercises: Exercise[] = [
   {
     id: 'attach-partition',
     lessonId: '',
+    concepts: ['partitioning', 'maintenance'],
     type: 'sql-query',
     title: 'Attach a New Partition',
     prompt: 'Create a new standalone table, populate it, then attach it as a partition. First create: CREATE TABLE events_2025_04 (LIKE events INCLUDING ALL); INSERT INTO events_2025_04 (created_at, event_type) SELECT \'2025-04-15\'::timestamptz, \'new_event\' FROM generate_series(1, 50); then attach: ALTER TABLE events ATTACH PARTITION events_2025_04 FOR VALUES FROM (\'2025-04-01\') TO (\'2025-05-01\'); finally verify: SELECT tableoid::regclass AS partition, count(*) FROM events GROUP BY 1 ORDER BY 1.',
@@ -97,6 +99,7 @@ export const exercises: Exercise[] = [
   {
     id: 'index-inheritance',
     lessonId: '',
+    concepts: ['partitioning', 'maintenance'],
     type: 'sql-query',
     title: 'Verify Index Inheritance',
     prompt: 'Create an index on the parent events table and verify it was automatically created on all partitions. Run: CREATE INDEX idx_events_type ON events(event_type); then SELECT tablename, indexname FROM pg_indexes WHERE indexname LIKE \'%events%type%\' OR indexname LIKE \'%event_type%\' ORDER BY tablename.',
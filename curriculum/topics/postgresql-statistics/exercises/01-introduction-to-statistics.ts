@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-autovacuum-status',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Check Autovacuum Status',
     prompt: 'Write a query to check if autovacuum is enabled in your PostgreSQL instance.',
@@ -31,6 +32,7 @@ export const exercises: Exercise[] = [
   {
     id: 'analyze-table',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Run ANALYZE on a Table',
     prompt: 'A table named "products" exists in your database. Write a command to update its statistics using ANALYZE.',
@@ -67,7 +69,6 @@ export const exercises: Exercise[] = [
         strategy: 'result-match',
         rules: {
           // ANALYZE doesn't return rows, so we check it runs successfully
-          allowEmpty: true
         }
       }
     },
@@ -77,6 +78,7 @@ export const exercises: Exercise[] = [
   {
     id: 'view-statistics-age',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'View Statistics Age',
     prompt: 'Write a query to see when the "products" table was last analyzed. Include both manual and automatic analyze times.',
@@ -114,6 +116,7 @@ export const exercises: Exercise[] = [
   {
     id: 'understand-row-counts',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Understanding Row Count Statistics',
     prompt: 'Write a query to show the "products" table name, number of live tuples (rows), and number of modifications since last analyze from pg_stat_user_tables.',
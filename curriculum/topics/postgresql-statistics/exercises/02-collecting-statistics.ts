@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'analyze-specific-columns',
     lessonId: '',
+    concepts: ['statistics', 'maintenance'],
     type: 'sql-query',
     title: 'Analyze Specific Columns',
     prompt: 'Run ANALYZE on the "orders" table, but only for the "customer_id" and "status" columns.',
@@ -37,9 +38,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 1,
@@ -48,6 +47,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-statistics-target',
     lessonId: '',
+    concepts: ['statistics', 'maintenance'],
     type: 'sql-query',
     title: 'Check Default Statistics Target',
     prompt: 'Write a query to check the current value of default_statistics_target.',
@@ -75,6 +75,7 @@ export const exercises: Exercise[] = [
   {
     id: 'identify-stale-statistics',
     lessonId: '',
+    concepts: ['statistics', 'maintenance'],
     type: 'sql-query',
     title: 'Identify Tables with Stale Statistics',
     prompt: 'Write a query to find all user tables where more than 10% of rows have been modified since the last ANALYZE. Show table name, number of live tuples, modifications since analyze, and the percentage changed (rounded to 1 decimal place).',
@@ -130,6 +131,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-autovacuum-settings',
     lessonId: '',
+    concepts: ['statistics', 'maintenance'],
     type: 'sql-query',
     title: 'Check Autovacuum Analyze Settings',
     prompt: 'Write a query to show the current values of autovacuum_analyze_threshold and autovacuum_analyze_scale_factor.',
@@ -158,6 +160,7 @@ export const exercises: Exercise[] = [
   {
     id: 'calculate-autovacuum-trigger',
     lessonId: '',
+    concepts: ['statistics', 'maintenance'],
     type: 'sql-query',
     title: 'Calculate When Autovacuum Will Trigger',
     prompt: 'For the "orders" table, calculate how many changes are needed before autovacuum will run ANALYZE. Use the formula: threshold + (scale_factor × n_live_tup). Show the table name, current live tuples, and the calculated trigger threshold. Assume autovacuum_analyze_threshold=50 and autovacuum_analyze_scale_factor=0.1.',
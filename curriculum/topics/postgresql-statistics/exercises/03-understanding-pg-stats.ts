@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'explore-pg-stats-basic',
     lessonId: '',
+    concepts: ['statistics'],
     type: 'sql-query',
     title: 'Explore Basic Column Statistics',
     prompt: 'Query pg_stats for the "products" table to see the column name, null fraction, average width, and number of distinct values for all columns. Order by column name.',
@@ -57,6 +58,7 @@ export const exercises: Exercise[] = [
   {
     id: 'understand-null-fraction',
     lessonId: '',
+    concepts: ['statistics'],
     type: 'sql-query',
     title: 'Understanding NULL Fraction',
     prompt: 'Query pg_stats for the "users" table to find columns with more than 10% NULL values. Show the column name and NULL fraction as a percentage (rounded to 2 decimal places). Order by null_frac descending.',
@@ -105,6 +107,7 @@ export const exercises: Exercise[] = [
   {
     id: 'explore-most-common-values',
     lessonId: '',
+    concepts: ['statistics'],
     type: 'sql-query',
     title: 'Examine Most Common Values',
     prompt: 'Query pg_stats to see the most common values and their frequencies for the "status" column in the "orders" table.',
@@ -154,6 +157,7 @@ export const exercises: Exercise[] = [
   {
     id: 'analyze-correlation',
     lessonId: '',
+    concepts: ['statistics'],
     type: 'sql-query',
     title: 'Understand Column Correlation',
     prompt: 'Query pg_stats to show column name and correlation for all columns in the "events" table. Order by the absolute value of correlation descending to see which columns are most correlated with physical storage order.',
@@ -201,6 +205,7 @@ export const exercises: Exercise[] = [
   {
     id: 'histogram-bounds-exploration',
     lessonId: '',
+    concepts: ['statistics'],
     type: 'sql-query',
     title: 'Explore Histogram Bounds',
     prompt: 'Query pg_stats to show the column name and number of histogram buckets for numeric/date columns in the "sales" table. Use array_length() to count histogram buckets.',
@@ -250,6 +255,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-skewed-distributions',
     lessonId: '',
+    concepts: ['statistics'],
     type: 'sql-query',
     title: 'Identify Skewed Data Distributions',
     prompt: 'Find columns with highly skewed distributions by querying pg_stats for columns where the most common value appears in more than 40% of rows. Show schema, table, column name, the top value, and its frequency percentage (rounded to 1 decimal).',
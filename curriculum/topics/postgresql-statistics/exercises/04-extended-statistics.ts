@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'create-basic-extended-stats',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Create Basic Extended Statistics',
     prompt: 'Create extended statistics named "stats_address_location" on the city, state, and country columns of the "addresses" table. Include all statistic types (dependencies, ndistinct, mcv).',
@@ -52,9 +53,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 1,
@@ -63,6 +62,7 @@ export const exercises: Exercise[] = [
   {
     id: 'list-extended-statistics',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'List Extended Statistics',
     prompt: 'Query pg_statistic_ext to list all extended statistics for user tables in the public schema. Show the statistics name and the table it belongs to.',
@@ -112,6 +112,7 @@ export const exercises: Exercise[] = [
   {
     id: 'ndistinct-statistics',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Create N-Distinct Statistics',
     prompt: 'Create extended statistics named "stats_products_category" with only ndistinct statistics on the category and subcategory columns of the "products" table.',
@@ -157,9 +158,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 3,
@@ -168,6 +167,7 @@ export const exercises: Exercise[] = [
   {
     id: 'dependency-statistics',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Create Dependency Statistics',
     prompt: 'Create extended statistics named "stats_location_deps" with only dependencies on zip_code, city, state, and country columns of the "locations" table.',
@@ -210,9 +210,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 4,
@@ -221,6 +219,7 @@ export const exercises: Exercise[] = [
   {
     id: 'mcv-statistics',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Create Multi-Column MCV Statistics',
     prompt: 'Create extended statistics named "stats_sessions_device" with only mcv (most common values) on device_type and browser columns of the "user_sessions" table.',
@@ -258,9 +257,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 5,
@@ -269,6 +266,7 @@ export const exercises: Exercise[] = [
   {
     id: 'drop-extended-statistics',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Drop Extended Statistics',
     prompt: 'Drop the extended statistics named "stats_old_correlation" if it exists.',
@@ -290,9 +288,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 6,
@@ -301,6 +297,7 @@ export const exercises: Exercise[] = [
   {
     id: 'verify-extended-stats-usage',
     lessonId: '',
+    concepts: ['statistics', 'query-planning'],
     type: 'sql-query',
     title: 'Verify Extended Statistics Exist',
     prompt: 'Query pg_statistic_ext to verify that extended statistics exist for the "orders" table. Show the statistics name, the types of statistics collected (stxkind), and the table name.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'set-column-statistics-target',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'Set Column Statistics Target',
     prompt: 'Set the statistics target to 500 for the customer_id column in the "orders" table.',
@@ -32,9 +33,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 1,
@@ -43,6 +42,7 @@ export const exercises: Exercise[] = [
   {
     id: 'view-column-statistics-targets',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'View Column Statistics Targets',
     prompt: 'Write a query to show all columns in the "products" table along with their statistics targets. Show table name, column name, and the effective statistics target (use default_statistics_target when column-specific target is -1).',
@@ -89,6 +89,7 @@ export const exercises: Exercise[] = [
   {
     id: 'configure-table-autovacuum',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'Configure Per-Table Autovacuum',
     prompt: 'Configure the "activity_log" table to have more aggressive auto-analyze by setting autovacuum_analyze_scale_factor to 0.05 and autovacuum_analyze_threshold to 500.',
@@ -120,9 +121,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 3,
@@ -131,6 +130,7 @@ export const exercises: Exercise[] = [
   {
     id: 'find-tables-needing-tuning',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'Identify Tables Needing Statistics Tuning',
     prompt: 'Find all tables in the public schema with more than 10,000 rows that would need more than 1 million changes before autovacuum triggers ANALYZE (using default settings of threshold=50, scale_factor=0.1). Show table name, row count, and calculated trigger point.',
@@ -192,6 +192,7 @@ export const exercises: Exercise[] = [
   {
     id: 'reset-statistics-target',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'Reset Statistics Target to Default',
     prompt: 'Reset the statistics target for the "price" column in the "items" table back to the default value.',
@@ -216,9 +217,7 @@ export const exercises: Exercise[] = [
       strategy: 'result-match',
       rules: {
         strategy: 'result-match',
-        rules: {
-          allowEmpty: true
-        }
+        rules: {}
       }
     },
     order: 5,
@@ -227,6 +226,7 @@ export const exercises: Exercise[] = [
   {
     id: 'comprehensive-statistics-health',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'Comprehensive Statistics Health Report',
     prompt: 'Create a comprehensive statistics health report showing: table name, row count, modifications since analyze, percent changed (rounded to 1 decimal), last analyze time, and days since last analyze. Filter for tables with more than 100 rows and order by percent changed descending.',
@@ -293,6 +293,7 @@ export const exercises: Exercise[] = [
   {
     id: 'monitor-analyze-performance',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'Check Statistics Collection Configuration',
     prompt: 'Write a query to show the current values of key statistics-related configuration parameters: default_statistics_target, autovacuum_analyze_threshold, and autovacuum_analyze_scale_factor. Show parameter name and current setting.',
@@ -321,6 +322,7 @@ export const exercises: Exercise[] = [
   {
     id: 'calculate-optimal-scale-factor',
     lessonId: '',
+    concepts: ['statistics', 'optimization'],
     type: 'sql-query',
     title: 'Calculate Recommended Scale Factor',
     prompt: 'For tables larger than 1 million rows, calculate a recommended autovacuum_analyze_scale_factor that would trigger after approximately 100,000 changes (ignoring threshold). Show table name, current row count, and the recommended scale_factor (rounded to 4 decimals).',
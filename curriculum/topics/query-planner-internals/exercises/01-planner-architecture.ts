@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-seq-page-cost',
     lessonId: '',
+    concepts: ['query-planning'],
     type: 'sql-query',
     title: 'View Sequential Page Cost',
     prompt: 'Write a query to display the current seq_page_cost setting.',
@@ -28,6 +29,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-random-page-cost',
     lessonId: '',
+    concepts: ['query-planning'],
     type: 'sql-query',
     title: 'Compare Random Page Cost',
     prompt: 'Write a query to display the current random_page_cost setting.',
@@ -52,6 +54,7 @@ export const exercises: Exercise[] = [
   {
     id: 'view-table-statistics',
     lessonId: '',
+    concepts: ['query-planning'],
     type: 'sql-query',
     title: 'View Table Row Count',
     prompt: 'Write a query to show the estimated number of rows (reltuples) and pages (relpages) for tables in the pg_class catalog. Filter to show only regular tables (relkind = \'r\') and order by table name.',
@@ -87,6 +90,7 @@ export const exercises: Exercise[] = [
   {
     id: 'analyze-table',
     lessonId: '',
+    concepts: ['query-planning'],
     type: 'sql-query',
     title: 'Update Table Statistics',
     prompt: 'Write a query to update statistics for the sample_data table.',
@@ -118,6 +122,7 @@ export const exercises: Exercise[] = [
   {
     id: 'join-collapse-limit',
     lessonId: '',
+    concepts: ['query-planning'],
     type: 'sql-query',
     title: 'join_collapse_limit: Controlling Join Order',
     prompt: 'First, run the multi-table join and let the planner optimize the order. Then set join_collapse_limit = 1 and run the same query — the planner will respect YOUR explicit join order. Compare the costs.',
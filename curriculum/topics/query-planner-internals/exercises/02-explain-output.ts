@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'basic-explain',
     lessonId: '',
+    concepts: ['explain', 'query-planning'],
     type: 'sql-query',
     title: 'Basic EXPLAIN',
     prompt: 'Use EXPLAIN to show the query plan for selecting all rows from the products table where price > 100. Do not execute the query.',
@@ -41,6 +42,7 @@ export const exercises: Exercise[] = [
   {
     id: 'explain-analyze',
     lessonId: '',
+    concepts: ['explain', 'query-planning'],
     type: 'sql-query',
     title: 'EXPLAIN ANALYZE',
     prompt: 'Use EXPLAIN ANALYZE to show both the plan and actual execution statistics for selecting products where price < 50.',
@@ -79,6 +81,7 @@ export const exercises: Exercise[] = [
   {
     id: 'explain-json-format',
     lessonId: '',
+    concepts: ['explain', 'query-planning'],
     type: 'sql-query',
     title: 'JSON Format EXPLAIN',
     prompt: 'Use EXPLAIN with FORMAT JSON to output the query plan in JSON format for the query: SELECT COUNT(*) FROM products.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'identify-seq-scan',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'indexes'],
     type: 'sql-query',
     title: 'Observe Sequential Scan',
     prompt: 'Use EXPLAIN to show the plan for selecting all products where price > 50. This should show a Sequential Scan.',
@@ -43,6 +44,7 @@ export const exercises: Exercise[] = [
   {
     id: 'create-index-for-scan',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'indexes'],
     type: 'sql-query',
     title: 'Create Index to Enable Index Scan',
     prompt: 'Create an index on the price column of the products table called idx_products_price.',
@@ -79,6 +81,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-index-scan',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'indexes'],
     type: 'sql-query',
     title: 'Observe Index Scan',
     prompt: 'After creating the index, use EXPLAIN to show the plan for selecting products where price = 50. This should show an Index Scan.',
@@ -119,6 +122,7 @@ export const exercises: Exercise[] = [
   {
     id: 'index-only-scan-setup',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'indexes'],
     type: 'sql-query',
     title: 'Create Covering Index',
     prompt: 'Create an index on (price, name) for the products table called idx_products_price_name to enable Index Only Scans.',
@@ -155,6 +159,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-index-only-scan',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'indexes'],
     type: 'sql-query',
     title: 'Observe Index Only Scan',
     prompt: 'Use EXPLAIN to show the plan for selecting only price and name from products where price > 100. After the covering index and VACUUM, this may show an Index Only Scan.',
@@ -196,6 +201,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-bitmap-scan',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'indexes'],
     type: 'sql-query',
     title: 'Observe Bitmap Heap Scan',
     prompt: 'Use EXPLAIN to show the plan for selecting products where price BETWEEN 80 AND 120. This may show a Bitmap Heap Scan with moderate selectivity.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'setup-join-tables',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'Setup Tables for Join Examples',
     prompt: 'Create two tables: customers (id, name, city) and orders (id, customer_id, total). Insert sample data into both.',
@@ -32,6 +33,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-nested-loop',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'Observe Nested Loop Join',
     prompt: 'Use EXPLAIN to show the plan for joining customers and orders where customer city is Boston. With a small number of customers and an index, this should use Nested Loop.',
@@ -88,6 +90,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-hash-join',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'Observe Hash Join',
     prompt: 'Use EXPLAIN to show the plan for joining all customers with all orders. With larger tables, this should use Hash Join.',
@@ -141,6 +144,7 @@ export const exercises: Exercise[] = [
   {
     id: 'create-sorted-indexes',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'Create Indexes for Merge Join',
     prompt: 'Create indexes on both join columns to enable Merge Join: idx_customers_id on customers(id) and idx_orders_customer_id on orders(customer_id).',
@@ -191,6 +195,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-merge-join',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'Observe Merge Join',
     prompt: 'Use EXPLAIN to show the plan for joining customers and orders, ordering by customer id. With indexes on both join columns, this may show a Merge Join.',
@@ -247,6 +252,7 @@ export const exercises: Exercise[] = [
   {
     id: 'hash-join-batches-low-mem',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'Hash Join: Spilling to Disk',
     prompt: 'Set work_mem to 64kB and run the join query. Look for "Batches" in the Hash node — it should be greater than 1, meaning the hash table didn\'t fit in memory.',
@@ -287,6 +293,7 @@ export const exercises: Exercise[] = [
   {
     id: 'hash-join-batches-high-mem',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'Hash Join: In-Memory with Large work_mem',
     prompt: 'Now set work_mem to 256MB and run the same join query. The hash join should complete in a single batch.',
@@ -326,6 +333,7 @@ export const exercises: Exercise[] = [
   {
     id: 'planner-algorithm-choice',
     lessonId: '',
+    concepts: ['explain', 'query-planning', 'joins'],
     type: 'sql-query',
     title: 'How Table Size Affects Join Algorithm Choice',
     prompt: 'Run EXPLAIN on the join between a small lookup table (10 rows) and the large orders table. PostgreSQL should choose Nested Loop with Index Scan, not Hash Join. Why?',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'view-work-mem',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Check work_mem Setting',
     prompt: 'Write a query to display the current work_mem setting.',
@@ -28,6 +29,7 @@ export const exercises: Exercise[] = [
   {
     id: 'view-pg-stats',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'View Column Statistics',
     prompt: 'Query pg_stats to view statistics for all columns in the sample_table, showing the column name, n_distinct, and correlation.',
@@ -74,6 +76,7 @@ export const exercises: Exercise[] = [
   {
     id: 'compare-estimated-actual',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Compare Estimated vs Actual Rows',
     prompt: 'Use EXPLAIN ANALYZE to see both estimated and actual row counts for selecting from sample_table where value > 500.',
@@ -120,6 +123,7 @@ export const exercises: Exercise[] = [
   {
     id: 'increase-statistics-target',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Increase Statistics Target',
     prompt: 'Alter the sample_table to increase the statistics target for the value column to 500.',
@@ -163,6 +167,7 @@ export const exercises: Exercise[] = [
   {
     id: 'view-mcv-histogram',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'View Most Common Values',
     prompt: 'Query pg_stats to see the most_common_vals and most_common_freqs for the category column in sample_table.',
@@ -210,6 +215,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-sort-cost',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Observe Sort Cost',
     prompt: 'Use EXPLAIN ANALYZE to show the plan and sort details for selecting all rows from sample_table ordered by value DESC.',
@@ -256,6 +262,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-hash-batches',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Observe Hash Join Batches',
     prompt: 'Use EXPLAIN ANALYZE to show a hash join between two tables, observing the Hash node with Buckets and Batches information.',
@@ -307,6 +314,7 @@ export const exercises: Exercise[] = [
   {
     id: 'interesting-orders',
     lessonId: '',
+    concepts: ['query-planning', 'statistics'],
     type: 'sql-query',
     title: 'Interesting Orders: Merge Join Saves a Sort',
     prompt: 'Run EXPLAIN on a join query with ORDER BY matching the join key. PostgreSQL may choose Merge Join (even if Hash Join alone is cheaper) because the sorted output eliminates the ORDER BY sort. Then force a Hash Join with enable_mergejoin = off and compare — you should see an extra Sort node.',
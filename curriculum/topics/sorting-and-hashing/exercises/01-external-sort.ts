@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'in-memory-sort',
     lessonId: '',
+    concepts: ['sorting', 'memory', 'explain'],
     type: 'sql-query',
     title: 'Observe In-Memory Sort',
     prompt: 'With generous work_mem, sort a large table entirely in memory. Run: SET work_mem = \'64MB\'; EXPLAIN (ANALYZE) SELECT * FROM big_table ORDER BY value. Look for "Sort Method: quicksort Memory:" in the output — this means the sort completed in memory.',
@@ -42,6 +43,7 @@ export const exercises: Exercise[] = [
   {
     id: 'disk-sort',
     lessonId: '',
+    concepts: ['sorting', 'memory', 'explain'],
     type: 'sql-query',
     title: 'Force a Disk Sort',
     prompt: 'With tiny work_mem, force the sort to spill to disk. Run: SET work_mem = \'64kB\'; EXPLAIN (ANALYZE) SELECT * FROM big_table ORDER BY value. Look for "Sort Method: external merge Disk:" — this means the sort couldn\'t fit in memory and used temporary files.',
@@ -80,6 +82,7 @@ export const exercises: Exercise[] = [
   {
     id: 'top-n-heapsort',
     lessonId: '',
+    concepts: ['sorting', 'memory', 'explain'],
     type: 'sql-query',
     title: 'Top-N Heapsort with LIMIT',
     prompt: 'When you only need the top N rows, PostgreSQL uses a heap (priority queue) that needs very little memory regardless of table size. Run: EXPLAIN (ANALYZE) SELECT * FROM big_table ORDER BY value LIMIT 10. Look for "Sort Method: top-N heapsort Memory:".',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'hash-aggregate-single-batch',
     lessonId: '',
+    concepts: ['hashing', 'joins', 'explain'],
     type: 'sql-query',
     title: 'Hash Aggregate in Memory',
     prompt: 'With generous work_mem, run a GROUP BY that fits entirely in a single hash table batch. Run: SET work_mem = \'64MB\'; EXPLAIN (ANALYZE) SELECT category, count(*) FROM products GROUP BY category. Look for "HashAggregate" with "Batches: 1" in the output.',
@@ -46,6 +47,7 @@ export const exercises: Exercise[] = [
   {
     id: 'hash-aggregate-multi-batch',
     lessonId: '',
+    concepts: ['hashing', 'joins', 'explain'],
     type: 'sql-query',
     title: 'Hash Aggregate with Multiple Batches',
     prompt: 'Force the hash aggregate to spill by using many groups and tiny work_mem. Run: SET work_mem = \'64kB\'; EXPLAIN (ANALYZE) SELECT name, count(*) FROM products GROUP BY name. With 100K distinct names, the hash table can\'t fit in 64kB. Look for "Batches: N" where N > 1.',
@@ -88,6 +90,7 @@ export const exercises: Exercise[] = [
   {
     id: 'sort-vs-hash-agg',
     lessonId: '',
+    concepts: ['hashing', 'joins', 'explain'],
     type: 'sql-query',
     title: 'Sort-Based vs Hash-Based Aggregation',
     prompt: 'Disable hash aggregation to force a sort-based GroupAggregate, then compare the plan. Run: SET enable_hashagg = off; EXPLAIN (ANALYZE) SELECT category, count(*) FROM products GROUP BY category. Notice the plan now shows GroupAggregate with a Sort node instead of HashAggregate.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'work-mem-per-operation',
     lessonId: '',
+    concepts: ['memory', 'sorting', 'hashing', 'optimization'],
     type: 'sql-query',
     title: 'Observe Per-Operation work_mem Usage',
     prompt: 'A complex query with both a sort and a hash join has been set up. With tiny work_mem, both operations will spill to disk. Run: SET work_mem = \'64kB\'; EXPLAIN (ANALYZE) SELECT p.category, count(*) FROM products p JOIN orders o ON p.id = o.product_id GROUP BY p.category ORDER BY count(*) DESC. Notice that multiple nodes each use their own work_mem allocation.',
@@ -52,6 +53,7 @@ export const exercises: Exercise[] = [
   {
     id: 'log-temp-files',
     lessonId: '',
+    concepts: ['memory', 'sorting', 'hashing', 'optimization'],
     type: 'sql-query',
     title: 'Enable Temporary File Logging',
     prompt: 'Enable logging of temporary files to detect disk spills. Run: SET log_temp_files = 0; SET work_mem = \'64kB\'; EXPLAIN (ANALYZE) SELECT * FROM products ORDER BY name. With log_temp_files = 0, PostgreSQL logs every temporary file created. The EXPLAIN output will show the disk sort.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'show-block-size',
     lessonId: '',
+    concepts: ['storage'],
     type: 'sql-query',
     title: 'Show the Block Size',
     prompt: 'Run the command to display PostgreSQL\'s block size — the fundamental I/O unit size.',
@@ -31,6 +32,7 @@ export const exercises: Exercise[] = [
   {
     id: 'table-filepath',
     lessonId: '',
+    concepts: ['storage'],
     type: 'sql-query',
     title: 'Find a Table\'s File Path',
     prompt: 'Create a table called test_table with a single column (id INTEGER), then use pg_relation_filepath() to find where PostgreSQL stores its data file on disk.',
@@ -59,6 +61,7 @@ export const exercises: Exercise[] = [
   {
     id: 'calculate-pages',
     lessonId: '',
+    concepts: ['storage'],
     type: 'sql-query',
     title: 'Calculate Number of Pages',
     prompt: 'The test_table has been loaded with 10,000 rows. Calculate how many 8KB pages it occupies by dividing the table\'s size by 8192. Return a single column called "pages".',
@@ -98,6 +101,7 @@ export const exercises: Exercise[] = [
   {
     id: 'seq-vs-random-io',
     lessonId: '',
+    concepts: ['storage'],
     type: 'sql-query',
     title: 'Observe Sequential vs Random I/O',
     prompt: 'A table with 100,000 rows and an index on the id column has been created. Run EXPLAIN (ANALYZE, BUFFERS) to see how PostgreSQL accesses data when filtering for a small range (id < 100). Look at the plan to see whether it chooses a sequential or index scan, and how many buffers it reads.',
@@ -136,6 +140,7 @@ export const exercises: Exercise[] = [
   {
     id: 'relation-size-functions',
     lessonId: '',
+    concepts: ['storage'],
     type: 'sql-query',
     title: 'Compare Table Size Functions',
     prompt: 'Query the total relation size (including indexes and TOAST) of test_table using pg_size_pretty(pg_total_relation_size(\'test_table\')). Return a single human-readable size value.',
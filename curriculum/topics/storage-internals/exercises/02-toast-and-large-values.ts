@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'column-size-comparison',
     lessonId: '',
+    concepts: ['storage', 'data-types'],
     type: 'sql-query',
     title: 'Compare Column Sizes',
     prompt: 'A table with a short text column and a long text column has been created. Use pg_column_size() to compare the stored size of each column. Select pg_column_size(short_col) AS short_size and pg_column_size(long_col) AS long_size from the toast_test table.',
@@ -44,6 +45,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-toast-table',
     lessonId: '',
+    concepts: ['storage', 'data-types'],
     type: 'sql-query',
     title: 'Find the TOAST Table',
     prompt: 'A table with large text values has been created, which means it has an associated TOAST table. Query pg_class to find the TOAST relation. Join pg_class c with pg_class t on c.reltoastrelid = t.oid, filtering where c.relname = \'toast_test\'. Select c.relname and t.relname AS toast_relname.',
@@ -81,6 +83,7 @@ export const exercises: Exercise[] = [
   {
     id: 'toast-strategy',
     lessonId: '',
+    concepts: ['storage', 'data-types'],
     type: 'sql-query',
     title: 'Change TOAST Storage Strategy',
     prompt: 'The toast_test table has a body column using the default EXTENDED strategy (compress + out-of-line). Change it to EXTERNAL (out-of-line without compression), insert a large value, then compare the stored size. Run: ALTER TABLE toast_test ALTER COLUMN body SET STORAGE EXTERNAL; then INSERT a row with repeat(\'x\', 10000) as body, and SELECT pg_column_size(body) AS body_size FROM toast_test ORDER BY id DESC LIMIT 1.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'ctid-basics',
     lessonId: '',
+    concepts: ['storage', 'mvcc'],
     type: 'sql-query',
     title: 'View Tuple CTIDs',
     prompt: 'Select the ctid (physical location) along with all columns from the test_table. Limit to 5 rows. The ctid column shows each tuple\'s (page, offset) address.',
@@ -42,6 +43,7 @@ export const exercises: Exercise[] = [
   {
     id: 'ctid-after-update',
     lessonId: '',
+    concepts: ['storage', 'mvcc'],
     type: 'sql-query',
     title: 'Observe CTID Change After UPDATE',
     prompt: 'The test_table has a row with id=1. An UPDATE has already been executed on it (changing its value). Query the ctid and all columns for id=1 to see its new physical location. Notice the ctid is different from what it would be for a freshly inserted first row — the UPDATE created a new tuple version.',
@@ -81,6 +83,7 @@ export const exercises: Exercise[] = [
   {
     id: 'heap-page-items',
     lessonId: '',
+    concepts: ['storage', 'mvcc'],
     type: 'sql-query',
     requiresSuperuser: true,
     title: 'Inspect Raw Page Contents',
@@ -120,6 +123,7 @@ export const exercises: Exercise[] = [
   {
     id: 'tuple-header',
     lessonId: '',
+    concepts: ['storage', 'mvcc'],
     type: 'sql-query',
     requiresSuperuser: true,
     title: 'Examine Tuple MVCC Headers',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-dead-tuples',
     lessonId: '',
+    concepts: ['storage', 'mvcc', 'vacuum'],
     type: 'sql-query',
     title: 'Monitor Dead Tuple Count',
     prompt: 'A table with 5,000 rows has been created and 2,500 rows have been updated (creating dead tuples). Query pg_stat_user_tables to see the dead tuple count. Select relname, n_live_tup, and n_dead_tup for the bloat_test table.',
@@ -41,6 +42,7 @@ export const exercises: Exercise[] = [
   {
     id: 'table-bloat-growth',
     lessonId: '',
+    concepts: ['storage', 'mvcc', 'vacuum'],
     type: 'sql-query',
     title: 'Observe Table Size Growth from Bloat',
     prompt: 'A table was created, populated, and then every row was updated. Query pg_relation_size(\'bloat_test\') to see the current table size in bytes. The table will be roughly double its ideal size because every UPDATE created a dead tuple alongside the new live tuple.',
@@ -75,6 +77,7 @@ export const exercises: Exercise[] = [
   {
     id: 'pgstattuple-analysis',
     lessonId: '',
+    concepts: ['storage', 'mvcc', 'vacuum'],
     type: 'sql-query',
     requiresSuperuser: true,
     title: 'Precise Bloat Analysis with pgstattuple',
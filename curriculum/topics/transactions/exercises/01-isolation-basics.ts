@@ -4,6 +4,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'read-committed-visibility',
     lessonId: '',
+    concepts: ['transactions', 'isolation'],
     type: 'multi-session',
     title: 'Read Committed Isolation',
     prompt: 'Observe how uncommitted data in one session is invisible to another session under READ COMMITTED isolation.',
@@ -67,6 +68,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'repeatable-read-snapshot',
     lessonId: '',
+    concepts: ['transactions', 'isolation'],
     type: 'multi-session',
     title: 'Repeatable Read Snapshot',
     prompt: 'Observe how REPEATABLE READ keeps a consistent snapshot even when other transactions commit changes.',
@@ -131,6 +133,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'no-dirty-reads',
     lessonId: '',
+    concepts: ['transactions', 'isolation'],
     type: 'sql-query',
     title: 'Verify No Dirty Reads',
     prompt: 'Demonstrate that PostgreSQL never allows dirty reads. In a single session, BEGIN a transaction, INSERT a row, SELECT to see it, ROLLBACK, then SELECT again to verify the row is gone. Run all statements in sequence.',
@@ -4,6 +4,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'lost-update-demo',
     lessonId: '',
+    concepts: ['transactions', 'isolation', 'mvcc'],
     type: 'multi-session',
     title: 'Lost Update Demonstration',
     prompt: 'Demonstrate a lost update: both sessions read a balance, compute a new value, and write — the first write is lost.',
@@ -80,6 +81,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'prevent-lost-update',
     lessonId: '',
+    concepts: ['transactions', 'isolation', 'mvcc'],
     type: 'multi-session',
     title: 'Prevent Lost Update with FOR UPDATE',
     prompt: 'Use SELECT ... FOR UPDATE to prevent the lost update by locking the row before reading.',
@@ -148,6 +150,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'phantom-read-demo',
     lessonId: '',
+    concepts: ['transactions', 'isolation', 'mvcc'],
     type: 'multi-session',
     title: 'Phantom Read in READ COMMITTED',
     prompt: 'Observe a phantom read: Session A counts rows, Session B inserts a new row and commits, Session A recounts and sees the phantom row.',
@@ -4,6 +4,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'view-pg-locks',
     lessonId: '',
+    concepts: ['transactions', 'locking'],
     type: 'sql-query',
     title: 'View Active Locks',
     prompt: 'Start a transaction, lock some rows with FOR UPDATE, then query pg_locks to see the locks you\'re holding. Run: BEGIN; SELECT * FROM test_locks FOR UPDATE; SELECT locktype, relation::regclass, mode, granted FROM pg_locks WHERE relation = \'test_locks\'::regclass;',
@@ -39,6 +40,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'lock-types',
     lessonId: '',
+    concepts: ['transactions', 'locking'],
     type: 'sql-query',
     title: 'Explore Lock Modes',
     prompt: 'Query pg_locks to see all different lock types currently held in the system. Run: SELECT locktype, mode, count(*) FROM pg_locks GROUP BY locktype, mode ORDER BY locktype, mode.',
@@ -67,6 +69,7 @@ export const exercises: (Exercise | MultiSessionExercise)[] = [
   {
     id: 'deadlock-detection',
     lessonId: '',
+    concepts: ['transactions', 'locking'],
     type: 'multi-session',
     title: 'Trigger Deadlock Detection',
     prompt: 'Create a deadlock: Session A locks row 1 and waits for row 2, Session B locks row 2 and waits for row 1. PostgreSQL detects the cycle and aborts one transaction.',
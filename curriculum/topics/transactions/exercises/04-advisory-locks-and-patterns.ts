@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'advisory-lock-basic',
     lessonId: '',
+    concepts: ['locking'],
     type: 'sql-query',
     title: 'Acquire and View Advisory Lock',
     prompt: 'Acquire an advisory lock with key 42, then verify it appears in pg_locks. Run: SELECT pg_advisory_lock(42); SELECT locktype, objid, mode, granted FROM pg_locks WHERE locktype = \'advisory\';',
@@ -31,6 +32,7 @@ export const exercises: Exercise[] = [
   {
     id: 'try-advisory-lock',
     lessonId: '',
+    concepts: ['locking'],
     type: 'sql-query',
     title: 'Non-Blocking Advisory Lock',
     prompt: 'Use the non-blocking variant pg_try_advisory_lock() which returns true if the lock was acquired, false if it\'s already held by another session. Run: SELECT pg_try_advisory_lock(42) AS acquired;',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'xmin-xmax-basics',
     lessonId: '',
+    concepts: ['mvcc', 'vacuum'],
     type: 'sql-query',
     title: 'Inspect xmin and xmax After INSERT',
     prompt:
@@ -37,6 +38,7 @@ export const exercises: Exercise[] = [
   {
     id: 'xmax-after-update',
     lessonId: '',
+    concepts: ['mvcc', 'vacuum'],
     type: 'sql-query',
     title: 'Observe xmax After an UPDATE',
     prompt:
@@ -71,6 +73,7 @@ export const exercises: Exercise[] = [
   {
     id: 'tuple-visibility-pageinspect',
     lessonId: '',
+    concepts: ['mvcc', 'vacuum'],
     type: 'sql-query',
     title: 'See All Tuple Versions with pageinspect',
     prompt:
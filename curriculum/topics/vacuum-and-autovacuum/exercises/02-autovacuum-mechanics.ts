@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-autovacuum-threshold',
     lessonId: '',
+    concepts: ['vacuum', 'maintenance'],
     type: 'sql-query',
     title: 'Check Autovacuum Statistics',
     prompt:
@@ -42,6 +43,7 @@ export const exercises: Exercise[] = [
   {
     id: 'observe-dead-tuples',
     lessonId: '',
+    concepts: ['vacuum', 'maintenance'],
     type: 'sql-query',
     title: 'Observe Dead Tuple Count After Mass Update',
     prompt:
@@ -79,6 +81,7 @@ export const exercises: Exercise[] = [
   {
     id: 'manual-vacuum',
     lessonId: '',
+    concepts: ['vacuum', 'maintenance'],
     type: 'sql-query',
     title: 'Run Manual VACUUM and Verify Cleanup',
     prompt:
@@ -113,5 +116,6 @@ export const exercises: Exercise[] = [
     },
     order: 3,
     difficulty: 3,
+    execution: 'commit',
   },
 ];
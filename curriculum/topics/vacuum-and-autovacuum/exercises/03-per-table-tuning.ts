@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'set-aggressive-autovacuum',
     lessonId: '',
+    concepts: ['vacuum', 'maintenance', 'optimization'],
     type: 'sql-query',
     title: 'Set Aggressive Autovacuum on a Hot Table',
     prompt:
@@ -47,6 +48,7 @@ export const exercises: Exercise[] = [
   {
     id: 'compare-default-vs-tuned',
     lessonId: '',
+    concepts: ['vacuum', 'maintenance', 'optimization'],
     type: 'sql-query',
     title: 'Compare Default vs Tuned Autovacuum Settings',
     prompt:
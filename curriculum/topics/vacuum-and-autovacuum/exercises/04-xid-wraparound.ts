@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-database-age',
     lessonId: '',
+    concepts: ['vacuum', 'mvcc'],
     type: 'sql-query',
     title: 'Check XID Age Across Databases',
     prompt:
@@ -34,6 +35,7 @@ export const exercises: Exercise[] = [
   {
     id: 'check-table-age',
     lessonId: '',
+    concepts: ['vacuum', 'mvcc'],
     type: 'sql-query',
     title: 'Find Tables with Oldest Unfrozen XIDs',
     prompt:
@@ -68,6 +70,7 @@ export const exercises: Exercise[] = [
   {
     id: 'vacuum-freeze',
     lessonId: '',
+    concepts: ['vacuum', 'mvcc'],
     type: 'sql-query',
     title: 'VACUUM FREEZE and Verify Age Reduction',
     prompt:
@@ -100,5 +103,6 @@ export const exercises: Exercise[] = [
     },
     order: 3,
     difficulty: 4,
+    execution: 'commit',
   },
 ];
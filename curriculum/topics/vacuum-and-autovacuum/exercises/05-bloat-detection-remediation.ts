@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'measure-bloat',
     lessonId: '',
+    concepts: ['vacuum', 'storage', 'monitoring'],
     type: 'sql-query',
     title: 'Measure Table Size After Mass Updates',
     prompt:
@@ -43,6 +44,7 @@ export const exercises: Exercise[] = [
   {
     id: 'pgstattuple-analysis',
     lessonId: '',
+    concepts: ['vacuum', 'storage', 'monitoring'],
     type: 'sql-query',
     title: 'Precise Bloat Measurement with pgstattuple',
     prompt:
@@ -84,6 +86,7 @@ export const exercises: Exercise[] = [
   {
     id: 'vacuum-vs-vacuum-full',
     lessonId: '',
+    concepts: ['vacuum', 'storage', 'monitoring'],
     type: 'sql-query',
     title: 'Compare VACUUM vs VACUUM FULL on Table Size',
     prompt:
@@ -119,5 +122,6 @@ export const exercises: Exercise[] = [
     },
     order: 3,
     difficulty: 3,
+    execution: 'commit',
   },
 ];
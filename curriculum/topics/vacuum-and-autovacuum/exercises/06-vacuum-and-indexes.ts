@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'index-dead-entries',
     lessonId: '',
+    concepts: ['vacuum', 'indexes'],
     type: 'sql-query',
     title: 'Observe Index Size Before and After VACUUM',
     prompt:
@@ -41,10 +42,12 @@ export const exercises: Exercise[] = [
     },
     order: 1,
     difficulty: 3,
+    execution: 'commit',
   },
   {
     id: 'reindex',
     lessonId: '',
+    concepts: ['vacuum', 'indexes'],
     type: 'sql-query',
     title: 'Compact an Index with REINDEX',
     prompt:
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'long-txn-blocks-vacuum',
     lessonId: '',
+    concepts: ['vacuum', 'transactions', 'mvcc'],
     type: 'sql-query',
     title: 'See How Dead Tuples Persist After VACUUM',
     prompt:
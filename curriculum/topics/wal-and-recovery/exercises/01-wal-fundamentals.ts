@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'current-wal-lsn',
     lessonId: '',
+    concepts: ['wal', 'recovery'],
     type: 'sql-query',
     title: 'Check Current WAL Position',
     prompt: 'Query the current WAL write position using pg_current_wal_lsn(). This returns the Log Sequence Number — a pointer to the current position in the WAL stream.',
@@ -32,6 +33,7 @@ export const exercises: Exercise[] = [
   {
     id: 'wal-level',
     lessonId: '',
+    concepts: ['wal', 'recovery'],
     type: 'sql-query',
     title: 'Check WAL Level',
     prompt: 'Check the current WAL level setting. This determines how much information PostgreSQL records in WAL: minimal (crash recovery only), replica (streaming replication), or logical (logical replication/CDC).',
@@ -57,6 +59,7 @@ export const exercises: Exercise[] = [
   {
     id: 'wal-stats',
     lessonId: '',
+    concepts: ['wal', 'recovery'],
     type: 'sql-query',
     title: 'View WAL Statistics',
     prompt: 'Query the pg_stat_wal view to see WAL generation statistics. Run: SELECT wal_records, wal_bytes, wal_write, wal_sync FROM pg_stat_wal.',
@@ -85,6 +88,7 @@ export const exercises: Exercise[] = [
   {
     id: 'wal-generation',
     lessonId: '',
+    concepts: ['wal', 'recovery'],
     type: 'sql-query',
     title: 'Observe WAL Generation from Inserts',
     prompt: 'Observe how much WAL is generated by inserting data. First get the current LSN, insert 10,000 rows, then get the LSN again and calculate the difference. Run: SELECT pg_current_wal_lsn() AS before_lsn; then insert rows into wal_test, then SELECT pg_current_wal_lsn() AS after_lsn.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'show-checkpoint-settings',
     lessonId: '',
+    concepts: ['wal', 'recovery', 'performance'],
     type: 'sql-query',
     title: 'View Checkpoint Configuration',
     prompt: 'Check the current checkpoint timeout setting. This controls how frequently PostgreSQL performs automatic checkpoints. Run: SHOW checkpoint_timeout.',
@@ -29,6 +30,7 @@ export const exercises: Exercise[] = [
   {
     id: 'bgwriter-stats',
     lessonId: '',
+    concepts: ['wal', 'recovery', 'performance'],
     type: 'sql-query',
     title: 'Monitor Checkpoint Activity',
     prompt: 'Query pg_stat_bgwriter to see checkpoint statistics. Select checkpoints_timed (triggered by timeout), checkpoints_req (triggered by WAL volume), buffers_checkpoint (pages written during checkpoints), and buffers_backend (pages written by backends — ideally low).',
@@ -57,6 +59,7 @@ export const exercises: Exercise[] = [
   {
     id: 'manual-checkpoint',
     lessonId: '',
+    concepts: ['wal', 'recovery', 'performance'],
     type: 'sql-query',
     requiresSuperuser: true,
     title: 'Trigger a Manual Checkpoint',
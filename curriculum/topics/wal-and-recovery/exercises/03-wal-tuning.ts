@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'sync-commit-off',
     lessonId: '',
+    concepts: ['wal', 'optimization'],
     type: 'sql-query',
     title: 'Asynchronous Commit',
     prompt: 'Try asynchronous commit mode for faster inserts. Run: SET synchronous_commit = off; INSERT INTO wal_test SELECT i, \'data_\' || i FROM generate_series(1, 10000) i; SELECT count(*) FROM wal_test. The inserts return faster because PostgreSQL doesn\'t wait for WAL fsync on each commit.',
@@ -38,6 +39,7 @@ export const exercises: Exercise[] = [
   {
     id: 'show-full-page-writes',
     lessonId: '',
+    concepts: ['wal', 'optimization'],
     type: 'sql-query',
     title: 'Check Full Page Writes Setting',
     prompt: 'Check whether full_page_writes is enabled. When on, PostgreSQL writes complete 8KB page images to WAL after each checkpoint to protect against torn pages. Run: SHOW full_page_writes.',
@@ -4,6 +4,7 @@ export const exercises: Exercise[] = [
   {
     id: 'pitr-lsn-tracking',
     lessonId: '',
+    concepts: ['wal', 'replication', 'recovery'],
     type: 'sql-query',
     title: 'Track LSN Changes for PITR',
     prompt: 'Demonstrate the concept behind Point-in-Time Recovery by tracking WAL LSN positions before and after data changes. Run: SELECT pg_current_wal_lsn() AS lsn_before; then INSERT INTO pitr_demo VALUES (1, \'important data\'); then SELECT pg_current_wal_lsn() AS lsn_after. The WAL between these two LSNs contains the INSERT — PITR could recover to any point between them.',
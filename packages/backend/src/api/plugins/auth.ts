@@ -0,0 +1,58 @@
+import fp from 'fastify-plugin';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { User } from '@learn-pg/shared';
+import { authService } from '../../services/auth-service.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    user: User | null;
+    authToken: string | null;
+  }
+}
+
+/**
+ * The bearer token, or for event streams a `?token=` query parameter,
+ * since EventSource cannot set headers.
+ */
+function requestToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  if (request.headers.accept?.includes('text/event-stream')) {
+    const { token } = request.query as { token?: string };
+    return token || null;
+  }
+  return null;
+}
+
+/**
+ * Resolves the bearer token on every request to `request.user`. Registered
+ * at the root so the decoration is visible to all route plugins.
+ */
+export const authPlugin = fp(async (fastify) => {
+  fastify.decorateRequest('user', null);
+  fastify.decorateRequest('authToken', null);
+
+  fastify.addHook('onRequest', async (request) => {
+    const token = requestToken(request);
+    request.authToken = token;
+    request.user = token ? authService.authenticate(token) : null;
+  });
+});
+
+/** onRequest hook for route scopes that need a signed-in user. */
+export async function requireUser(request: FastifyRequest, reply: FastifyReply) {
+  if (request.method === 'OPTIONS') return;
+  if (!request.user) {
+    return reply.code(401).send({ error: 'Authentication required' });
+  }
+}
+
+/** onRequest hook for route scopes only admins may use; runs after requireUser. */
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+  if (request.method === 'OPTIONS') return;
+  if (!request.user?.isAdmin) {
+    return reply.code(403).send({ error: 'Admin access required' });
+  }
+}
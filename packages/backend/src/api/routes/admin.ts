@@ -0,0 +1,42 @@
+import type { FastifyInstance } from 'fastify';
+import { irtCalibrator } from '../../evaluation/irt-calibrator.js';
+import { isCalibrated, itemParameters } from '../../evaluation/irt.js';
+import { evaluationService } from '../../services/evaluation-service.js';
+import { requireAdmin } from '../plugins/auth.js';
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  // Calibration changes the item parameters every user's adaptive tests use
+  fastify.addHook('onRequest', requireAdmin);
+
+  // Fit 2PL IRT parameters from recorded evaluation responses
+  fastify.post('/irt/calibrate', async (request, reply) => {
+    const body = (request.body || {}) as { minResponses?: unknown };
+    const minResponses = body.minResponses === undefined ? undefined : Number(body.minResponses);
+    if (minResponses !== undefined && (!Number.isInteger(minResponses) || minResponses < 1)) {
+      return reply.code(400).send({ error: 'minResponses must be a positive integer' });
+    }
+
+    try {
+      const result = irtCalibrator.calibrate(minResponses !== undefined ? { minResponses } : undefined);
+      evaluationService.applyCalibration();
+      return { result };
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+
+  // Current item parameters for the whole question bank
+  fastify.get('/irt/items', async () => {
+    const items = evaluationService.getQuestionBank().map(q => {
+      const params = itemParameters(q);
+      return {
+        questionId: q.id,
+        authoredDifficulty: q.difficulty,
+        calibrated: isCalibrated(q),
+        discrimination: params.discrimination,
+        difficulty: params.difficulty
+      };
+    });
+    return { items };
+  });
+}
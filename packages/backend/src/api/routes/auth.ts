@@ -0,0 +1,58 @@
+import type { FastifyInstance } from 'fastify';
+import { authService } from '../../services/auth-service.js';
+import { requireUser } from '../plugins/auth.js';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export async function authRoutes(fastify: FastifyInstance) {
+  // Create an account; the first account inherits any pre-account progress
+  fastify.post('/register', async (request, reply) => {
+    const { username, password } = (request.body || {}) as { username?: string; password?: string };
+
+    if (!username || !USERNAME_PATTERN.test(username)) {
+      return reply.code(400).send({ error: 'Username must be 3-32 letters, digits, or _ . -' });
+    }
+
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      return reply.code(400).send({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    if (authService.getUserByUsername(username)) {
+      return reply.code(409).send({ error: 'Username is already taken' });
+    }
+
+    try {
+      return authService.register(username, password);
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+
+  // Exchange credentials for a token
+  fastify.post('/login', async (request, reply) => {
+    const { username, password } = (request.body || {}) as { username?: string; password?: string };
+
+    if (!username || !password) {
+      return reply.code(400).send({ error: 'username and password are required' });
+    }
+
+    const result = authService.login(username, password);
+    if (!result) {
+      return reply.code(401).send({ error: 'Invalid username or password' });
+    }
+
+    return result;
+  });
+
+  // Revoke the current token
+  fastify.post('/logout', { onRequest: requireUser }, async (request) => {
+    authService.logout(request.authToken!);
+    return { success: true };
+  });
+
+  // Current user
+  fastify.get('/me', { onRequest: requireUser }, async (request) => {
+    return { user: request.user };
+  });
+}
@@ -1,5 +1,7 @@
 import type { FastifyInstance } from 'fastify';
+import type { OutgoingHttpHeaders } from 'http';
 import { curriculumService } from '../../services/curriculum-service.js';
+import { learningPathService } from '../../services/learning-path-service.js';
 
 export async function curriculumRoutes(fastify: FastifyInstance) {
   // Get all topics
@@ -78,4 +80,42 @@ export async function curriculumRoutes(fastify: FastifyInstance) {
     const chain = curriculumService.getPrerequisiteChain(topicId);
     return { prerequisites: chain };
   });
+
+  // Study plan towards a target topic (or the whole curriculum) for the current user
+  fastify.get('/plan', async (request, reply) => {
+    const { target } = request.query as { target?: string };
+
+    if (target && !curriculumService.getTopic(target)) {
+      return reply.code(404).send({ error: 'Topic not found' });
+    }
+
+    try {
+      const plan = learningPathService.getPlan(request.user!.id, target || undefined);
+      return { plan };
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+
+  // Server-sent events for topics reloaded from disk (backend started with --watch-curriculum)
+  fastify.get('/events', (request, reply) => {
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders), // CORS headers set by earlier hooks
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    reply.raw.write(': connected\n\n');
+
+    const unsubscribe = curriculumService.onChange(event => {
+      reply.raw.write(`event: curriculum-change\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), 30_000);
+
+    request.raw.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
 }
@@ -4,11 +4,8 @@ import { evaluationService } from '../../services/evaluation-service.js';
 export async function evaluationRoutes(fastify: FastifyInstance) {
   // Start a new evaluation session
   fastify.post('/evaluation/start', async (request, reply) => {
-    const body = (request.body || {}) as { userId?: string };
-    const userId = body.userId || 'default';
-
     try {
-      const session = evaluationService.startEvaluation(userId);
+      const session = evaluationService.startEvaluation(request.user!.id);
       return { session };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
@@ -20,20 +17,15 @@ export async function evaluationRoutes(fastify: FastifyInstance) {
     const { sessionId } = request.params as { sessionId: string };
 
     try {
-      const question = evaluationService.getNextQuestion(sessionId);
+      const question = evaluationService.getNextQuestion(request.user!.id, sessionId);
+      const estimate = evaluationService.getAbilityEstimate(request.user!.id, sessionId);
 
       if (!question) {
-        return { question: null, message: 'No more questions available' };
+        return { question: null, estimate, message: 'No more questions available' };
       }
 
       // Return question without the correct answer
-      const { ...questionWithoutAnswer } = question as any;
-      delete questionWithoutAnswer.correctOptionId;
-      delete questionWithoutAnswer.acceptableQueries;
-      delete questionWithoutAnswer.solution;
-      delete questionWithoutAnswer.explanation;
-
-      return { question: questionWithoutAnswer };
+      return { question: evaluationService.toPublicQuestion(question), estimate };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
     }
@@ -62,7 +54,7 @@ export async function evaluationRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'Question not found' });
       }
 
-      const result = evaluationService.submitAnswer(sessionId, {
+      const result = await evaluationService.submitAnswer(request.user!.id, sessionId, {
         questionId,
         questionDifficulty: question.difficulty,
         userAnswer: answer,
@@ -82,7 +74,7 @@ export async function evaluationRoutes(fastify: FastifyInstance) {
     const { sessionId } = request.params as { sessionId: string };
 
     try {
-      const session = evaluationService.completeEvaluation(sessionId);
+      const session = evaluationService.completeEvaluation(request.user!.id, sessionId);
       return { session };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
@@ -91,10 +83,10 @@ export async function evaluationRoutes(fastify: FastifyInstance) {
 
   // Get evaluation history
   fastify.get('/evaluation/history', async (request, reply) => {
-    const { userId = 'default', limit = 10 } = request.query as { userId?: string; limit?: number };
+    const { limit = 10 } = request.query as { limit?: number };
 
     try {
-      const history = evaluationService.getEvaluationHistory(userId, Number(limit));
+      const history = evaluationService.getEvaluationHistory(request.user!.id, Number(limit));
       return { history };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
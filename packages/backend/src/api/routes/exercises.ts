@@ -3,7 +3,9 @@ import type { MultiSessionExercise } from '@learn-pg/shared';
 import { exerciseService } from '../../services/exercise-service.js';
 import { progressService } from '../../services/progress-service.js';
 import { curriculumService } from '../../services/curriculum-service.js';
+import { masteryService } from '../../services/mastery-service.js';
 import { sessionManager } from '../../services/session-manager.js';
+import { checkSqlPolicy } from '../../sql/policy.js';
 
 export async function exercisesRoutes(fastify: FastifyInstance) {
   // Setup an exercise
@@ -11,7 +13,7 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
     const { exerciseId } = request.params as { exerciseId: string };
 
     try {
-      await exerciseService.setupExercise(exerciseId);
+      await exerciseService.setupExercise(request.user!.id, exerciseId);
       return { success: true };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
@@ -27,16 +29,18 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
       return reply.code(400).send({ error: 'Query is required' });
     }
 
+    const userId = request.user!.id;
+
     try {
       // Get previous attempts to determine attempt number
-      const attempts = progressService.getExerciseAttempts(exerciseId);
+      const attempts = progressService.getExerciseAttempts(userId, exerciseId);
       const attemptNumber = attempts.length + 1;
 
       // Validate the solution
-      const result = await exerciseService.validateExercise(exerciseId, query);
+      const result = await exerciseService.validateExercise(userId, exerciseId, query);
 
       // Record the attempt
-      progressService.recordExerciseAttempt({
+      progressService.recordExerciseAttempt(userId, {
         exerciseId,
         submittedQuery: query,
         isCorrect: result.isValid,
@@ -46,22 +50,25 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
         attemptNumber
       });
 
-      // If incorrect and multiple attempts, record as struggled
-      if (!result.isValid && attemptNumber >= 2) {
-        const exercise = curriculumService.getExercise(exerciseId);
-        if (exercise) {
-          const topicId = exercise.lessonId.split('-')[0];
-          progressService.recordStruggledConcept('general', topicId, exerciseId);
+      const exercise = curriculumService.getExercise(exerciseId);
+      if (exercise) {
+        masteryService.recordObservation(userId, exercise.concepts, result.isValid ? 1 : 0, 'exercise');
+
+        // If incorrect and multiple attempts, record as struggled
+        const lesson = curriculumService.getLesson(exercise.lessonId);
+        if (!result.isValid && attemptNumber >= 2 && lesson) {
+          for (const concept of exercise.concepts) {
+            progressService.recordStruggledConcept(userId, concept, lesson.topicId, exerciseId);
+          }
         }
       }
 
       // If correct, update topic progress
       if (result.isValid) {
-        const exercise = curriculumService.getExercise(exerciseId);
         if (exercise) {
           const lesson = curriculumService.getLesson(exercise.lessonId);
           if (lesson) {
-            const topicProgress = progressService.getTopicProgress(lesson.topicId);
+            const topicProgress = progressService.getTopicProgress(userId, lesson.topicId);
             const current = topicProgress[0] || {
               topicId: lesson.topicId,
               status: 'in-progress' as const,
@@ -85,7 +92,7 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
               current.completedLessons.push(exercise.lessonId);
             }
 
-            progressService.updateTopicProgress(lesson.topicId, current);
+            progressService.updateTopicProgress(userId, lesson.topicId, current);
           }
         }
       }
@@ -113,7 +120,7 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
   // Get exercise attempts history
   fastify.get('/exercises/:exerciseId/attempts', async (request, reply) => {
     const { exerciseId } = request.params as { exerciseId: string };
-    const attempts = progressService.getExerciseAttempts(exerciseId);
+    const attempts = progressService.getExerciseAttempts(request.user!.id, exerciseId);
     return { attempts };
   });
 
@@ -134,6 +141,7 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
   // Start a multi-session exercise — creates persistent connection pair
   fastify.post('/exercises/:exerciseId/start-session', async (request, reply) => {
     const { exerciseId } = request.params as { exerciseId: string };
+    const userId = request.user!.id;
 
     try {
       const exercise = curriculumService.getExercise(exerciseId);
@@ -142,11 +150,11 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
       }
 
       // Setup the exercise environment first
-      await exerciseService.setupExercise(exerciseId);
+      await exerciseService.setupExercise(userId, exerciseId);
 
-      const schema = exerciseService.getSchemaForExercise(exerciseId);
+      const schema = await exerciseService.getSchemaForExercise(userId, exerciseId);
       const sessionId = await sessionManager.createSessionPair(
-        exerciseId, schema, exercise.requiresSuperuser ?? false
+        userId, exerciseId, schema, exercise.requiresSuperuser ?? false
       );
 
       return { sessionId };
@@ -172,15 +180,26 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
       return reply.code(400).send({ error: 'Session must be A or B' });
     }
 
+    // The pair's own exercise decides the policy, whatever the URL names
+    const scope = sessionManager.getSessionScope(request.user!.id, sessionId);
+    if (!scope || scope.exerciseId !== exerciseId) {
+      return reply.code(404).send({ error: 'Session not found' });
+    }
+
+    const exercise = curriculumService.getExercise(scope.exerciseId) as MultiSessionExercise | undefined;
+    const policyViolation = await checkSqlPolicy(query, exercise?.policy);
+    if (policyViolation) {
+      return reply.code(400).send({ error: policyViolation.message, policyViolation });
+    }
+
     try {
-      const result = await sessionManager.executeOnSession(sessionId, session, query);
+      const result = await sessionManager.executeOnSession(request.user!.id, sessionId, session, query);
 
       // Optionally validate if the step has validation config
-      const exercise = curriculumService.getExercise(exerciseId) as MultiSessionExercise | undefined;
       let validationResult = null;
       if (exercise?.steps?.[stepIndex]?.validation) {
         const stepValidation = exercise.steps[stepIndex].validation!;
-        validationResult = await exerciseService.validateStepResult(stepValidation, result);
+        validationResult = await exerciseService.validateStepResult(stepValidation, query, result, scope);
       }
 
       return {
@@ -197,7 +216,7 @@ export async function exercisesRoutes(fastify: FastifyInstance) {
     const { sessionId } = request.params as { sessionId: string };
 
     try {
-      await sessionManager.closeSessionPair(sessionId);
+      await sessionManager.closeSessionPair(request.user!.id, sessionId);
       return { success: true };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
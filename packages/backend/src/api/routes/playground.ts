@@ -0,0 +1,83 @@
+import type { FastifyInstance } from 'fastify';
+import type { PlaygroundTarget } from '@learn-pg/shared';
+import { playgroundService } from '../../services/playground-service.js';
+
+// An exercise id wins over a topic id when both are given
+function parseTarget(input: { topicId?: unknown; exerciseId?: unknown } = {}): PlaygroundTarget | null {
+  if (typeof input.exerciseId === 'string' && input.exerciseId) return { type: 'exercise', id: input.exerciseId };
+  if (typeof input.topicId === 'string' && input.topicId) return { type: 'topic', id: input.topicId };
+  return null;
+}
+
+export async function playgroundRoutes(fastify: FastifyInstance) {
+  // Lease the user's sandbox for a topic or exercise, loading its dataset on first use
+  fastify.post('/playground/open', async (request, reply) => {
+    const target = parseTarget(request.body as any);
+    if (!target) {
+      return reply.code(400).send({ error: 'topicId or exerciseId is required' });
+    }
+    if (!playgroundService.getFixture(target)) {
+      return reply.code(404).send({ error: `${target.type === 'topic' ? 'Topic' : 'Exercise'} not found` });
+    }
+
+    try {
+      return { dataset: await playgroundService.open(request.user!.id, target) };
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+
+  // Reload the dataset, discarding the user's changes
+  fastify.post('/playground/reset', async (request, reply) => {
+    const target = parseTarget(request.body as any);
+    if (!target) {
+      return reply.code(400).send({ error: 'topicId or exerciseId is required' });
+    }
+    if (!playgroundService.getFixture(target)) {
+      return reply.code(404).send({ error: `${target.type === 'topic' ? 'Topic' : 'Exercise'} not found` });
+    }
+
+    try {
+      return { dataset: await playgroundService.reset(request.user!.id, target) };
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+
+  // Run a query; SQL errors come back in the result, not as an HTTP error
+  fastify.post('/playground/execute', async (request, reply) => {
+    const body = (request.body || {}) as { topicId?: string; exerciseId?: string; query?: string; explain?: boolean };
+    const target = parseTarget(body);
+    if (!target) {
+      return reply.code(400).send({ error: 'topicId or exerciseId is required' });
+    }
+    if (!body.query || typeof body.query !== 'string') {
+      return reply.code(400).send({ error: 'Query is required' });
+    }
+    if (!playgroundService.getFixture(target)) {
+      return reply.code(404).send({ error: `${target.type === 'topic' ? 'Topic' : 'Exercise'} not found` });
+    }
+
+    try {
+      const result = await playgroundService.execute(request.user!.id, target, body.query, { explain: body.explain === true });
+      return { result };
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+
+  // Most recent queries first
+  fastify.get('/playground/history', async (request, reply) => {
+    const { topic, exercise, limit = '50' } = request.query as { topic?: string; exercise?: string; limit?: string };
+    const target = parseTarget({ topicId: topic, exerciseId: exercise });
+    if (!target) {
+      return reply.code(400).send({ error: 'topic or exercise is required' });
+    }
+    const count = Number(limit);
+    if (!Number.isInteger(count) || count < 1) {
+      return reply.code(400).send({ error: 'limit must be a positive integer' });
+    }
+
+    return { history: playgroundService.getHistory(request.user!.id, target, count) };
+  });
+}
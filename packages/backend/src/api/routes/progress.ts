@@ -1,10 +1,15 @@
 import type { FastifyInstance } from 'fastify';
 import { progressService } from '../../services/progress-service.js';
+import { masteryService } from '../../services/mastery-service.js';
+import { archiveService } from '../../services/archive-service.js';
+import type { ImportMode, ProgressArchive } from '@learn-pg/shared';
+
+const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
 
 export async function progressRoutes(fastify: FastifyInstance) {
   // Get user progress
   fastify.get('/progress', async (request, reply) => {
-    const progress = progressService.getUserProgress();
+    const progress = progressService.getUserProgress(request.user!.id);
     return { progress };
   });
 
@@ -13,7 +18,7 @@ export async function progressRoutes(fastify: FastifyInstance) {
     const updates = request.body as any;
 
     try {
-      progressService.updateUserProgress(updates);
+      progressService.updateUserProgress(request.user!.id, updates);
       return { success: true };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
@@ -23,7 +28,7 @@ export async function progressRoutes(fastify: FastifyInstance) {
   // Get topic progress
   fastify.get('/progress/topics/:topicId?', async (request, reply) => {
     const { topicId } = request.params as { topicId?: string };
-    const topicProgress = progressService.getTopicProgress(topicId);
+    const topicProgress = progressService.getTopicProgress(request.user!.id, topicId);
     return { topicProgress };
   });
 
@@ -33,7 +38,7 @@ export async function progressRoutes(fastify: FastifyInstance) {
     const updates = request.body as any;
 
     try {
-      progressService.updateTopicProgress(topicId, updates);
+      progressService.updateTopicProgress(request.user!.id, topicId, updates);
       return { success: true };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
@@ -42,13 +47,19 @@ export async function progressRoutes(fastify: FastifyInstance) {
 
   // Get weak areas
   fastify.get('/progress/weak-areas', async (request, reply) => {
-    const weakAreas = progressService.getWeakAreas();
+    const weakAreas = progressService.getWeakAreas(request.user!.id);
     return { weakAreas };
   });
 
+  // Get per-concept mastery
+  fastify.get('/progress/concepts', async (request, reply) => {
+    const concepts = masteryService.getAllMastery(request.user!.id);
+    return { concepts };
+  });
+
   // Start a session
   fastify.post('/progress/session/start', async (request, reply) => {
-    const sessionId = progressService.startSession();
+    const sessionId = progressService.startSession(request.user!.id);
     return { sessionId };
   });
 
@@ -58,7 +69,7 @@ export async function progressRoutes(fastify: FastifyInstance) {
     const updates = request.body as any;
 
     try {
-      progressService.endSession(sessionId, updates);
+      progressService.endSession(request.user!.id, sessionId, updates);
       return { success: true };
     } catch (error: any) {
       return reply.code(500).send({ error: error.message });
@@ -67,14 +78,43 @@ export async function progressRoutes(fastify: FastifyInstance) {
 
   // Update streak
   fastify.post('/progress/streak', async (request, reply) => {
-    progressService.updateStreak();
+    progressService.updateStreak(request.user!.id);
     return { success: true };
   });
 
   // Get exercise attempts
   fastify.get('/progress/exercises/:exerciseId/attempts', async (request, reply) => {
     const { exerciseId } = request.params as { exerciseId: string };
-    const attempts = progressService.getExerciseAttempts(exerciseId);
+    const attempts = progressService.getExerciseAttempts(request.user!.id, exerciseId);
     return { attempts };
   });
+
+  // Download the user's full history as a versioned archive
+  fastify.get('/progress/export', async (request, reply) => {
+    const archive = archiveService.exportProgress(request.user!.id, request.user!.username);
+    const date = archive.exportedAt.slice(0, 10);
+    reply.header('Content-Disposition', `attachment; filename="learn-pg-progress-${date}.json"`);
+    return archive;
+  });
+
+  // Import an archive, merged into (default) or replacing the user's history
+  fastify.post('/progress/import', { bodyLimit: 50 * 1024 * 1024 }, async (request, reply) => {
+    const { mode = 'merge' } = request.query as { mode?: ImportMode };
+
+    if (!IMPORT_MODES.includes(mode)) {
+      return reply.code(400).send({ error: `mode must be one of: ${IMPORT_MODES.join(', ')}` });
+    }
+
+    const errors = archiveService.validateArchive(request.body);
+    if (errors.length > 0) {
+      return reply.code(400).send({ error: 'Invalid progress archive', details: errors });
+    }
+
+    try {
+      const result = archiveService.importProgress(request.user!.id, request.body as ProgressArchive, mode);
+      return { result };
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
 }
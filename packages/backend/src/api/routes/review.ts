@@ -0,0 +1,32 @@
+import type { FastifyInstance } from 'fastify';
+import { reviewService } from '../../services/review-service.js';
+
+export async function reviewRoutes(fastify: FastifyInstance) {
+  // Get due review items, interleaved across topics
+  fastify.get('/review/due', async (request, reply) => {
+    const { limit = 20 } = request.query as { limit?: number };
+
+    try {
+      return reviewService.getDueItems(request.user!.id, Number(limit));
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+
+  // Grade a review answer and reschedule the card
+  fastify.post('/review/:cardId/submit', async (request, reply) => {
+    const { cardId } = request.params as { cardId: string };
+    const { answer } = (request.body || {}) as { answer?: string };
+
+    if (!answer || typeof answer !== 'string') {
+      return reply.code(400).send({ error: 'answer is required' });
+    }
+
+    try {
+      const outcome = await reviewService.submitReview(request.user!.id, Number(cardId), answer);
+      return { outcome };
+    } catch (error: any) {
+      return reply.code(500).send({ error: error.message });
+    }
+  });
+}
@@ -0,0 +1,32 @@
+import type { FastifyInstance } from 'fastify';
+import type { SearchResultType } from '@learn-pg/shared';
+import { searchService } from '../../services/search-service.js';
+
+const RESULT_TYPES: SearchResultType[] = ['lesson', 'exercise', 'question'];
+
+export async function searchRoutes(fastify: FastifyInstance) {
+  // Search lessons, exercises and evaluation questions
+  fastify.get('/search', async (request, reply) => {
+    const { q = '', topic, level, type, limit = 20 } = request.query as {
+      q?: string;
+      topic?: string;
+      level?: string;
+      type?: string;
+      limit?: number;
+    };
+
+    if (type && !RESULT_TYPES.includes(type as SearchResultType)) {
+      return reply.code(400).send({ error: `type must be one of ${RESULT_TYPES.join(', ')}` });
+    }
+    if (level && !/^\d+$/.test(level)) {
+      return reply.code(400).send({ error: 'level must be a number' });
+    }
+
+    const results = searchService.search(q, {
+      topicId: topic || undefined,
+      level: level ? Number(level) : undefined,
+      type: (type || undefined) as SearchResultType | undefined
+    }, Number(limit) || 20);
+    return { query: q, results };
+  });
+}
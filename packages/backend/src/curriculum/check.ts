@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import type { CurriculumProblem, Exercise, MultiSessionExercise, SQLQueryExercise, SolutionMatchRules, ValidationConfig } from '@learn-pg/shared';
+import type { CurriculumService } from '../services/curriculum-service.js';
+import { dockerService } from '../services/docker-service.js';
+import { findRules } from '../validators/rules.js';
+import { checkSqlPolicy } from '../sql/policy.js';
+
+export interface CurriculumCheckOptions {
+  /** Also run each exercise's setupSql and reference solutions against PostgreSQL. */
+  execute?: boolean;
+}
+
+/**
+ * Loads the curriculum and returns everything wrong with it: schema errors,
+ * duplicate ids, file mismatches and prerequisite cycles from the loader,
+ * reference solutions their own exercise's policy would reject, plus SQL
+ * failures when `execute` is set.
+ */
+export async function checkCurriculum(
+  service: CurriculumService,
+  options: CurriculumCheckOptions = {}
+): Promise<CurriculumProblem[]> {
+  try {
+    await service.loadCurriculum();
+  } catch (error: any) {
+    // Problems recorded before the throw are still worth reporting
+    return [...service.getProblems(), { severity: 'error', file: 'topics', message: error.message }];
+  }
+
+  const problems = service.getProblems();
+  problems.push(...await checkPolicies(service));
+  if (options.execute) {
+    problems.push(...await executeExercises(service));
+  }
+  return problems;
+}
+
+async function checkPolicies(service: CurriculumService): Promise<CurriculumProblem[]> {
+  const problems: CurriculumProblem[] = [];
+
+  for (const topic of service.getAllTopics()) {
+    for (const lesson of service.getLessonsForTopic(topic.id)) {
+      const file = `topics/${topic.id}/exercises/${lesson.id.slice(topic.id.length + 1)}.ts`;
+
+      for (const exercise of service.getExercisesForLesson(lesson.id)) {
+        for (const solutionQuery of solutionQueries(exercise)) {
+          const violation = await checkSqlPolicy(solutionQuery, exercise.policy);
+          if (violation) {
+            problems.push({ severity: 'error', file, message: `${exercise.id}: reference solution breaks the exercise policy: ${violation.message}` });
+          }
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Every transaction creates the scratch schema, runs setupSql and the
+ * solution, then rolls back, so nothing is left behind in the database.
+ */
+async function executeExercises(service: CurriculumService): Promise<CurriculumProblem[]> {
+  const problems: CurriculumProblem[] = [];
+
+  try {
+    await dockerService.executeQuery('SELECT 1');
+  } catch (error: any) {
+    return [{ severity: 'error', file: 'topics', message: `cannot execute SQL, PostgreSQL is not reachable: ${error.message}` }];
+  }
+
+  const schema = `check_${crypto.randomBytes(6).toString('hex')}`;
+
+  for (const topic of service.getAllTopics()) {
+    for (const lesson of service.getLessonsForTopic(topic.id)) {
+      const file = `topics/${topic.id}/exercises/${lesson.id.slice(topic.id.length + 1)}.ts`;
+
+      for (const exercise of service.getExercisesForLesson(lesson.id)) {
+        const options = { useSuperuser: exercise.requiresSuperuser, setupSql: exercise.setupSql ?? '' };
+
+        try {
+          await dockerService.executeAllAndRollback([], schema, options);
+        } catch (error: any) {
+          problems.push({ severity: 'error', file, message: `${exercise.id}: setupSql failed: ${error.message}` });
+          continue;
+        }
+
+        for (const solutionQuery of solutionQueries(exercise)) {
+          try {
+            await dockerService.executeAndRollback(solutionQuery, schema, options);
+          } catch (error: any) {
+            problems.push({ severity: 'error', file, message: `${exercise.id}: reference solution failed: ${error.message}` });
+          }
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+function solutionQueries(exercise: Exercise): string[] {
+  const queries = new Set<string>();
+  const solutionQuery = (exercise as SQLQueryExercise).solutionQuery;
+  if (solutionQuery) queries.add(solutionQuery);
+
+  const configs: Array<ValidationConfig | undefined> = [exercise.validation];
+  if (exercise.type === 'multi-session') {
+    (exercise as MultiSessionExercise).steps?.forEach(step => configs.push(step.validation));
+  }
+  for (const config of configs) {
+    for (const rules of findRules<SolutionMatchRules>(config, 'solution-match')) {
+      if (rules?.solutionQuery) queries.add(rules.solutionQuery);
+    }
+  }
+
+  return Array.from(queries);
+}
@@ -0,0 +1,279 @@
+import type {
+  Topic,
+  Lesson,
+  Exercise,
+  ExerciseType,
+  SQLQueryExercise,
+  ExplainAnalysisExercise,
+  OptimizationExercise,
+  DebuggingExercise,
+  SchemaDesignExercise,
+  PerformanceExercise,
+  MultiSessionExercise,
+  ValidationConfig,
+  ValidationStrategy,
+  ResultMatchRules,
+  QueryPlanRules,
+  PerformanceRules,
+  SchemaRules,
+  CustomValidationRules,
+  CompositeValidationRules,
+  SolutionMatchRules,
+  SqlPolicy,
+  PlanNodeMatcher
+} from '@learn-pg/shared';
+import {
+  anyOf,
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  unknown,
+  type Schema,
+  type Shape
+} from './schema.js';
+import { DANGEROUS_NAMES } from '../sql/policy.js';
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const nonEmptyString = string({ nonEmpty: true });
+const stringList = array(string());
+const planNodeMatcher = anyOf(
+  'a node name or { nodeType, relation, index }',
+  string(),
+  object<Exclude<PlanNodeMatcher, string>>({
+    nodeType: optional(string()),
+    relation: optional(string()),
+    index: optional(string())
+  })
+);
+
+/** meta.json: a Topic without the fields the loader fills in. */
+export const topicMetaSchema = object<Omit<Topic, 'id' | 'lessons'>>({
+  title: nonEmptyString,
+  description: string(),
+  level: number({ integer: true, min: 1 }),
+  estimatedWeeks: number({ min: 0 }),
+  prerequisites: array(string({ pattern: ID_PATTERN })),
+  order: optional(number())
+});
+
+/** Lesson markdown frontmatter; other keys are allowed and ignored. */
+export const lessonFrontmatterSchema = object<Pick<Lesson, 'title' | 'description' | 'estimatedMinutes'>>({
+  title: nonEmptyString,
+  description: optional(string()),
+  estimatedMinutes: optional(number({ min: 1 }))
+}, { allowUnknownKeys: true });
+
+const strategyRules: { [S in ValidationStrategy]: Schema } = {
+  'result-match': object<ResultMatchRules>({
+    rowCount: optional(object<NonNullable<ResultMatchRules['rowCount']>>({
+      exact: optional(number({ integer: true, min: 0 })),
+      min: optional(number({ integer: true, min: 0 })),
+      max: optional(number({ integer: true, min: 0 }))
+    })),
+    columns: optional(object<NonNullable<ResultMatchRules['columns']>>({
+      required: stringList,
+      forbidden: optional(stringList),
+      exactMatch: optional(boolean)
+    })),
+    values: optional(object<NonNullable<ResultMatchRules['values']>>({
+      exactMatch: optional(array(record(unknown))),
+      subset: optional(array(record(unknown))),
+      allowExtraRows: optional(boolean),
+      allowExtraColumns: optional(boolean),
+      floatTolerance: optional(number({ min: 0 })),
+      caseInsensitive: optional(boolean)
+    })),
+    ordering: optional(object<NonNullable<ResultMatchRules['ordering']>>({
+      mustMatch: optional(boolean),
+      columnName: optional(string()),
+      direction: optional(literal('asc', 'desc'))
+    }))
+  }),
+  'query-plan': object<QueryPlanRules>({
+    mustUseIndex: optional(boolean),
+    specificIndex: optional(string()),
+    forbiddenNodes: optional(array(planNodeMatcher)),
+    requiredNodes: optional(array(planNodeMatcher)),
+    maxCost: optional(number({ min: 0 })),
+    maxRows: optional(number({ min: 0 })),
+    maxRowMisestimation: optional(number({ min: 1 }))
+  }),
+  performance: object<PerformanceRules>({
+    maxExecutionTimeMs: number({ min: 0 }),
+    maxPlanningTimeMs: optional(number({ min: 0 })),
+    maxSharedBuffers: optional(number({ min: 0 })),
+    requireParallelWorkers: optional(boolean)
+  }),
+  schema: object<SchemaRules>({
+    tables: optional(object<NonNullable<SchemaRules['tables']>>({
+      required: stringList,
+      forbidden: optional(stringList)
+    })),
+    indexes: optional(object<NonNullable<SchemaRules['indexes']>>({
+      required: array(object<NonNullable<SchemaRules['indexes']>['required'][number]>({
+        table: nonEmptyString,
+        columns: array(nonEmptyString),
+        type: optional(literal('btree', 'hash', 'gin', 'gist', 'brin'))
+      })),
+      forbidden: optional(stringList)
+    })),
+    constraints: optional(object<NonNullable<SchemaRules['constraints']>>({
+      required: array(object<NonNullable<SchemaRules['constraints']>['required'][number]>({
+        table: nonEmptyString,
+        type: literal('primary-key', 'foreign-key', 'unique', 'check', 'not-null'),
+        columns: array(nonEmptyString)
+      }))
+    }))
+  }),
+  custom: object<CustomValidationRules>({
+    validatorFunction: nonEmptyString,
+    parameters: optional(record(unknown))
+  }),
+  composite: object<CompositeValidationRules>({
+    mode: literal('all-of', 'any-of'),
+    checks: array(object<CompositeValidationRules['checks'][number]>({
+      validation: (value, path, problems) => validationConfigSchema(value, path, problems),
+      weight: optional(number({ min: 0 }))
+    }))
+  }),
+  'solution-match': object<SolutionMatchRules>({
+    solutionQuery: optional(nonEmptyString),
+    ordered: optional(boolean),
+    checkColumnNames: optional(boolean),
+    floatTolerance: optional(number({ min: 0 })),
+    caseInsensitive: optional(boolean)
+  })
+};
+
+const STRATEGIES = Object.keys(strategyRules) as ValidationStrategy[];
+
+/**
+ * `rules` may be flat or wrapped as `{ strategy, rules }` (see resolveRules);
+ * a wrapper must name the same strategy as the config it sits in.
+ */
+export const validationConfigSchema: Schema = (value, path, problems) => {
+  const before = problems.length;
+  object<ValidationConfig>({
+    strategy: literal(...STRATEGIES),
+    rules: unknown,
+    statementIndex: optional(number({ integer: true }))
+  })(value, path, problems);
+  if (problems.length > before) return;
+
+  const { strategy, rules } = value as { strategy: ValidationStrategy; rules: any };
+  if (rules && typeof rules === 'object' && 'strategy' in rules) {
+    if (rules.strategy !== strategy) {
+      problems.push(`${path}.rules.strategy: ${JSON.stringify(rules.strategy)} does not match ${JSON.stringify(strategy)}`);
+      return;
+    }
+    if (!('rules' in rules)) {
+      problems.push(`${path}.rules: wraps a strategy but has no rules`);
+      return;
+    }
+    object<{ strategy: unknown; rules: unknown }>({ strategy: unknown, rules: unknown })(rules, `${path}.rules`, problems);
+    strategyRules[strategy](rules.rules, `${path}.rules.rules`, problems);
+    return;
+  }
+
+  strategyRules[strategy](rules, `${path}.rules`, problems);
+};
+
+const exerciseShape: Shape<Exercise> = {
+  id: string({ pattern: ID_PATTERN }),
+  lessonId: optional(string()), // assigned by the loader
+  concepts: array(string({ pattern: ID_PATTERN })),
+  type: unknown, // checked against exerciseTypeShapes below
+  title: nonEmptyString,
+  prompt: nonEmptyString,
+  setupSql: optional(string()),
+  hints: stringList,
+  explanation: string(),
+  validation: validationConfigSchema,
+  order: number(),
+  difficulty: number({ integer: true, min: 1, max: 10 }),
+  requiresSuperuser: optional(boolean),
+  execution: optional(literal('rollback', 'commit')),
+  policy: optional(object<SqlPolicy>({
+    allowStatements: optional(array(string({ pattern: ID_PATTERN }))),
+    denyStatements: optional(array(string({ pattern: ID_PATTERN }))),
+    allowDangerous: optional(array(literal(...DANGEROUS_NAMES)))
+  }))
+};
+
+type ExtraFields<T extends Exercise> = Shape<Omit<T, keyof Exercise>>;
+
+const exerciseTypeShapes: { [K in ExerciseType]: Shape<any> } = {
+  'sql-query': {
+    expectedResult: optional(object<NonNullable<SQLQueryExercise['expectedResult']>>({
+      rowCount: optional(number({ integer: true, min: 0 })),
+      columns: optional(stringList),
+      exactMatch: optional(array(record(unknown)))
+    })),
+    solutionQuery: optional(nonEmptyString)
+  } satisfies ExtraFields<SQLQueryExercise>,
+  'explain-analysis': {
+    query: nonEmptyString,
+    questions: array(object<ExplainAnalysisExercise['questions'][number]>({
+      question: nonEmptyString,
+      answer: nonEmptyString,
+      hints: optional(stringList)
+    }))
+  } satisfies ExtraFields<ExplainAnalysisExercise>,
+  optimization: {
+    slowQuery: nonEmptyString,
+    performanceTarget: object<OptimizationExercise['performanceTarget']>({
+      maxExecutionTimeMs: optional(number({ min: 0 })),
+      mustUseIndex: optional(boolean),
+      forbiddenNodes: optional(stringList)
+    })
+  } satisfies ExtraFields<OptimizationExercise>,
+  debugging: {
+    brokenQuery: nonEmptyString,
+    expectedBehavior: nonEmptyString,
+    errorType: literal('syntax', 'logic', 'performance', 'correctness')
+  } satisfies ExtraFields<DebuggingExercise>,
+  'schema-design': {
+    requirements: stringList,
+    constraints: stringList,
+    expectedTables: optional(stringList),
+    expectedIndexes: optional(stringList)
+  } satisfies ExtraFields<SchemaDesignExercise>,
+  performance: {
+    scenario: nonEmptyString,
+    metrics: object<PerformanceExercise['metrics']>({
+      baseline: record(number()),
+      target: record(number())
+    })
+  } satisfies ExtraFields<PerformanceExercise>,
+  'multi-session': {
+    sessions: object<MultiSessionExercise['sessions']>({
+      sessionAPrompt: nonEmptyString,
+      sessionBPrompt: nonEmptyString,
+      sessionAInitialQuery: optional(string()),
+      sessionBInitialQuery: optional(string())
+    }),
+    steps: array(object<MultiSessionExercise['steps'][number]>({
+      session: literal('A', 'B'),
+      instruction: nonEmptyString,
+      validation: optional(validationConfigSchema)
+    }))
+  } satisfies ExtraFields<MultiSessionExercise>
+};
+
+export const EXERCISE_TYPES = Object.keys(exerciseTypeShapes) as ExerciseType[];
+
+/** An exported exercise, checked with the fields of its `type`. */
+export const exerciseSchema: Schema = (value, path, problems) => {
+  const type = (value as any)?.type;
+  if (!EXERCISE_TYPES.includes(type)) {
+    literal(...EXERCISE_TYPES)(type, `${path}.type`, problems);
+    return;
+  }
+  object<any>({ ...exerciseShape, ...exerciseTypeShapes[type as ExerciseType] })(value, path, problems);
+};
@@ -0,0 +1,217 @@
+import matter from 'gray-matter';
+import type {
+  Exercise,
+  ExerciseType,
+  Lesson,
+  Topic,
+  ValidationConfig,
+  ValidationStrategy,
+  ResultMatchRules,
+  SolutionMatchRules,
+  PerformanceRules,
+  SchemaRules
+} from '@learn-pg/shared';
+
+/** Captured output of a solution query, turned into result-match rules. */
+export interface CapturedResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ExerciseScaffold {
+  id: string;
+  type: ExerciseType;
+  title: string;
+  concepts: string[];
+  difficulty: number;
+  order: number;
+  setupSql?: string;
+  solutionQuery?: string;
+  captured?: CapturedResult;
+}
+
+// Larger results only pin the row count and columns
+const MAX_CAPTURED_ROWS = 20;
+const TODO = 'TODO';
+
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/** `NN-slug`, numbered after the highest `NN-` prefix in `existing`. */
+export function nextNumberedName(existing: string[], slug: string): string {
+  const numbers = existing.map(name => parseInt(/^(\d+)-/.exec(name)?.[1] ?? '0', 10));
+  const next = Math.max(0, ...numbers) + 1;
+  return `${String(next).padStart(2, '0')}-${slug}`;
+}
+
+export function renderTopicMeta(meta: Omit<Topic, 'id' | 'lessons'>): string {
+  return JSON.stringify(meta, null, 2) + '\n';
+}
+
+export function renderLesson(lesson: Pick<Lesson, 'title' | 'description' | 'estimatedMinutes'>): string {
+  const body = [
+    '',
+    `# ${lesson.title}`,
+    '',
+    `${TODO}: introduce the concept and why it matters.`,
+    '',
+    '## Example',
+    '',
+    '```sql',
+    'SELECT 1;',
+    '```',
+    ''
+  ].join('\n');
+  return matter.stringify(body, lesson);
+}
+
+export function renderExercisesFile(): string {
+  return [
+    `import type { Exercise } from '@learn-pg/shared';`,
+    '',
+    'export const exercises: Exercise[] = [',
+    '];',
+    ''
+  ].join('\n');
+}
+
+/** Adds an exercise literal at the end of the module's `exercises` array. */
+export function appendExercise(source: string, exercise: string): string {
+  const start = source.indexOf('export const exercises');
+  const end = start === -1 ? -1 : source.indexOf('\n];', start);
+  if (end === -1) {
+    throw new Error('Could not find the end of the exercises array');
+  }
+
+  const before = source.slice(0, end).trimEnd();
+  const separator = before.endsWith('[') ? '' : ',';
+  return `${before}${separator}\n  ${exercise}${source.slice(end)}`;
+}
+
+/**
+ * A typed exercise skeleton as TypeScript source. Fields the author must
+ * write are filled with TODO; with a captured result the validation pins
+ * its row count, columns and (for small results) values.
+ */
+export function renderExercise(scaffold: ExerciseScaffold): string {
+  const exercise: Exercise & Record<string, unknown> = {
+    id: scaffold.id,
+    lessonId: '',
+    concepts: scaffold.concepts,
+    type: scaffold.type,
+    title: scaffold.title,
+    prompt: `${TODO}: describe what the learner should do.`,
+    setupSql: scaffold.setupSql ?? '',
+    hints: [`${TODO}: a nudge in the right direction`],
+    explanation: `${TODO}: explain the solution.`,
+    validation: validationFor(scaffold),
+    ...typeFields(scaffold),
+    order: scaffold.order,
+    difficulty: scaffold.difficulty
+  };
+  return toTsLiteral(exercise, '  ').replace("lessonId: '',", "lessonId: '', // Will be set by curriculum service");
+}
+
+function validationFor(scaffold: ExerciseScaffold): ValidationConfig {
+  // The `{ strategy, rules }` form the curriculum files use
+  const wrap = (strategy: ValidationStrategy, rules: object): ValidationConfig => ({
+    strategy,
+    rules: { strategy, rules } as ValidationConfig['rules']
+  });
+
+  if (scaffold.captured) {
+    const { columns, rows } = scaffold.captured;
+    return wrap('result-match', {
+      rowCount: { exact: rows.length },
+      columns: { required: columns, exactMatch: true },
+      values: rows.length <= MAX_CAPTURED_ROWS ? { exactMatch: rows } : undefined
+    } satisfies ResultMatchRules);
+  }
+
+  if (scaffold.solutionQuery) {
+    // sql-query exercises keep the solution on the exercise itself
+    const rules: SolutionMatchRules = scaffold.type === 'sql-query' ? {} : { solutionQuery: scaffold.solutionQuery };
+    return wrap('solution-match', rules);
+  }
+
+  switch (scaffold.type) {
+    case 'optimization':
+    case 'performance':
+      return wrap('performance', { maxExecutionTimeMs: 100 } satisfies PerformanceRules);
+    case 'schema-design':
+      return wrap('schema', { tables: { required: [] } } satisfies SchemaRules);
+    default:
+      return wrap('result-match', { rowCount: { min: 1 } } satisfies ResultMatchRules);
+  }
+}
+
+function typeFields(scaffold: ExerciseScaffold): Record<string, unknown> {
+  const query = scaffold.solutionQuery ?? TODO;
+
+  switch (scaffold.type) {
+    case 'sql-query':
+      return {
+        solutionQuery: scaffold.solutionQuery,
+        expectedResult: scaffold.captured && {
+          rowCount: scaffold.captured.rows.length,
+          columns: scaffold.captured.columns
+        }
+      };
+    case 'explain-analysis':
+      return { query, questions: [{ question: TODO, answer: TODO }] };
+    case 'optimization':
+      return { slowQuery: query, performanceTarget: { maxExecutionTimeMs: 100, mustUseIndex: true } };
+    case 'debugging':
+      return { brokenQuery: query, expectedBehavior: TODO, errorType: 'logic' };
+    case 'schema-design':
+      return { requirements: [TODO], constraints: [] };
+    case 'performance':
+      return { scenario: TODO, metrics: { baseline: {}, target: {} } };
+    case 'multi-session':
+      return {
+        sessions: { sessionAPrompt: TODO, sessionBPrompt: TODO },
+        steps: [
+          { session: 'A', instruction: TODO },
+          { session: 'B', instruction: TODO }
+        ]
+      };
+  }
+}
+
+/** Serializes plain data as a TypeScript literal in the curriculum files' style. */
+export function toTsLiteral(value: unknown, indent: string = ''): string {
+  const inner = indent + '  ';
+
+  if (value === null || value === undefined) return String(value);
+  if (typeof value === 'string') return quote(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value instanceof Date) return quote(value.toISOString());
+
+  if (Array.isArray(value)) {
+    const items = value.map(item => toTsLiteral(item, inner));
+    const inline = `[${items.join(', ')}]`;
+    if (value.length === 0 || (inline.length <= 60 && !inline.includes('\n'))) return inline;
+    return `[\n${items.map(item => inner + item).join(',\n')}\n${indent}]`;
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : quote(k)}: ${toTsLiteral(v, inner)}`);
+    if (entries.length === 0) return '{}';
+    const inline = `{ ${entries.join(', ')} }`;
+    const nested = Object.values(value as object).some(v => v !== null && typeof v === 'object');
+    if (!nested && inline.length <= 60 && !inline.includes('\n')) return inline;
+    return `{\n${entries.map(entry => inner + entry).join(',\n')}\n${indent}}`;
+  }
+
+  throw new Error(`Cannot serialize ${typeof value}`);
+}
+
+function quote(text: string): string {
+  if (text.includes('\n')) {
+    return '`' + text.replace(/[\\`]/g, '\\$&').replace(/\$\{/g, '\\${') + '`';
+  }
+  return `'${text.replace(/[\\']/g, '\\$&')}'`;
+}
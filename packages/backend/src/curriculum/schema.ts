@@ -0,0 +1,133 @@
+/**
+ * Minimal runtime schemas for checking curriculum content. A schema reports
+ * problems as "path: message" strings instead of throwing, so one pass can
+ * list everything wrong with a file.
+ */
+export type Schema = ((value: unknown, path: string, problems: string[]) => void) & { optional?: boolean };
+
+/** One schema per property of T, so the shape can't drift from the type. */
+export type Shape<T> = { [K in keyof T]-?: Schema };
+
+function at(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : JSON.stringify(value);
+}
+
+export function validate(schema: Schema, value: unknown, path: string = ''): string[] {
+  const problems: string[] = [];
+  schema(value, path, problems);
+  return problems;
+}
+
+export function optional(schema: Schema): Schema {
+  const check: Schema = (value, path, problems) => {
+    if (value !== undefined) schema(value, path, problems);
+  };
+  check.optional = true;
+  return check;
+}
+
+export const unknown: Schema = () => {};
+
+export function string(options: { nonEmpty?: boolean; pattern?: RegExp } = {}): Schema {
+  return (value, path, problems) => {
+    if (typeof value !== 'string') {
+      problems.push(`${path}: expected a string, got ${describe(value)}`);
+    } else if (options.nonEmpty && value.trim() === '') {
+      problems.push(`${path}: must not be empty`);
+    } else if (options.pattern && !options.pattern.test(value)) {
+      problems.push(`${path}: ${JSON.stringify(value)} does not match ${options.pattern}`);
+    }
+  };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema {
+  return (value, path, problems) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      problems.push(`${path}: expected a number, got ${describe(value)}`);
+    } else if (options.integer && !Number.isInteger(value)) {
+      problems.push(`${path}: expected an integer, got ${value}`);
+    } else if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+      problems.push(`${path}: ${value} is outside ${options.min ?? '-∞'}..${options.max ?? '∞'}`);
+    }
+  };
+}
+
+export const boolean: Schema = (value, path, problems) => {
+  if (typeof value !== 'boolean') {
+    problems.push(`${path}: expected true or false, got ${describe(value)}`);
+  }
+};
+
+export function literal<T extends string | number>(...values: readonly T[]): Schema {
+  return (value, path, problems) => {
+    if (!values.includes(value as T)) {
+      problems.push(`${path}: expected one of ${values.map(v => JSON.stringify(v)).join(', ')}, got ${describe(value)}`);
+    }
+  };
+}
+
+export function array(item: Schema): Schema {
+  return (value, path, problems) => {
+    if (!Array.isArray(value)) {
+      problems.push(`${path}: expected an array, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((element, i) => item(element, at(path, i), problems));
+  };
+}
+
+export function record(item: Schema): Schema {
+  return (value, path, problems) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      problems.push(`${path}: expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, element] of Object.entries(value)) {
+      item(element, at(path, key), problems);
+    }
+  };
+}
+
+/** Passes if any schema passes; otherwise reports the `expected` description. */
+export function anyOf(expected: string, ...schemas: Schema[]): Schema {
+  return (value, path, problems) => {
+    if (!schemas.some(schema => validate(schema, value, path).length === 0)) {
+      problems.push(`${path}: expected ${expected}, got ${describe(value)}`);
+    }
+  };
+}
+
+/** Checks required and unknown keys; unknown keys are usually typos. */
+export function object<T>(shape: Shape<T>, options: { allowUnknownKeys?: boolean } = {}): Schema {
+  const entries = Object.entries(shape) as Array<[string, Schema]>;
+  return (value, path, problems) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      problems.push(`${path || 'value'}: expected an object, got ${describe(value)}`);
+      return;
+    }
+
+    const obj = value as Record<string, unknown>;
+    for (const [key, schema] of entries) {
+      if (obj[key] === undefined && !schema.optional) {
+        problems.push(`${at(path, key)}: required`);
+      } else {
+        schema(obj[key], at(path, key), problems);
+      }
+    }
+
+    if (!options.allowUnknownKeys) {
+      for (const key of Object.keys(obj)) {
+        if (!(key in shape)) {
+          problems.push(`${at(path, key)}: unknown field`);
+        }
+      }
+    }
+  };
+}
@@ -1,17 +1,35 @@
 import Database from 'better-sqlite3';
-import { readFileSync, existsSync, mkdirSync } from 'fs';
-import { join, dirname, resolve } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
+import { runPendingMigrations } from './migrator.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DB_PATH = '../../data/progress.db';
 
 let db: Database.Database | null = null;
 
-export function initDatabase(dbPath: string = '../../data/progress.db'): Database.Database {
+export async function initDatabase(dbPath: string = DEFAULT_DB_PATH): Promise<Database.Database> {
   if (db) {
     return db;
   }
 
+  const database = openDatabase(dbPath);
+
+  // Apply pending migrations; throws if an applied one was edited
+  try {
+    await runPendingMigrations(database);
+  } catch (error) {
+    database.close();
+    throw error;
+  }
+
+  db = database;
+  return db;
+}
+
+/** Opens the database without applying migrations, e.g. to report their status. */
+export function openDatabase(dbPath: string = DEFAULT_DB_PATH): Database.Database {
   // Ensure directory exists
   const fullPath = resolve(__dirname, dbPath);
   const dir = dirname(fullPath);
@@ -19,23 +37,10 @@ export function initDatabase(dbPath: string = '../../data/progress.db'): Databas
     mkdirSync(dir, { recursive: true });
   }
 
-  db = new Database(fullPath);
-  db.pragma('journal_mode = WAL');
-  db.pragma('foreign_keys = ON');
-
-  // Run migrations
-  const migrations = [
-    '001_initial.sql',
-    '002_evaluation.sql',
-    '003_struggled_concepts.sql'
-  ];
-
-  for (const migration of migrations) {
-    const sql = readFileSync(join(__dirname, 'migrations', migration), 'utf-8');
-    db.exec(sql);
-  }
-
-  return db;
+  const database = new Database(fullPath);
+  database.pragma('journal_mode = WAL');
+  database.pragma('foreign_keys = ON');
+  return database;
 }
 
 export function getDatabase(): Database.Database {
@@ -0,0 +1,13 @@
+-- Per-concept mastery (Bayesian knowledge tracing)
+CREATE TABLE IF NOT EXISTS concept_mastery (
+  user_id TEXT DEFAULT 'default',
+  concept TEXT NOT NULL,
+  p_known REAL NOT NULL CHECK (p_known BETWEEN 0 AND 1),
+  attempts INTEGER DEFAULT 0,
+  correct REAL DEFAULT 0, -- sum of scores, partial credit counts fractionally
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, concept),
+  FOREIGN KEY (user_id) REFERENCES user_progress(user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_concept_mastery_user ON concept_mastery(user_id);
@@ -0,0 +1,30 @@
+-- Spaced-repetition review cards (SM-2)
+CREATE TABLE IF NOT EXISTS review_cards (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT DEFAULT 'default',
+  item_type TEXT NOT NULL CHECK (item_type IN ('exercise', 'evaluation')),
+  item_id TEXT NOT NULL,
+  ease_factor REAL NOT NULL DEFAULT 2.5,
+  interval_days REAL NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TEXT NOT NULL,
+  last_reviewed_at TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES user_progress(user_id),
+  UNIQUE (user_id, item_type, item_id)
+);
+
+-- One row per review, for history and tuning
+CREATE TABLE IF NOT EXISTS review_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  card_id INTEGER NOT NULL,
+  quality INTEGER NOT NULL CHECK (quality BETWEEN 0 AND 5),
+  is_correct INTEGER NOT NULL, -- SQLite boolean
+  interval_days REAL NOT NULL, -- interval scheduled by this review
+  reviewed_at TEXT NOT NULL,
+  FOREIGN KEY (card_id) REFERENCES review_cards(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_cards_due ON review_cards(user_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_review_log_card ON review_log(card_id);
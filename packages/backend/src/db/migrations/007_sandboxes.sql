@@ -0,0 +1,13 @@
+-- Exercise sandboxes: one PostgreSQL schema per user and exercise
+CREATE TABLE IF NOT EXISTS sandboxes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  exercise_id TEXT NOT NULL,
+  schema_name TEXT NOT NULL UNIQUE,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TEXT NOT NULL, -- lease renewed on every use
+  UNIQUE(user_id, exercise_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sandboxes_last_used ON sandboxes(last_used_at);
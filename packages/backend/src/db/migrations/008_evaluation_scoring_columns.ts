@@ -0,0 +1,17 @@
+import type Database from 'better-sqlite3';
+
+// Columns added to the evaluation tables after they shipped. Databases from
+// before the migration runner already have them, and SQLite has no
+// ADD COLUMN IF NOT EXISTS, so each is checked first.
+export function up(db: Database.Database): void {
+  addColumnIfMissing(db, 'evaluation_responses', 'score', 'REAL'); // 0-1 partial credit
+  addColumnIfMissing(db, 'evaluation_sessions', 'ability_estimate', 'REAL'); // continuous 1-10 level
+  addColumnIfMissing(db, 'evaluation_sessions', 'ability_standard_error', 'REAL');
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,15 @@
+-- Playground query history, kept apart from exercise_attempts so free-form
+-- queries never count as attempts
+CREATE TABLE IF NOT EXISTS playground_queries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  target TEXT NOT NULL, -- 'topic:<id>' or 'exercise:<id>'
+  query TEXT NOT NULL,
+  is_error INTEGER NOT NULL DEFAULT 0, -- SQLite boolean
+  row_count INTEGER,
+  execution_time_ms INTEGER,
+  executed_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_playground_queries_target ON playground_queries(user_id, target, executed_at);
@@ -0,0 +1,6 @@
+-- Admins can run jobs that affect every user, such as IRT calibration.
+-- The first account becomes the admin, like it inherits the 'default' data
+ALTER TABLE users ADD COLUMN is_admin INTEGER NOT NULL DEFAULT 0; -- SQLite boolean
+
+UPDATE users SET is_admin = 1
+WHERE id = (SELECT id FROM users ORDER BY created_at, rowid LIMIT 1);
@@ -0,0 +1,201 @@
+import type Database from 'better-sqlite3';
+import crypto from 'crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const MIGRATIONS_DIR = join(__dirname, 'migrations');
+
+// 008_add_table.sql, or .ts/.js for migrations that need code
+const FILENAME_PATTERN = /^(\d+)_([a-z0-9_]+)\.(sql|ts|js)$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  filename: string;
+  checksum: string;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  filename?: string; // absent when an applied migration's file is gone
+  state: MigrationState;
+  appliedAt?: string;
+}
+
+/** A TS/JS migration; `up` runs inside the migration's transaction. */
+export interface MigrationModule {
+  up(db: Database.Database): void;
+}
+
+export function discoverMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations = new Map<number, Migration>();
+
+  for (const filename of readdirSync(dir).sort()) {
+    if (filename.endsWith('.d.ts')) continue;
+
+    const match = FILENAME_PATTERN.exec(filename);
+    if (!match) {
+      throw new Error(`Migration filename must look like 008_add_table.sql: ${filename}`);
+    }
+
+    const version = parseInt(match[1], 10);
+    const existing = migrations.get(version);
+    if (existing) {
+      throw new Error(`Duplicate migration version ${version}: ${existing.filename} and ${filename}`);
+    }
+
+    const checksum = crypto.createHash('sha256')
+      .update(readFileSync(join(dir, filename)))
+      .digest('hex');
+    migrations.set(version, { version, name: match[2], filename, checksum });
+  }
+
+  return Array.from(migrations.values()).sort((a, b) => a.version - b.version);
+}
+
+export function getMigrationStatus(db: Database.Database, dir: string = MIGRATIONS_DIR): MigrationStatus[] {
+  ensureMigrationsTable(db);
+
+  const applied = new Map(
+    (db.prepare(`SELECT * FROM schema_migrations`).all() as any[]).map(row => [row.version, row])
+  );
+  const statuses: MigrationStatus[] = [];
+
+  for (const migration of discoverMigrations(dir)) {
+    const row = applied.get(migration.version);
+    applied.delete(migration.version);
+    statuses.push({
+      version: migration.version,
+      name: migration.name,
+      filename: migration.filename,
+      state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'modified',
+      appliedAt: row?.applied_at
+    });
+  }
+
+  for (const row of applied.values()) {
+    statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/** The latest applied migration version, 0 for an empty database. */
+export function getSchemaVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db.prepare(`SELECT MAX(version) AS version FROM schema_migrations`).get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction.
+ * Throws before applying anything if an applied migration was edited or
+ * deleted, or if a pending migration is numbered below an applied one.
+ */
+export async function runPendingMigrations(
+  db: Database.Database,
+  dir: string = MIGRATIONS_DIR
+): Promise<Migration[]> {
+  const statuses = getMigrationStatus(db, dir);
+
+  for (const status of statuses) {
+    if (status.state === 'modified') {
+      throw new Error(
+        `Migration ${status.filename} was edited after it was applied. ` +
+        'Restore the original file and put the change in a new migration.'
+      );
+    }
+    if (status.state === 'missing') {
+      throw new Error(`Applied migration ${status.version}_${status.name} no longer exists in ${dir}`);
+    }
+  }
+
+  const latestApplied = Math.max(0, ...statuses.filter(s => s.state === 'applied').map(s => s.version));
+  const pendingVersions = new Set(statuses.filter(s => s.state === 'pending').map(s => s.version));
+  const pending = discoverMigrations(dir).filter(m => pendingVersions.has(m.version));
+
+  const outOfOrder = pending.find(m => m.version < latestApplied);
+  if (outOfOrder) {
+    throw new Error(
+      `Migration ${outOfOrder.filename} is numbered below one that is already applied; renumber it after ${latestApplied}`
+    );
+  }
+
+  const record = db.prepare(`
+    INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)
+  `);
+
+  for (const migration of pending) {
+    const path = join(dir, migration.filename);
+    const apply = migration.filename.endsWith('.sql')
+      ? loadSqlMigration(path)
+      : await loadModuleMigration(path);
+
+    db.transaction(() => {
+      apply(db);
+      record.run(migration.version, migration.name, migration.checksum);
+    })();
+  }
+
+  return pending;
+}
+
+/** Writes an empty migration numbered after the latest one and returns its path. */
+export function createMigration(
+  name: string,
+  options: { typescript?: boolean } = {},
+  dir: string = MIGRATIONS_DIR
+): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new Error('Migration name must contain letters or digits');
+  }
+
+  const latest = discoverMigrations(dir).at(-1)?.version ?? 0;
+  const version = String(latest + 1).padStart(3, '0');
+  const filename = `${version}_${slug}.${options.typescript ? 'ts' : 'sql'}`;
+  const template = options.typescript
+    ? [
+      `import type Database from 'better-sqlite3';`,
+      ``,
+      `// ${name}`,
+      `export function up(db: Database.Database): void {`,
+      `}`,
+      ``
+    ].join('\n')
+    : `-- ${name}\n`;
+
+  const path = join(dir, filename);
+  writeFileSync(path, template, { flag: 'wx' });
+  return path;
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL, -- sha256 of the file as applied
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+function loadSqlMigration(path: string): (db: Database.Database) => void {
+  const sql = readFileSync(path, 'utf-8');
+  return db => db.exec(sql);
+}
+
+async function loadModuleMigration(path: string): Promise<(db: Database.Database) => void> {
+  const module = await import(pathToFileURL(path).href) as Partial<MigrationModule>;
+  if (typeof module.up !== 'function') {
+    throw new Error(`Migration ${path} must export an up(db) function`);
+  }
+  return module.up;
+}
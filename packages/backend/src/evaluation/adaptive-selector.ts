@@ -1,39 +1,57 @@
-import type { EvaluationQuestion, EvaluationResponse } from '@learn-pg/shared';
+import type { AbilityEstimate, EvaluationQuestion, EvaluationResponse } from '@learn-pg/shared';
 import { getDatabase } from '../db/index.js';
+import {
+  difficultyToTheta,
+  estimateAbility,
+  fisherInformation,
+  itemParameters,
+  thetaErrorToLevels,
+  thetaToDifficulty,
+  type ItemParameters
+} from './irt.js';
 
 export interface AdaptiveConfig {
-  initialDifficulty: number;
-  consecutiveCorrectToIncrease: number;
-  consecutiveIncorrectToDecrease: number;
-  difficultyStep: number;
+  minQuestions: number;
+  maxQuestions: number;
+  targetStandardError: number; // in skill levels; stop once the estimate is this precise
+  priorStandardDeviation: number; // in skill levels, around the learner's previous rating
   targetWeakAreas: boolean;
 }
 
+function responseScore(response: EvaluationResponse): number {
+  return response.score ?? (response.isCorrect ? 1 : 0);
+}
+
 export class AdaptiveSelector {
   private config: AdaptiveConfig = {
-    initialDifficulty: 5,
-    consecutiveCorrectToIncrease: 1,  // Increase after each correct answer
-    consecutiveIncorrectToDecrease: 2,
-    difficultyStep: 2,  // Jump by 2 levels for faster adaptation
+    minQuestions: 5,
+    maxQuestions: 20,
+    targetStandardError: 0.8,
+    priorStandardDeviation: 2.5,
     targetWeakAreas: true
   };
 
-  private consecutiveCorrect = 0;
-  private consecutiveIncorrect = 0;
-  private currentDifficulty: number;
-  private askedQuestions = new Set<string>();
+  private askedQuestions = new Map<string, EvaluationQuestion>();
+  private responses: EvaluationResponse[] = [];
+  private startingSkillLevel: number;
+  private estimate: AbilityEstimate;
 
   constructor(startingSkillLevel: number, config?: Partial<AdaptiveConfig>) {
-    this.currentDifficulty = startingSkillLevel;
+    this.startingSkillLevel = startingSkillLevel;
     if (config) {
       this.config = { ...this.config, ...config };
     }
+    this.estimate = this.estimateFromResponses([]);
   }
 
   selectNextQuestion(
     questionBank: EvaluationQuestion[],
     weakConcepts: string[] = []
   ): EvaluationQuestion | null {
+    if (this.shouldStop()) {
+      return null;
+    }
+
     // Filter out already asked questions
     const availableQuestions = questionBank.filter(q => !this.askedQuestions.has(q.id));
 
@@ -54,130 +72,76 @@ export class AdaptiveSelector {
       }
     }
 
-    // Filter by difficulty (within ±1 of current difficulty)
-    const targetDiff = this.currentDifficulty;
-    const difficultyCandidates = candidates.filter(q =>
-      Math.abs(q.difficulty - targetDiff) <= 1
-    );
-
-    const finalCandidates = difficultyCandidates.length > 0 ? difficultyCandidates : candidates;
+    // Pick the most informative question at the current ability estimate.
+    // Uncalibrated questions are placed at their authored difficulty.
+    const theta = difficultyToTheta(this.estimate.level);
 
-    // Shuffle candidates for better randomization
-    const shuffled = [...finalCandidates].sort(() => Math.random() - 0.5);
+    // Shuffle first so ties are broken randomly
+    const shuffled = [...candidates].sort(() => Math.random() - 0.5);
 
-    // Select random question from shuffled candidates
-    const selected = shuffled[Math.floor(Math.random() * shuffled.length)];
-    this.askedQuestions.add(selected.id);
+    let selected = shuffled[0];
+    let bestInformation = -Infinity;
+    for (const question of shuffled) {
+      const information = fisherInformation(theta, itemParameters(question));
+      if (information > bestInformation) {
+        selected = question;
+        bestInformation = information;
+      }
+    }
+    this.askedQuestions.set(selected.id, selected);
 
     return selected;
   }
 
   recordResponse(response: EvaluationResponse): void {
-    if (response.isCorrect) {
-      this.consecutiveCorrect++;
-      this.consecutiveIncorrect = 0;
-
-      // Increase difficulty after N correct answers
-      if (this.consecutiveCorrect >= this.config.consecutiveCorrectToIncrease) {
-        this.currentDifficulty = Math.min(10, this.currentDifficulty + this.config.difficultyStep);
-        this.consecutiveCorrect = 0;
-      }
-    } else {
-      this.consecutiveIncorrect++;
-      this.consecutiveCorrect = 0;
-
-      // Decrease difficulty after N incorrect answers
-      if (this.consecutiveIncorrect >= this.config.consecutiveIncorrectToDecrease) {
-        this.currentDifficulty = Math.max(1, this.currentDifficulty - this.config.difficultyStep);
-        this.consecutiveIncorrect = 0;
-      }
-    }
+    this.responses.push(response);
+    this.estimate = this.estimateFromResponses(this.responses);
 
     // Update question metadata
     this.updateQuestionMetadata(response);
   }
 
-  getCurrentDifficulty(): number {
-    return this.currentDifficulty;
-  }
-
-  calculateFinalSkillLevel(responses: EvaluationResponse[]): number {
-    if (responses.length === 0) {
-      return this.currentDifficulty;
+  /**
+   * The evaluation ends once the estimate is precise enough (after a minimum
+   * number of questions) or the maximum length is reached.
+   */
+  shouldStop(): boolean {
+    const answered = this.responses.length;
+    if (answered >= this.config.maxQuestions) {
+      return true;
     }
-
-    // Calculate accuracy and average difficulty
-    const correctCount = responses.filter(r => r.isCorrect).length;
-    const accuracy = correctCount / responses.length;
-    const avgDifficulty = responses.reduce((sum, r) => sum + r.questionDifficulty, 0) / responses.length;
-
-    // Perfect score should reach high levels
-    if (accuracy === 1.0) {
-      // Perfect score: base on highest difficulty attempted + bonus
-      const maxDifficulty = Math.max(...responses.map(r => r.questionDifficulty));
-      return Math.min(10, Math.round(maxDifficulty + 2));
-    }
-
-    // Use current difficulty as base, adjusted by performance
-    let rating = this.currentDifficulty * 100;
-
-    for (const response of responses) {
-      const expectedScore = this.expectedScore(rating, response.questionDifficulty * 100);
-      const actualScore = response.isCorrect ? 1 : 0;
-
-      // Time bonus (faster answers get more points)
-      const timeBonus = Math.max(0, 1 - (response.timeSpentSeconds / 300));
-      const adjustedActual = actualScore * (1 + timeBonus * 0.2);
-
-      // K-factor - higher for more impact per question
-      const kFactor = 50;
-      rating += kFactor * (adjustedActual - expectedScore);
-    }
-
-    const finalLevel = Math.round(Math.max(1, Math.min(10, rating / 100)));
-    return finalLevel;
+    return answered >= this.config.minQuestions &&
+      this.estimate.standardError <= this.config.targetStandardError;
   }
 
-  identifyWeakAreas(
-    responses: EvaluationResponse[],
-    questionBank: EvaluationQuestion[]
-  ): string[] {
-    const conceptScores: Map<string, { correct: number; total: number }> = new Map();
-
-    for (const response of responses) {
-      const question = questionBank.find(q => q.id === response.questionId);
-      if (!question) continue;
-
-      for (const concept of question.concepts) {
-        const current = conceptScores.get(concept) || { correct: 0, total: 0 };
-        current.total++;
-        if (response.isCorrect) {
-          current.correct++;
-        }
-        conceptScores.set(concept, current);
-      }
-    }
+  getAbilityEstimate(): AbilityEstimate {
+    return this.estimate;
+  }
 
-    // Identify concepts with <50% accuracy
-    const weakConcepts: Array<{ concept: string; rate: number }> = [];
-    for (const [concept, scores] of conceptScores) {
-      if (scores.total >= 2) {
-        const accuracy = scores.correct / scores.total;
-        if (accuracy < 0.5) {
-          weakConcepts.push({ concept, rate: accuracy });
-        }
+  /**
+   * EAP estimate on the 1-10 skill scale, using the learner's previous rating
+   * as the prior mean.
+   */
+  estimateFromResponses(responses: EvaluationResponse[]): AbilityEstimate {
+    const { theta, standardError } = estimateAbility(
+      responses.map(r => ({ item: this.itemFor(r), score: responseScore(r) })),
+      {
+        mean: difficultyToTheta(this.startingSkillLevel),
+        sd: this.config.priorStandardDeviation / thetaErrorToLevels(1)
       }
-    }
-
-    // Sort by worst performance
-    weakConcepts.sort((a, b) => a.rate - b.rate);
+    );
 
-    return weakConcepts.map(w => w.concept);
+    return {
+      level: Math.max(1, Math.min(10, thetaToDifficulty(theta))),
+      standardError: thetaErrorToLevels(standardError)
+    };
   }
 
-  private expectedScore(rating: number, questionDifficulty: number): number {
-    // Elo expected score formula
-    return 1 / (1 + Math.pow(10, (questionDifficulty - rating) / 400));
+  private itemFor(response: EvaluationResponse): ItemParameters {
+    const question = this.askedQuestions.get(response.questionId);
+    return question
+      ? itemParameters(question)
+      : { discrimination: 1, difficulty: difficultyToTheta(response.questionDifficulty) };
   }
 
   private updateQuestionMetadata(response: EvaluationResponse): void {
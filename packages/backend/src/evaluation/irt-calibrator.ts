@@ -0,0 +1,222 @@
+import { getDatabase } from '../db/index.js';
+import { THETA_RANGE, difficultyToTheta, probabilityCorrect, thetaGrid, type ItemParameters } from './irt.js';
+
+export interface CalibrationOptions {
+  minResponses: number; // items with fewer responses keep their current parameters
+  maxIterations: number;
+  tolerance: number;
+}
+
+export interface CalibratedItem extends ItemParameters {
+  questionId: string;
+  responses: number;
+}
+
+export interface CalibrationResult {
+  responses: number;
+  sessions: number;
+  iterations: number;
+  converged: boolean;
+  calibrated: CalibratedItem[];
+  skipped: Array<{ questionId: string; responses: number }>;
+}
+
+interface Observation {
+  person: number;
+  item: number;
+  score: number; // 0-1, partial credit counts as a fractional outcome
+}
+
+const QUADRATURE_POINTS = 41;
+const M_STEP_ITERATIONS = 5;
+
+// Weak priors keep estimates finite for items everyone gets right or wrong
+const DISCRIMINATION_PRIOR = { mean: 1, sd: 1 };
+const DIFFICULTY_PRIOR_SD = 2;
+const DISCRIMINATION_RANGE = [0.2, 4] as const;
+
+function clamp(value: number, [min, max]: readonly [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Fits 2PL item parameters from evaluation_responses by marginal maximum a
+ * posteriori estimation (Bock-Aitkin EM), treating each evaluation session
+ * as one examinee drawn from a standard normal ability distribution.
+ */
+export class IrtCalibrator {
+  private options: CalibrationOptions = {
+    minResponses: 20,
+    maxIterations: 500,
+    tolerance: 1e-3
+  };
+
+  constructor(options?: Partial<CalibrationOptions>) {
+    if (options) {
+      this.options = { ...this.options, ...options };
+    }
+  }
+
+  calibrate(options?: Partial<CalibrationOptions>): CalibrationResult {
+    const opts = { ...this.options, ...options };
+    const db = getDatabase();
+
+    const rows = db.prepare(`
+      SELECT session_id, question_id, question_difficulty, is_correct, score
+      FROM evaluation_responses
+    `).all() as any[];
+
+    const personIndex = new Map<string, number>();
+    const itemIndex = new Map<string, number>();
+    const itemIds: string[] = [];
+    const authoredDifficulty: number[] = [];
+    const observations: Observation[] = [];
+
+    for (const row of rows) {
+      if (!personIndex.has(row.session_id)) {
+        personIndex.set(row.session_id, personIndex.size);
+      }
+      if (!itemIndex.has(row.question_id)) {
+        itemIndex.set(row.question_id, itemIds.length);
+        itemIds.push(row.question_id);
+        authoredDifficulty.push(difficultyToTheta(row.question_difficulty));
+      }
+      observations.push({
+        person: personIndex.get(row.session_id)!,
+        item: itemIndex.get(row.question_id)!,
+        score: row.score ?? (row.is_correct ? 1 : 0)
+      });
+    }
+
+    const byPerson: Observation[][] = Array.from({ length: personIndex.size }, () => []);
+    const byItem: Observation[][] = itemIds.map(() => []);
+    for (const obs of observations) {
+      byPerson[obs.person].push(obs);
+      byItem[obs.item].push(obs);
+    }
+
+    // Ability is integrated out over a fixed grid with a standard normal prior
+    const grid = thetaGrid(QUADRATURE_POINTS);
+    const gridPrior = grid.map(t => Math.exp(-t * t / 2));
+
+    const items: ItemParameters[] = authoredDifficulty.map(b => ({ discrimination: 1, difficulty: b }));
+    const fitted = byItem.map(obs => obs.length >= opts.minResponses);
+
+    let iterations = 0;
+    let converged = false;
+    while (iterations < opts.maxIterations && !converged) {
+      iterations++;
+
+      // E-step: expected number of examinees (n) and expected score (r) at
+      // each grid point, per item
+      const expectedN = items.map(() => new Array(grid.length).fill(0));
+      const expectedR = items.map(() => new Array(grid.length).fill(0));
+
+      for (const responses of byPerson) {
+        const logPosterior = grid.map((t, q) => {
+          let logLikelihood = Math.log(gridPrior[q]);
+          for (const obs of responses) {
+            const prob = probabilityCorrect(t, items[obs.item]);
+            logLikelihood += obs.score * Math.log(prob) + (1 - obs.score) * Math.log(1 - prob);
+          }
+          return logLikelihood;
+        });
+        const max = Math.max(...logPosterior);
+        const posterior = logPosterior.map(l => Math.exp(l - max));
+        const total = posterior.reduce((sum, w) => sum + w, 0);
+
+        for (const obs of responses) {
+          for (let q = 0; q < grid.length; q++) {
+            const weight = posterior[q] / total;
+            expectedN[obs.item][q] += weight;
+            expectedR[obs.item][q] += weight * obs.score;
+          }
+        }
+      }
+
+      // M-step: Fisher-scoring updates of (a, b) per item with enough data
+      let maxChange = 0;
+      for (let i = 0; i < items.length; i++) {
+        if (!fitted[i]) continue;
+
+        for (let step = 0; step < M_STEP_ITERATIONS; step++) {
+          const { discrimination: a, difficulty: b } = items[i];
+
+          let gradA = -(a - DISCRIMINATION_PRIOR.mean) / DISCRIMINATION_PRIOR.sd ** 2;
+          let gradB = -(b - authoredDifficulty[i]) / DIFFICULTY_PRIOR_SD ** 2;
+          let infoAA = 1 / DISCRIMINATION_PRIOR.sd ** 2;
+          let infoBB = 1 / DIFFICULTY_PRIOR_SD ** 2;
+          let infoAB = 0;
+
+          for (let q = 0; q < grid.length; q++) {
+            const n = expectedN[i][q];
+            if (n === 0) continue;
+            const t = grid[q];
+            const prob = probabilityCorrect(t, items[i]);
+            const residual = expectedR[i][q] - n * prob;
+            const weight = n * prob * (1 - prob);
+            gradA += residual * (t - b);
+            gradB += -a * residual;
+            infoAA += weight * (t - b) ** 2;
+            infoBB += weight * a * a;
+            infoAB += -weight * a * (t - b);
+          }
+
+          const det = infoAA * infoBB - infoAB * infoAB;
+          if (det <= 1e-12) break;
+          const stepA = (infoBB * gradA - infoAB * gradB) / det;
+          const stepB = (infoAA * gradB - infoAB * gradA) / det;
+
+          const nextA = clamp(a + stepA, DISCRIMINATION_RANGE);
+          const nextB = clamp(b + stepB, THETA_RANGE);
+          maxChange = Math.max(maxChange, Math.abs(nextA - a), Math.abs(nextB - b));
+          items[i] = { discrimination: nextA, difficulty: nextB };
+        }
+      }
+
+      converged = maxChange < opts.tolerance;
+    }
+
+    const calibrated: CalibratedItem[] = [];
+    const skipped: CalibrationResult['skipped'] = [];
+    itemIds.forEach((questionId, i) => {
+      if (fitted[i]) {
+        calibrated.push({ questionId, responses: byItem[i].length, ...items[i] });
+      } else {
+        skipped.push({ questionId, responses: byItem[i].length });
+      }
+    });
+
+    this.store(calibrated);
+
+    return {
+      responses: observations.length,
+      sessions: personIndex.size,
+      iterations,
+      converged,
+      calibrated,
+      skipped
+    };
+  }
+
+  private store(items: CalibratedItem[]): void {
+    const db = getDatabase();
+    const upsert = db.prepare(`
+      INSERT INTO question_metadata (question_id, irt_discrimination, irt_difficulty, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(question_id) DO UPDATE SET
+        irt_discrimination = excluded.irt_discrimination,
+        irt_difficulty = excluded.irt_difficulty,
+        updated_at = excluded.updated_at
+    `);
+
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      for (const item of items) {
+        upsert.run(item.questionId, item.discrimination, item.difficulty, now);
+      }
+    })();
+  }
+}
+
+export const irtCalibrator = new IrtCalibrator();
@@ -0,0 +1,99 @@
+import type { EvaluationQuestion } from '@learn-pg/shared';
+
+/**
+ * Two-parameter logistic (2PL) IRT model. Abilities and item difficulties
+ * share a logit scale where the authored 1-10 difficulty range maps onto
+ * roughly -3..3.
+ */
+export interface ItemParameters {
+  discrimination: number; // a
+  difficulty: number; // b, on the ability scale
+}
+
+export interface ScoredItem {
+  item: ItemParameters;
+  score: number; // 0-1, partial credit counts as a fractional outcome
+}
+
+export interface ThetaEstimate {
+  theta: number;
+  standardError: number;
+}
+
+const SCALE_CENTER = 5.5;
+const SCALE_SPREAD = 1.5;
+
+export const THETA_RANGE = [-4, 4] as const;
+
+export function difficultyToTheta(difficulty: number): number {
+  return (difficulty - SCALE_CENTER) / SCALE_SPREAD;
+}
+
+export function thetaToDifficulty(theta: number): number {
+  return theta * SCALE_SPREAD + SCALE_CENTER;
+}
+
+/** Converts a standard error on the ability scale to skill-level units. */
+export function thetaErrorToLevels(standardError: number): number {
+  return standardError * SCALE_SPREAD;
+}
+
+/** Evenly spaced quadrature points covering THETA_RANGE. */
+export function thetaGrid(points: number): number[] {
+  const [min, max] = THETA_RANGE;
+  return Array.from({ length: points }, (_, q) => min + (q * (max - min)) / (points - 1));
+}
+
+export function probabilityCorrect(theta: number, item: ItemParameters): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)));
+}
+
+export function fisherInformation(theta: number, item: ItemParameters): number {
+  const p = probabilityCorrect(theta, item);
+  return item.discrimination * item.discrimination * p * (1 - p);
+}
+
+/**
+ * Calibrated parameters when available, otherwise a unit-discrimination item
+ * placed at the authored difficulty.
+ */
+export function itemParameters(question: EvaluationQuestion): ItemParameters {
+  const metadata = question.metadata;
+  if (metadata?.irtDiscrimination != null && metadata?.irtDifficulty != null) {
+    return { discrimination: metadata.irtDiscrimination, difficulty: metadata.irtDifficulty };
+  }
+  return { discrimination: 1, difficulty: difficultyToTheta(question.difficulty) };
+}
+
+export function isCalibrated(question: EvaluationQuestion): boolean {
+  return question.metadata?.irtDiscrimination != null && question.metadata?.irtDifficulty != null;
+}
+
+/**
+ * Expected a posteriori ability estimate under a normal prior. Unlike MLE it
+ * stays finite when every answer so far is right (or wrong), and the
+ * posterior standard deviation serves as the standard error.
+ */
+export function estimateAbility(
+  responses: ScoredItem[],
+  prior: { mean: number; sd: number } = { mean: 0, sd: 1 }
+): ThetaEstimate {
+  const grid = thetaGrid(81);
+  const logPosterior = grid.map(theta => {
+    let logDensity = -((theta - prior.mean) ** 2) / (2 * prior.sd ** 2);
+    for (const { item, score } of responses) {
+      const p = probabilityCorrect(theta, item);
+      logDensity += score * Math.log(p) + (1 - score) * Math.log(1 - p);
+    }
+    return logDensity;
+  });
+
+  const max = Math.max(...logPosterior);
+  const weights = logPosterior.map(l => Math.exp(l - max));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  const theta = grid.reduce((sum, t, q) => sum + t * weights[q], 0) / total;
+  const variance = grid.reduce((sum, t, q) => sum + (t - theta) ** 2 * weights[q], 0) / total;
+
+  return { theta, standardError: Math.sqrt(variance) };
+}
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import type {
+  EvaluationAnswerResult,
+  ScenarioBasedQuestion,
+  ScenarioTaskResult,
+  ScenarioTaskVerification
+} from '@learn-pg/shared';
+import { dockerService } from '../services/docker-service.js';
+import { checkSqlPolicy } from '../sql/policy.js';
+import { checkExpectedResult } from '../validators/result-compare.js';
+
+type Task = ScenarioBasedQuestion['tasks'][number];
+
+/**
+ * Grades scenario-based questions task by task. Each task earns 0-1 credit
+ * from its verification rubric; the question score is the points-weighted
+ * mean and the answer counts as correct only with full credit.
+ */
+export class RubricGrader {
+  async grade(question: ScenarioBasedQuestion, userAnswer: string): Promise<EvaluationAnswerResult> {
+    const answers = this.parseAnswers(question, userAnswer);
+    const taskResults: ScenarioTaskResult[] = [];
+    let earned = 0;
+    let total = 0;
+
+    for (const task of question.tasks) {
+      const points = task.points ?? 1;
+      const taskResult = await this.gradeTask(question, task, answers[task.id] ?? '');
+      taskResults.push(taskResult);
+      earned += taskResult.score * points;
+      total += points;
+    }
+
+    const score = total > 0 ? earned / total : 0;
+    return {
+      isCorrect: score >= 0.999,
+      score: Math.round(score * 1000) / 1000,
+      taskResults
+    };
+  }
+
+  // Answers arrive as a JSON object keyed by task id. Plain text (older
+  // clients) is treated as the answer to every task.
+  private parseAnswers(question: ScenarioBasedQuestion, userAnswer: string): Record<string, string> {
+    try {
+      const parsed = JSON.parse(userAnswer);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return Object.fromEntries(Object.entries(parsed).map(([id, value]) => [id, String(value ?? '')]));
+      }
+    } catch {
+      // Not JSON
+    }
+    return Object.fromEntries(question.tasks.map(task => [task.id, userAnswer]));
+  }
+
+  private async gradeTask(question: ScenarioBasedQuestion, task: Task, answer: string): Promise<ScenarioTaskResult> {
+    const verification: ScenarioTaskVerification | undefined = task.verification;
+
+    if (!answer.trim()) {
+      return { taskId: task.id, score: 0, feedback: ['No answer given'] };
+    }
+
+    switch (verification?.kind) {
+      case 'keywords':
+        return this.gradeKeywords(task, verification, answer);
+
+      case 'sql':
+        return this.gradeSql(question, task, verification, answer);
+
+      case 'multiple-choice': {
+        const correct = answer === verification.correctOptionId;
+        return { taskId: task.id, score: correct ? 1 : 0, feedback: [correct ? 'Correct choice' : 'Incorrect choice'] };
+      }
+
+      default:
+        // Nothing to check the answer against, so it can't earn credit
+        return { taskId: task.id, score: 0, feedback: ['This task has no verification, so it cannot be graded'] };
+    }
+  }
+
+  private gradeKeywords(
+    task: Task,
+    verification: Extract<ScenarioTaskVerification, { kind: 'keywords' }>,
+    answer: string
+  ): ScenarioTaskResult {
+    const text = answer.toLowerCase();
+    const keywords = verification.keywords || [];
+    const patterns = verification.patterns || [];
+
+    const matchedKeywords = keywords.filter(k => text.includes(k.toLowerCase()));
+    const matchedPatterns = patterns.filter(p => new RegExp(p, 'i').test(answer));
+    const matches = matchedKeywords.length + matchedPatterns.length;
+    const needed = verification.minMatches ?? keywords.length + patterns.length;
+
+    const missing = keywords.filter(k => !matchedKeywords.includes(k));
+    return {
+      taskId: task.id,
+      score: needed > 0 ? Math.min(1, matches / needed) : 1,
+      feedback: matches >= needed
+        ? ['Covers the key points']
+        : [`Covers ${matches} of ${needed} key points${missing.length > 0 ? `; consider ${missing.join(', ')}` : ''}`]
+    };
+  }
+
+  private async gradeSql(
+    question: ScenarioBasedQuestion,
+    task: Task,
+    verification: Extract<ScenarioTaskVerification, { kind: 'sql' }>,
+    answer: string
+  ): Promise<ScenarioTaskResult> {
+    const policyViolation = await checkSqlPolicy(answer);
+    if (policyViolation) {
+      return { taskId: task.id, score: 0, feedback: [], executionError: policyViolation.message };
+    }
+
+    const scratchSchema = `eval_${crypto.randomBytes(6).toString('hex')}`;
+    const queries = verification.checkQuery ? [answer, verification.checkQuery] : [answer];
+
+    let results: any[];
+    try {
+      results = await dockerService.executeAllAndRollback(queries, scratchSchema, {
+        setupSql: question.setupSql ?? ''
+      });
+    } catch (error: any) {
+      return { taskId: task.id, score: 0, feedback: [], executionError: error.message || 'Query execution failed' };
+    }
+
+    let passed = true;
+    if (verification.expectedResult) {
+      passed = checkExpectedResult(results[0], verification.expectedResult).matches;
+    }
+    if (verification.checkQuery) {
+      const row = results[1]?.rows?.[0];
+      passed = passed && row !== undefined && Object.values(row)[0] === true;
+    }
+
+    return {
+      taskId: task.id,
+      score: passed ? 1 : 0,
+      feedback: [passed ? 'Your SQL does what the task asks' : 'Your SQL does not complete this task yet']
+    };
+  }
+}
+
+export const rubricGrader = new RubricGrader();
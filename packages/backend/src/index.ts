@@ -4,12 +4,21 @@ import { initDatabase } from './db/index.js';
 import { dockerService } from './services/docker-service.js';
 import { curriculumService } from './services/curriculum-service.js';
 import { evaluationService } from './services/evaluation-service.js';
+import { sandboxService } from './services/sandbox-service.js';
+import { searchService } from './services/search-service.js';
 import { curriculumRoutes } from './api/routes/curriculum.js';
 import { exercisesRoutes } from './api/routes/exercises.js';
 import { evaluationRoutes } from './api/routes/evaluation.js';
 import { progressRoutes } from './api/routes/progress.js';
+import { reviewRoutes } from './api/routes/review.js';
+import { adminRoutes } from './api/routes/admin.js';
+import { authRoutes } from './api/routes/auth.js';
+import { searchRoutes } from './api/routes/search.js';
+import { playgroundRoutes } from './api/routes/playground.js';
+import { authPlugin, requireUser } from './api/plugins/auth.js';
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3000;
+const WATCH_CURRICULUM = process.argv.includes('--watch-curriculum');
 
 async function start() {
   const fastify = Fastify({
@@ -33,22 +42,40 @@ async function start() {
       docker: dockerRunning,
       postgres: containerRunning,
       pgdog: pgdogRunning,
+      pools: dockerService.getPoolMetrics(),
       timestamp: new Date().toISOString()
     };
   });
 
+  // Resolve bearer tokens to request.user
+  await fastify.register(authPlugin);
+
   // Register API routes
-  fastify.register(curriculumRoutes, { prefix: '/api/curriculum' });
-  fastify.register(exercisesRoutes, { prefix: '/api' });
-  fastify.register(evaluationRoutes, { prefix: '/api' });
-  fastify.register(progressRoutes, { prefix: '/api' });
+  fastify.register(authRoutes, { prefix: '/api/auth' });
+
+  // Everything else under /api needs a signed-in user
+  fastify.register(async (api) => {
+    api.addHook('onRequest', requireUser);
+
+    api.register(curriculumRoutes, { prefix: '/curriculum' });
+    api.register(exercisesRoutes);
+    api.register(evaluationRoutes);
+    api.register(progressRoutes);
+    api.register(reviewRoutes);
+    api.register(searchRoutes);
+    api.register(playgroundRoutes);
+    api.register(adminRoutes, { prefix: '/admin' });
+  }, { prefix: '/api' });
 
   try {
     // Initialize database
     console.log('Initializing SQLite database...');
-    initDatabase();
+    await initDatabase();
     console.log('Database initialized');
 
+    // Drop exercise sandboxes nobody has used for a while
+    sandboxService.start();
+
     // Check Docker status
     console.log('Checking Docker status...');
     const dockerRunning = await dockerService.isDockerRunning();
@@ -68,6 +95,14 @@ async function start() {
     await curriculumService.loadCurriculum();
     const topics = curriculumService.getAllTopics();
     console.log(`Loaded ${topics.length} topics`);
+    const problems = curriculumService.getProblems();
+    if (problems.length > 0) {
+      console.warn(`Curriculum has ${problems.length} problems; run npm run curriculum:check for details`);
+    }
+    if (WATCH_CURRICULUM) {
+      curriculumService.watch();
+      console.log('Watching curriculum for changes');
+    }
 
     // Load evaluation questions
     console.log('Loading evaluation questions...');
@@ -75,6 +110,10 @@ async function start() {
     const questions = evaluationService.getQuestionBank();
     console.log(`Loaded ${questions.length} evaluation questions`);
 
+    // Index content for search, again whenever a topic is reloaded
+    searchService.rebuild();
+    curriculumService.onChange(() => searchService.rebuild());
+
     // Start server
     await fastify.listen({ port: PORT, host: '0.0.0.0' });
     console.log(`Server listening on http://localhost:${PORT}`);
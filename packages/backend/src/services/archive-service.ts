@@ -0,0 +1,458 @@
+import crypto from 'crypto';
+import { getDatabase } from '../db/index.js';
+import { getSchemaVersion } from '../db/migrator.js';
+import { curriculumService } from './curriculum-service.js';
+import {
+  PROGRESS_ARCHIVE_FORMAT,
+  PROGRESS_ARCHIVE_FORMAT_VERSION,
+  type ArchiveRow,
+  type ImportMode,
+  type ImportResult,
+  type ProgressArchive,
+  type ProgressArchiveTables
+} from '@learn-pg/shared';
+
+const TOPIC_STATUS_RANK: Record<string, number> = { 'not-started': 0, 'in-progress': 1, completed: 2 };
+
+function parseJsonArray(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function union(a: unknown, b: unknown): string {
+  return JSON.stringify(Array.from(new Set([...parseJsonArray(a), ...parseJsonArray(b)])));
+}
+
+/** Later of two timestamps; either may be missing. */
+function later(a: unknown, b: unknown): string | null {
+  if (typeof a !== 'string') return typeof b === 'string' ? b : null;
+  if (typeof b !== 'string') return a;
+  return a >= b ? a : b;
+}
+
+function earlier(a: unknown, b: unknown): string | null {
+  if (typeof a !== 'string') return typeof b === 'string' ? b : null;
+  if (typeof b !== 'string') return a;
+  return a <= b ? a : b;
+}
+
+function withoutKeys(row: any, ...keys: string[]): ArchiveRow {
+  const copy = { ...row };
+  for (const key of keys) delete copy[key];
+  return copy;
+}
+
+/**
+ * Exports a learner's history as a versioned JSON archive and imports one
+ * back, either merged into the existing history or replacing it.
+ */
+export class ArchiveService {
+  private tableColumns: Map<string, Set<string>> = new Map();
+
+  exportProgress(userId: string, username?: string): ProgressArchive {
+    const db = getDatabase();
+    const rows = (sql: string) => db.prepare(sql).all(userId) as any[];
+    const strip = (list: any[]) => list.map(row => withoutKeys(row, 'id', 'user_id'));
+
+    const userProgress = db.prepare(`SELECT * FROM user_progress WHERE user_id = ?`).get(userId);
+
+    return {
+      format: PROGRESS_ARCHIVE_FORMAT,
+      formatVersion: PROGRESS_ARCHIVE_FORMAT_VERSION,
+      schemaVersion: getSchemaVersion(db),
+      exportedAt: new Date().toISOString(),
+      username,
+      tables: {
+        userProgress: userProgress ? withoutKeys(userProgress, 'user_id') : null,
+        topicProgress: strip(rows(`SELECT * FROM topic_progress WHERE user_id = ? ORDER BY id`)),
+        exerciseAttempts: strip(rows(`SELECT * FROM exercise_attempts WHERE user_id = ? ORDER BY id`)),
+        sessionRecords: strip(rows(`SELECT * FROM session_records WHERE user_id = ? ORDER BY id`)),
+        // Session ids are UUIDs that responses refer to, so they are kept
+        evaluationSessions: rows(`SELECT * FROM evaluation_sessions WHERE user_id = ? ORDER BY start_time`)
+          .map(row => withoutKeys(row, 'user_id')),
+        evaluationResponses: strip(rows(`
+          SELECT r.* FROM evaluation_responses r
+          JOIN evaluation_sessions s ON s.id = r.session_id
+          WHERE s.user_id = ?
+          ORDER BY r.id
+        `)),
+        struggledConcepts: strip(rows(`SELECT * FROM struggled_concepts WHERE user_id = ? ORDER BY id`)),
+        conceptMastery: strip(rows(`SELECT * FROM concept_mastery WHERE user_id = ? ORDER BY concept`)),
+        reviewCards: strip(rows(`SELECT * FROM review_cards WHERE user_id = ? ORDER BY id`)),
+        reviewLog: strip(rows(`
+          SELECT c.item_type, c.item_id, l.* FROM review_log l
+          JOIN review_cards c ON c.id = l.card_id
+          WHERE c.user_id = ?
+          ORDER BY l.id
+        `)).map(row => withoutKeys(row, 'card_id')),
+        weakAreas: strip(rows(`SELECT * FROM weak_areas WHERE user_id = ? ORDER BY id`))
+      }
+    };
+  }
+
+  /** Returns the problems that make `input` unimportable; empty if it's valid. */
+  validateArchive(input: unknown): string[] {
+    if (!input || typeof input !== 'object') {
+      return ['Archive must be a JSON object'];
+    }
+
+    const archive = input as Partial<ProgressArchive>;
+    if (archive.format !== PROGRESS_ARCHIVE_FORMAT) {
+      return [`Not a progress archive (expected format "${PROGRESS_ARCHIVE_FORMAT}")`];
+    }
+    if (archive.formatVersion !== PROGRESS_ARCHIVE_FORMAT_VERSION) {
+      return [`Unsupported archive format version ${archive.formatVersion}; this install reads version ${PROGRESS_ARCHIVE_FORMAT_VERSION}`];
+    }
+
+    const errors: string[] = [];
+    const schemaVersion = getSchemaVersion(getDatabase());
+    if (typeof archive.schemaVersion !== 'number') {
+      errors.push('schemaVersion is required');
+    } else if (archive.schemaVersion > schemaVersion) {
+      errors.push(
+        `Archive was exported at schema version ${archive.schemaVersion}, newer than this install (${schemaVersion}); update before importing`
+      );
+    }
+
+    const tables = (archive.tables || {}) as Partial<ProgressArchiveTables>;
+    const checkRow = (name: string, row: unknown) => {
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        errors.push(`${name}: every row must be an object`);
+        return;
+      }
+      for (const [column, value] of Object.entries(row)) {
+        if (value !== null && typeof value !== 'string' && typeof value !== 'number') {
+          errors.push(`${name}.${column}: values must be strings, numbers or null`);
+        }
+      }
+    };
+
+    if (tables.userProgress !== null && tables.userProgress !== undefined) {
+      checkRow('userProgress', tables.userProgress);
+    }
+    const listTables: Array<Exclude<keyof ProgressArchiveTables, 'userProgress'>> = [
+      'topicProgress', 'exerciseAttempts', 'sessionRecords', 'evaluationSessions',
+      'evaluationResponses', 'struggledConcepts', 'conceptMastery', 'reviewCards'
+    ];
+    for (const name of listTables) {
+      const rows = tables[name];
+      if (!Array.isArray(rows)) {
+        errors.push(`tables.${name} must be an array`);
+        continue;
+      }
+      rows.forEach(row => checkRow(name, row));
+    }
+    for (const name of ['reviewLog', 'weakAreas'] as const) {
+      const rows = tables[name];
+      if (rows === undefined) continue;
+      if (!Array.isArray(rows)) {
+        errors.push(`tables.${name} must be an array`);
+        continue;
+      }
+      rows.forEach(row => checkRow(name, row));
+    }
+
+    // Stop at the first few; a malformed export tends to repeat the same error
+    return Array.from(new Set(errors)).slice(0, 20);
+  }
+
+  /**
+   * Imports an archive that passed validateArchive, in a single transaction.
+   * Exercise ids the loaded curriculum doesn't know are dropped and reported.
+   */
+  importProgress(userId: string, archive: ProgressArchive, mode: ImportMode): ImportResult {
+    const db = getDatabase();
+    const skipped = new Set<string>();
+    const knownExercise = (id: unknown) => {
+      if (typeof id === 'string' && curriculumService.getExercise(id)) return true;
+      if (typeof id === 'string') skipped.add(id);
+      return false;
+    };
+    const filterExercises = (value: unknown) =>
+      JSON.stringify(parseJsonArray(value).filter(knownExercise));
+
+    const { tables } = archive;
+    const imported: ImportResult['imported'] = {
+      userProgress: 0,
+      topicProgress: 0,
+      exerciseAttempts: 0,
+      sessionRecords: 0,
+      evaluationSessions: 0,
+      evaluationResponses: 0,
+      struggledConcepts: 0,
+      conceptMastery: 0,
+      reviewCards: 0,
+      reviewLog: 0,
+      weakAreas: 0
+    };
+
+    db.transaction(() => {
+      if (mode === 'replace') {
+        this.deleteHistory(userId);
+      }
+
+      if (this.mergeUserProgress(userId, tables.userProgress, mode)) {
+        imported.userProgress = 1;
+      }
+
+      for (const row of tables.topicProgress) {
+        const cleaned = {
+          ...row,
+          completed_exercises: filterExercises(row.completed_exercises),
+          struggled_exercises: filterExercises(row.struggled_exercises)
+        };
+        if (this.mergeTopicProgress(userId, cleaned)) imported.topicProgress++;
+      }
+
+      for (const row of tables.exerciseAttempts) {
+        if (!knownExercise(row.exercise_id)) continue;
+        const exists = db.prepare(`
+          SELECT 1 FROM exercise_attempts
+          WHERE user_id = ? AND exercise_id = ? AND created_at IS ? AND submitted_query = ?
+        `).get(userId, row.exercise_id, row.created_at ?? null, row.submitted_query);
+        if (exists) continue;
+        this.insertRow('exercise_attempts', { ...row, user_id: userId });
+        imported.exerciseAttempts++;
+      }
+
+      for (const row of tables.sessionRecords) {
+        const exists = db.prepare(`
+          SELECT 1 FROM session_records WHERE user_id = ? AND start_time = ?
+        `).get(userId, row.start_time);
+        if (exists) continue;
+        this.insertRow('session_records', {
+          ...row,
+          user_id: userId,
+          exercises_attempted: filterExercises(row.exercises_attempted),
+          exercises_completed: filterExercises(row.exercises_completed)
+        });
+        imported.sessionRecords++;
+      }
+
+      // Sessions this user already has (same id, or same start if the id was
+      // remapped by an earlier import) are skipped along with their responses;
+      // an id taken by another user gets a fresh one
+      const sessionIds = new Map<string, string>();
+      for (const row of tables.evaluationSessions) {
+        const duplicate = db.prepare(`
+          SELECT 1 FROM evaluation_sessions WHERE user_id = ? AND (id = ? OR start_time = ?)
+        `).get(userId, row.id, row.start_time);
+        if (duplicate) continue;
+
+        const taken = db.prepare(`SELECT 1 FROM evaluation_sessions WHERE id = ?`).get(row.id);
+        const id = taken ? crypto.randomUUID() : String(row.id);
+        this.insertRow('evaluation_sessions', { ...row, id, user_id: userId });
+        sessionIds.set(String(row.id), id);
+        imported.evaluationSessions++;
+      }
+
+      for (const row of tables.evaluationResponses) {
+        const sessionId = sessionIds.get(String(row.session_id));
+        if (!sessionId) continue;
+        this.insertRow('evaluation_responses', { ...row, session_id: sessionId });
+        imported.evaluationResponses++;
+      }
+
+      for (const row of tables.struggledConcepts) {
+        const cleaned = { ...row, exercises_failed: filterExercises(row.exercises_failed) };
+        if (this.mergeStruggledConcept(userId, cleaned)) imported.struggledConcepts++;
+      }
+
+      for (const row of tables.conceptMastery) {
+        const existing = db.prepare(`
+          SELECT updated_at FROM concept_mastery WHERE user_id = ? AND concept = ?
+        `).get(userId, row.concept) as { updated_at: string } | undefined;
+        if (existing && later(existing.updated_at, row.updated_at) === existing.updated_at) continue;
+
+        db.prepare(`DELETE FROM concept_mastery WHERE user_id = ? AND concept = ?`).run(userId, row.concept);
+        this.insertRow('concept_mastery', { ...row, user_id: userId });
+        imported.conceptMastery++;
+      }
+
+      for (const row of tables.reviewCards) {
+        if (row.item_type === 'exercise' && !knownExercise(row.item_id)) continue;
+        const existing = db.prepare(`
+          SELECT last_reviewed_at FROM review_cards WHERE user_id = ? AND item_type = ? AND item_id = ?
+        `).get(userId, row.item_type, row.item_id) as { last_reviewed_at: string | null } | undefined;
+        if (existing && later(existing.last_reviewed_at, row.last_reviewed_at) === existing.last_reviewed_at) continue;
+
+        if (existing) {
+          this.updateRow('review_cards', row, 'user_id = ? AND item_type = ? AND item_id = ?', [userId, row.item_type, row.item_id]);
+        } else {
+          this.insertRow('review_cards', { ...row, user_id: userId });
+        }
+        imported.reviewCards++;
+      }
+
+      for (const row of tables.reviewLog ?? []) {
+        const card = db.prepare(`
+          SELECT id FROM review_cards WHERE user_id = ? AND item_type = ? AND item_id = ?
+        `).get(userId, row.item_type, row.item_id) as { id: number } | undefined;
+        if (!card) continue;
+        const exists = db.prepare(`
+          SELECT 1 FROM review_log WHERE card_id = ? AND reviewed_at = ?
+        `).get(card.id, row.reviewed_at);
+        if (exists) continue;
+        this.insertRow('review_log', { ...withoutKeys(row, 'item_type', 'item_id'), card_id: card.id });
+        imported.reviewLog++;
+      }
+
+      for (const row of tables.weakAreas ?? []) {
+        const existing = db.prepare(`
+          SELECT updated_at FROM weak_areas WHERE user_id = ? AND concept = ? AND topic_id = ?
+        `).get(userId, row.concept, row.topic_id) as { updated_at: string } | undefined;
+        if (existing && later(existing.updated_at, row.updated_at) === existing.updated_at) continue;
+
+        db.prepare(`
+          DELETE FROM weak_areas WHERE user_id = ? AND concept = ? AND topic_id = ?
+        `).run(userId, row.concept, row.topic_id);
+        this.insertRow('weak_areas', { ...row, user_id: userId });
+        imported.weakAreas++;
+      }
+    })();
+
+    return { mode, imported, skippedExerciseIds: Array.from(skipped).sort() };
+  }
+
+  private deleteHistory(userId: string): void {
+    const db = getDatabase();
+    db.prepare(`
+      DELETE FROM review_log WHERE card_id IN (SELECT id FROM review_cards WHERE user_id = ?)
+    `).run(userId);
+    db.prepare(`
+      DELETE FROM evaluation_responses WHERE session_id IN (SELECT id FROM evaluation_sessions WHERE user_id = ?)
+    `).run(userId);
+    for (const table of [
+      'review_cards',
+      'concept_mastery',
+      'struggled_concepts',
+      'weak_areas',
+      'evaluation_sessions',
+      'session_records',
+      'exercise_attempts',
+      'topic_progress'
+    ]) {
+      db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(userId);
+    }
+  }
+
+  /**
+   * Replace takes the archive's row as is. Merge keeps the higher counters
+   * and the streak and position from whichever side was active last.
+   */
+  private mergeUserProgress(userId: string, row: ArchiveRow | null, mode: ImportMode): boolean {
+    const db = getDatabase();
+    const existing = db.prepare(`SELECT * FROM user_progress WHERE user_id = ?`).get(userId) as any;
+
+    if (!existing) {
+      this.insertRow('user_progress', { ...(row || {}), user_id: userId });
+      return row !== null;
+    }
+    if (!row) return false;
+
+    if (mode === 'replace') {
+      this.updateRow('user_progress', row, 'user_id = ?', [userId]);
+      return true;
+    }
+
+    const archiveIsRecent = later(existing.last_activity_date, row.last_activity_date) !== existing.last_activity_date;
+    const recent = archiveIsRecent ? row : existing;
+    this.updateRow('user_progress', {
+      skill_rating: Math.max(existing.skill_rating ?? 1, Number(row.skill_rating ?? 1)),
+      total_exercises_completed: Math.max(existing.total_exercises_completed ?? 0, Number(row.total_exercises_completed ?? 0)),
+      total_time_spent_minutes: Math.max(existing.total_time_spent_minutes ?? 0, Number(row.total_time_spent_minutes ?? 0)),
+      streak: recent.streak ?? 0,
+      last_activity_date: recent.last_activity_date ?? null,
+      current_topic_id: recent.current_topic_id ?? null,
+      current_lesson_id: recent.current_lesson_id ?? null,
+      created_at: earlier(existing.created_at, row.created_at),
+      updated_at: new Date().toISOString()
+    }, 'user_id = ?', [userId]);
+    return true;
+  }
+
+  private mergeTopicProgress(userId: string, row: ArchiveRow): boolean {
+    const db = getDatabase();
+    const existing = db.prepare(`
+      SELECT * FROM topic_progress WHERE user_id = ? AND topic_id = ?
+    `).get(userId, row.topic_id) as any;
+
+    if (!existing) {
+      this.insertRow('topic_progress', { ...row, user_id: userId });
+      return true;
+    }
+
+    const status = (TOPIC_STATUS_RANK[String(row.status)] ?? 0) > (TOPIC_STATUS_RANK[existing.status] ?? 0)
+      ? row.status
+      : existing.status;
+    this.updateRow('topic_progress', {
+      status,
+      completed_lessons: union(existing.completed_lessons, row.completed_lessons),
+      completed_exercises: union(existing.completed_exercises, row.completed_exercises),
+      struggled_exercises: union(existing.struggled_exercises, row.struggled_exercises),
+      started_at: earlier(existing.started_at, row.started_at),
+      completed_at: status === 'completed' ? earlier(existing.completed_at, row.completed_at) : null,
+      mastery_level: Math.max(existing.mastery_level ?? 0, Number(row.mastery_level ?? 0)),
+      updated_at: later(existing.updated_at, row.updated_at)
+    }, 'id = ?', [existing.id]);
+    return true;
+  }
+
+  private mergeStruggledConcept(userId: string, row: ArchiveRow): boolean {
+    const db = getDatabase();
+    const existing = db.prepare(`
+      SELECT * FROM struggled_concepts WHERE user_id = ? AND concept = ? AND topic_id = ?
+    `).get(userId, row.concept, row.topic_id) as any;
+
+    if (!existing) {
+      this.insertRow('struggled_concepts', { ...row, user_id: userId });
+      return true;
+    }
+
+    this.updateRow('struggled_concepts', {
+      exercises_failed: union(existing.exercises_failed, row.exercises_failed),
+      first_struggle_date: earlier(existing.first_struggle_date, row.first_struggle_date),
+      last_struggle_date: later(existing.last_struggle_date, row.last_struggle_date),
+      struggle_count: Math.max(existing.struggle_count ?? 1, Number(row.struggle_count ?? 1))
+    }, 'id = ?', [existing.id]);
+    return true;
+  }
+
+  /**
+   * Inserts the columns of `row` that exist in `table`. Archives from older
+   * schemas simply lack newer columns, which then take their defaults.
+   * Surrogate ids are always assigned locally.
+   */
+  private insertRow(table: string, row: ArchiveRow): void {
+    const columns = Object.keys(row).filter(c => c !== 'id' || table === 'evaluation_sessions')
+      .filter(c => this.columnsOf(table).has(c));
+    getDatabase().prepare(`
+      INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+    `).run(...columns.map(c => row[c]));
+  }
+
+  private updateRow(table: string, row: ArchiveRow, where: string, params: unknown[]): void {
+    const columns = Object.keys(row).filter(c => c !== 'id' && c !== 'user_id' && this.columnsOf(table).has(c));
+    if (columns.length === 0) return;
+    getDatabase().prepare(`
+      UPDATE ${table} SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE ${where}
+    `).run(...columns.map(c => row[c]), ...params);
+  }
+
+  private columnsOf(table: string): Set<string> {
+    let columns = this.tableColumns.get(table);
+    if (!columns) {
+      const info = getDatabase().prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      columns = new Set(info.map(c => c.name));
+      this.tableColumns.set(table, columns);
+    }
+    return columns;
+  }
+}
+
+export const archiveService = new ArchiveService();
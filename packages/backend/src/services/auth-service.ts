@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { getDatabase } from '../db/index.js';
+import type { AuthResponse, User } from '@learn-pg/shared';
+
+const TOKEN_TTL_DAYS = 30;
+const SCRYPT_KEY_LENGTH = 64;
+
+// Tables whose rows belong to a user; 'default' rows from before accounts
+// existed are handed to the first account
+const USER_TABLES = [
+  'user_progress',
+  'topic_progress',
+  'exercise_attempts',
+  'session_records',
+  'struggled_concepts',
+  'weak_areas',
+  'evaluation_sessions',
+  'concept_mastery',
+  'review_cards'
+];
+
+function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class AuthService {
+  getUserByUsername(username: string): User | undefined {
+    const db = getDatabase();
+    const row = db.prepare(`SELECT * FROM users WHERE username = ?`).get(username) as any;
+    return row ? this.toUser(row) : undefined;
+  }
+
+  register(username: string, password: string): AuthResponse {
+    const db = getDatabase();
+    const id = crypto.randomUUID();
+
+    db.transaction(() => {
+      const { count } = db.prepare(`SELECT COUNT(*) AS count FROM users`).get() as { count: number };
+
+      // The first account is the admin
+      db.prepare(`
+        INSERT INTO users (id, username, password_hash, is_admin) VALUES (?, ?, ?, ?)
+      `).run(id, username, hashPassword(password), count === 0 ? 1 : 0);
+
+      if (count === 0) {
+        this.adoptDefaultData(id);
+      } else {
+        db.prepare(`INSERT INTO user_progress (user_id) VALUES (?)`).run(id);
+      }
+    })();
+
+    return { user: this.getUserById(id)!, token: this.issueToken(id) };
+  }
+
+  /** Returns null when the username or password is wrong. */
+  login(username: string, password: string): AuthResponse | null {
+    const db = getDatabase();
+    const row = db.prepare(`SELECT * FROM users WHERE username = ?`).get(username) as any;
+
+    if (!row || !verifyPassword(password, row.password_hash)) {
+      return null;
+    }
+
+    return { user: this.toUser(row), token: this.issueToken(row.id) };
+  }
+
+  /** Resolves a bearer token to its user, or null if unknown or expired. */
+  authenticate(token: string): User | null {
+    const db = getDatabase();
+    const row = db.prepare(`
+      SELECT u.* FROM auth_tokens t
+      JOIN users u ON u.id = t.user_id
+      WHERE t.token_hash = ? AND t.expires_at > ?
+    `).get(hashToken(token), new Date().toISOString()) as any;
+
+    return row ? this.toUser(row) : null;
+  }
+
+  logout(token: string): void {
+    const db = getDatabase();
+    db.prepare(`DELETE FROM auth_tokens WHERE token_hash = ?`).run(hashToken(token));
+  }
+
+  private getUserById(id: string): User | undefined {
+    const db = getDatabase();
+    const row = db.prepare(`SELECT * FROM users WHERE id = ?`).get(id) as any;
+    return row ? this.toUser(row) : undefined;
+  }
+
+  private issueToken(userId: string): string {
+    const db = getDatabase();
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    db.prepare(`
+      INSERT INTO auth_tokens (token_hash, user_id, expires_at) VALUES (?, ?, ?)
+    `).run(hashToken(token), userId, expiresAt);
+
+    return token;
+  }
+
+  /**
+   * Re-keys progress recorded before accounts existed. Must run inside a
+   * transaction; foreign keys are checked at commit so the parent
+   * user_progress row and its children can move together.
+   */
+  private adoptDefaultData(userId: string): void {
+    const db = getDatabase();
+    db.pragma('defer_foreign_keys = ON');
+
+    for (const table of USER_TABLES) {
+      db.prepare(`UPDATE ${table} SET user_id = ? WHERE user_id = 'default'`).run(userId);
+    }
+
+    db.prepare(`INSERT OR IGNORE INTO user_progress (user_id) VALUES (?)`).run(userId);
+  }
+
+  private toUser(row: any): User {
+    return {
+      id: row.id,
+      username: row.username,
+      isAdmin: row.is_admin === 1,
+      createdAt: row.created_at
+    };
+  }
+}
+
+export const authService = new AuthService();
@@ -1,103 +1,434 @@
-import { readFileSync, readdirSync, existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { readFileSync, readdirSync, existsSync, watch, type FSWatcher } from 'fs';
+import { join, dirname, relative, sep } from 'path';
 import { fileURLToPath } from 'url';
 import matter from 'gray-matter';
-import type { Topic, Lesson, Exercise } from '@learn-pg/shared';
+import type {
+  CustomValidator,
+  Topic,
+  Lesson,
+  Exercise,
+  ValidationConfig,
+  MultiSessionExercise,
+  SQLQueryExercise,
+  CurriculumProblem,
+  CurriculumChangeEvent
+} from '@learn-pg/shared';
+import { validatorRegistry, type ValidatorRegistry } from '../validators/registry.js';
+import { findRules } from '../validators/rules.js';
+import { referenceSolutionService } from './reference-solution-service.js';
+import { validate } from '../curriculum/schema.js';
+import { topicMetaSchema, lessonFrontmatterSchema, exerciseSchema } from '../curriculum/content-schemas.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+const WATCH_DEBOUNCE_MS = 200;
+
+/** A topic directory as last read from disk; `topic` is absent if it could not be loaded. */
+interface LoadedTopic {
+  topic?: Topic;
+  problems: CurriculumProblem[];
+  validators: Map<string, Record<string, CustomValidator>>; // exercises file -> the validators it exports
+}
+
 export class CurriculumService {
   private topics: Map<string, Topic> = new Map();
   private lessons: Map<string, Lesson> = new Map();
   private exercises: Map<string, Exercise> = new Map();
+  private loaded: Map<string, LoadedTopic> = new Map();
+  private problems: CurriculumProblem[] = [];
   private curriculumPath: string;
 
+  private watching = false;
+  private watchers: Map<string, FSWatcher> = new Map(); // directory -> watcher
+  private pendingReloads: Map<string, NodeJS.Timeout> = new Map();
+  private reloadQueue: Promise<void> = Promise.resolve();
+  private importVersion = 0;
+  private listeners: Set<(event: CurriculumChangeEvent) => void> = new Set();
+
   constructor(curriculumPath?: string) {
     this.curriculumPath = curriculumPath || join(__dirname, '../../../../curriculum');
   }
 
+  private get topicsPath(): string {
+    return join(this.curriculumPath, 'topics');
+  }
+
   async loadCurriculum(): Promise<void> {
-    const topicsPath = join(this.curriculumPath, 'topics');
+    referenceSolutionService.clear();
 
-    if (!existsSync(topicsPath)) {
-      console.warn(`Curriculum path does not exist: ${topicsPath}`);
+    if (!existsSync(this.topicsPath)) {
+      console.warn(`Curriculum path does not exist: ${this.topicsPath}`);
       return;
     }
 
-    const topicDirs = readdirSync(topicsPath, { withFileTypes: true })
+    const topicDirs = readdirSync(this.topicsPath, { withFileTypes: true })
       .filter(dirent => dirent.isDirectory())
       .map(dirent => dirent.name);
 
+    const loaded = new Map<string, LoadedTopic>();
     for (const topicDir of topicDirs) {
-      const topicPath = join(topicsPath, topicDir);
-      const metaPath = join(topicPath, 'meta.json');
+      loaded.set(topicDir, await this.loadTopic(topicDir));
+    }
+
+    this.swap(loaded);
+  }
+
+  /**
+   * Re-reads one topic directory and swaps it in. If the result fails the
+   * validation config check, the previous content stays and this throws.
+   */
+  async reloadTopic(topicDir: string): Promise<CurriculumChangeEvent> {
+    const previous = this.topics.get(topicDir);
+    const result = existsSync(join(this.topicsPath, topicDir))
+      ? await this.loadTopic(topicDir)
+      : undefined;
+
+    // Copy after the await so a reload of another topic isn't lost
+    const loaded = new Map(this.loaded);
+    if (result) {
+      loaded.set(topicDir, result);
+    } else {
+      loaded.delete(topicDir);
+    }
+    this.swap(loaded);
+
+    const lessonIds = new Set([
+      ...(previous?.lessons ?? []).map(l => l.id),
+      ...(result?.topic?.lessons ?? []).map(l => l.id)
+    ]);
+    return { topicId: topicDir, lessonIds: Array.from(lessonIds) };
+  }
 
-      if (!existsSync(metaPath)) {
+  /**
+   * Watches the topics directory and reloads a topic when any of its files
+   * change, then notifies onChange listeners. Meant for authoring: every
+   * reload imports the topic's exercise modules again under a new URL, and
+   * Node never unloads the old ones.
+   */
+  watch(): void {
+    if (this.watching || !existsSync(this.topicsPath)) return;
+    this.watching = true;
+    this.syncWatchers();
+  }
+
+  unwatch(): void {
+    this.watching = false;
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    this.pendingReloads.forEach(timer => clearTimeout(timer));
+    this.pendingReloads.clear();
+  }
+
+  /** Registers a listener for topic reloads; returns a function that removes it. */
+  onChange(listener: (event: CurriculumChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * One non-recursive watcher per directory: a recursive watcher on Linux
+   * stops seeing a file once an editor saves it by renaming a new one over it.
+   * Called again after each reload to follow added and removed directories.
+   */
+  private syncWatchers(): void {
+    const dirs = new Map<string, (filename: string) => boolean>();
+    dirs.set(this.topicsPath, filename => !filename.startsWith('.'));
+
+    for (const dirent of readdirSync(this.topicsPath, { withFileTypes: true })) {
+      if (!dirent.isDirectory()) continue;
+      const topicPath = join(this.topicsPath, dirent.name);
+      dirs.set(topicPath, filename => ['meta.json', 'lessons', 'exercises'].includes(filename));
+      for (const subdir of ['lessons', 'exercises']) {
+        if (existsSync(join(topicPath, subdir))) {
+          dirs.set(join(topicPath, subdir), filename => /\.(md|ts)$/.test(filename));
+        }
+      }
+    }
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+
+    for (const [dir, isContent] of dirs) {
+      if (this.watchers.has(dir)) continue;
+      const watcher = watch(dir, (_event, filename) => {
+        if (!filename || !isContent(filename)) return;
+        const topicDir = dir === this.topicsPath ? filename : relative(this.topicsPath, dir).split(sep)[0];
+        this.scheduleReload(topicDir);
+      });
+      watcher.on('error', () => watcher.close()); // the directory was removed
+      this.watchers.set(dir, watcher);
+    }
+  }
+
+  private scheduleReload(topicDir: string): void {
+    // Editors write a file in several steps; reload once they are done
+    clearTimeout(this.pendingReloads.get(topicDir));
+    this.pendingReloads.set(topicDir, setTimeout(() => {
+      this.pendingReloads.delete(topicDir);
+      this.reloadQueue = this.reloadQueue.then(() => this.reloadAndNotify(topicDir));
+    }, WATCH_DEBOUNCE_MS));
+  }
+
+  private async reloadAndNotify(topicDir: string): Promise<void> {
+    if (!this.watching) return;
+    if (existsSync(this.topicsPath)) {
+      this.syncWatchers();
+    }
+
+    let event: CurriculumChangeEvent;
+    try {
+      event = await this.reloadTopic(topicDir);
+    } catch (error: any) {
+      console.error(`Failed to reload curriculum topic ${topicDir}: ${error.message}`);
+      return;
+    }
+
+    const problems = this.problems.length;
+    console.log(`Reloaded curriculum topic ${topicDir}${problems > 0 ? ` (${problems} problems)` : ''}`);
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private async loadTopic(topicDir: string): Promise<LoadedTopic> {
+    const problems: CurriculumProblem[] = [];
+    const report = (severity: CurriculumProblem['severity'], path: string, message: string) => {
+      problems.push({ severity, file: relative(this.curriculumPath, path), message });
+    };
+    const reportAll = (path: string, messages: string[]) => {
+      messages.forEach(message => report('error', path, message));
+    };
+    // Registered by swap, so a load that fails keeps the previous ones
+    const validators = new Map<string, Record<string, CustomValidator>>();
+
+    const topicPath = join(this.topicsPath, topicDir);
+    const metaPath = join(topicPath, 'meta.json');
+
+    if (!existsSync(metaPath)) {
+      report('warning', topicPath, 'no meta.json, topic skipped');
+      return { problems, validators };
+    }
+
+    let meta: any;
+    try {
+      meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
+    } catch (error: any) {
+      report('error', metaPath, `invalid JSON, topic skipped: ${error.message}`);
+      return { problems, validators };
+    }
+    reportAll(metaPath, validate(topicMetaSchema, meta));
+
+    const topic: Topic = {
+      id: topicDir,
+      title: meta.title,
+      description: meta.description,
+      level: meta.level,
+      estimatedWeeks: meta.estimatedWeeks,
+      prerequisites: meta.prerequisites || [],
+      lessons: [],
+      order: meta.order || 0
+    };
+
+    // Load lessons for this topic
+    const lessonsPath = join(topicPath, 'lessons');
+    const lessonFiles = existsSync(lessonsPath)
+      ? readdirSync(lessonsPath).filter(f => f.endsWith('.md')).sort()
+      : [];
+    const version = ++this.importVersion;
+
+    for (let i = 0; i < lessonFiles.length; i++) {
+      const lessonFile = lessonFiles[i];
+      const lessonPath = join(lessonsPath, lessonFile);
+      const lessonId = `${topicDir}-${lessonFile.replace('.md', '')}`;
+
+      let parsed: matter.GrayMatterFile<string>;
+      try {
+        parsed = matter(readFileSync(lessonPath, 'utf-8'));
+      } catch (error: any) {
+        report('error', lessonPath, `invalid frontmatter, lesson skipped: ${error.message}`);
         continue;
       }
+      const { data, content } = parsed;
+      reportAll(lessonPath, validate(lessonFrontmatterSchema, data, 'frontmatter'));
 
-      const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-      const topic: Topic = {
-        id: topicDir,
-        title: meta.title,
-        description: meta.description,
-        level: meta.level,
-        estimatedWeeks: meta.estimatedWeeks,
-        prerequisites: meta.prerequisites || [],
-        lessons: [],
-        order: meta.order || 0
+      const lesson: Lesson = {
+        id: lessonId,
+        topicId: topicDir,
+        title: data.title || 'Untitled Lesson',
+        description: data.description || '',
+        content,
+        exercises: [],
+        order: i,
+        estimatedMinutes: data.estimatedMinutes || 30
       };
 
-      // Load lessons for this topic
-      const lessonsPath = join(topicPath, 'lessons');
-      if (existsSync(lessonsPath)) {
-        const lessonFiles = readdirSync(lessonsPath)
-          .filter(f => f.endsWith('.md'))
-          .sort();
-
-        for (let i = 0; i < lessonFiles.length; i++) {
-          const lessonFile = lessonFiles[i];
-          const lessonPath = join(lessonsPath, lessonFile);
-          const lessonId = `${topicDir}-${lessonFile.replace('.md', '')}`;
-
-          const fileContent = readFileSync(lessonPath, 'utf-8');
-          const { data, content } = matter(fileContent);
-
-          const lesson: Lesson = {
-            id: lessonId,
-            topicId: topicDir,
-            title: data.title || 'Untitled Lesson',
-            description: data.description || '',
-            content,
-            exercises: [],
-            order: i,
-            estimatedMinutes: data.estimatedMinutes || 30
-          };
-
-          // Load exercises for this lesson
-          const exercisesPath = join(topicPath, 'exercises', lessonFile.replace('.md', '.ts'));
-          if (existsSync(exercisesPath)) {
-            try {
-              const exerciseModule = await import(exercisesPath);
-              if (exerciseModule.exercises && Array.isArray(exerciseModule.exercises)) {
-                lesson.exercises = exerciseModule.exercises.map((ex: Exercise) => {
-                  const exerciseId = `${lessonId}-${ex.id}`;
-                  const fullExercise = { ...ex, id: exerciseId, lessonId };
-                  this.exercises.set(exerciseId, fullExercise);
-                  return fullExercise;
-                });
-              }
-            } catch (error) {
-              console.warn(`Failed to load exercises for ${lessonId}:`, error);
+      // Load exercises for this lesson
+      const exercisesPath = join(topicPath, 'exercises', lessonFile.replace('.md', '.ts'));
+      if (existsSync(exercisesPath)) {
+        let exerciseModule: any;
+        try {
+          // The query string makes a reload import the edited file, not the cached module
+          exerciseModule = await import(`${exercisesPath}?v=${version}`);
+        } catch (error: any) {
+          report('error', exercisesPath, `failed to import: ${error.message}`);
+        }
+
+        if (exerciseModule && !Array.isArray(exerciseModule.exercises)) {
+          report('error', exercisesPath, 'does not export an exercises array');
+        } else if (exerciseModule) {
+          const ids = new Set<string>();
+          lesson.exercises = exerciseModule.exercises.map((ex: Exercise, idx: number) => {
+            const label = typeof ex?.id === 'string' ? ex.id : `exercises[${idx}]`;
+            reportAll(exercisesPath, validate(exerciseSchema, ex, label));
+
+            const exerciseId = `${lessonId}-${ex.id}`;
+            if (ids.has(exerciseId)) {
+              report('error', exercisesPath, `duplicate exercise id ${exerciseId}`);
             }
-          }
+            ids.add(exerciseId);
+            return { ...ex, id: exerciseId, lessonId, concepts: ex.concepts ?? [] };
+          });
+        }
 
-          this.lessons.set(lessonId, lesson);
-          topic.lessons.push(lesson);
+        if (exerciseModule?.validators) {
+          validators.set(exercisesPath, exerciseModule.validators);
         }
+      } else {
+        report('warning', lessonPath, `no exercises file (expected exercises/${lessonFile.replace('.md', '.ts')})`);
       }
 
-      this.topics.set(topicDir, topic);
+      topic.lessons.push(lesson);
+    }
+
+    // An exercises file is only loaded through the lesson it is named after
+    const exercisesDir = join(topicPath, 'exercises');
+    if (existsSync(exercisesDir)) {
+      for (const file of readdirSync(exercisesDir).filter(f => f.endsWith('.ts')).sort()) {
+        if (!lessonFiles.includes(file.replace(/\.ts$/, '.md'))) {
+          report('error', join(exercisesDir, file), 'no lesson with the same name, so these exercises never load');
+        }
+      }
+    }
+
+    return { topic, problems, validators };
+  }
+
+  /**
+   * Builds the lookup maps and validator registrations from `loaded` and
+   * replaces the current ones in a single synchronous step, so requests never
+   * see a half-loaded curriculum. Throws, changing nothing, if a validator
+   * name is taken twice or a validation config doesn't check out.
+   */
+  private swap(loaded: Map<string, LoadedTopic>): void {
+    const topics = new Map<string, Topic>();
+    const lessons = new Map<string, Lesson>();
+    const exercises = new Map<string, Exercise>();
+    const problems: CurriculumProblem[] = [];
+
+    for (const [topicDir, { topic, problems: topicProblems }] of loaded) {
+      problems.push(...topicProblems);
+      if (!topic) continue;
+
+      topics.set(topicDir, topic);
+      for (const lesson of topic.lessons) {
+        if (lessons.has(lesson.id)) {
+          problems.push({ severity: 'error', file: `topics/${topicDir}/lessons`, message: `duplicate lesson id ${lesson.id}` });
+        }
+        lessons.set(lesson.id, lesson);
+        lesson.exercises.forEach(exercise => exercises.set(exercise.id, exercise));
+      }
+    }
+
+    problems.push(...this.checkPrerequisites(topics));
+    const registry = validatorRegistry.withSources(
+      new Map(Array.from(loaded.values()).flatMap(({ validators }) => Array.from(validators)))
+    );
+    this.checkValidationConfigs(exercises, registry);
+
+    validatorRegistry.replaceWith(registry);
+    this.topics = topics;
+    this.lessons = lessons;
+    this.exercises = exercises;
+    this.loaded = loaded;
+    this.problems = problems;
+  }
+
+  /** Problems found by the last load; content with problems still loads where it can. */
+  getProblems(): CurriculumProblem[] {
+    return [...this.problems];
+  }
+
+  /** Prerequisites must name existing topics and must not loop back on themselves. */
+  private checkPrerequisites(topics: Map<string, Topic>): CurriculumProblem[] {
+    const problems: CurriculumProblem[] = [];
+    const report = (topicId: string, message: string) => {
+      problems.push({ severity: 'error', file: `topics/${topicId}/meta.json`, message });
+    };
+
+    for (const topic of topics.values()) {
+      for (const prereqId of topic.prerequisites) {
+        if (!topics.has(prereqId)) {
+          report(topic.id, `unknown prerequisite ${prereqId}`);
+        }
+      }
+    }
+
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (id: string) => {
+      const start = path.indexOf(id);
+      if (start !== -1) {
+        report(id, `prerequisite cycle: ${[...path.slice(start), id].join(' -> ')}`);
+        return;
+      }
+      if (done.has(id) || !topics.has(id)) return;
+
+      path.push(id);
+      topics.get(id)!.prerequisites.forEach(visit);
+      path.pop();
+      done.add(id);
+    };
+
+    Array.from(topics.keys()).sort().forEach(visit);
+    return problems;
+  }
+
+  /**
+   * Catch validation configs that can only fail at submission time: a
+   * 'custom' check naming an unregistered validator, or a 'solution-match'
+   * check without a solution query.
+   */
+  private checkValidationConfigs(exercises: Map<string, Exercise>, registry: ValidatorRegistry): void {
+    const problems: string[] = [];
+
+    const check = (exercise: Exercise, label: string, config?: ValidationConfig) => {
+      for (const rules of findRules(config, 'custom')) {
+        const name = rules?.validatorFunction;
+        if (!name || !registry.has(name)) {
+          problems.push(`${label}: unknown custom validator ${name || '(no validatorFunction)'}`);
+        }
+      }
+      for (const rules of findRules(config, 'solution-match')) {
+        if (!rules?.solutionQuery && !(exercise as SQLQueryExercise).solutionQuery) {
+          problems.push(`${label}: solution-match without a solutionQuery`);
+        }
+      }
+    };
+
+    for (const exercise of exercises.values()) {
+      check(exercise, exercise.id, exercise.validation);
+      if (exercise.type === 'multi-session') {
+        (exercise as MultiSessionExercise).steps?.forEach((step, idx) => {
+          check(exercise, `${exercise.id} step ${idx + 1}`, step.validation);
+        });
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid exercise validation configs:\n  ${problems.join('\n  ')}`);
     }
   }
 
@@ -129,6 +460,21 @@ export class CurriculumService {
       .sort((a, b) => a.order - b.order);
   }
 
+  getExercisesForConcept(concept: string): Exercise[] {
+    return Array.from(this.exercises.values())
+      .filter(e => e.concepts.includes(concept));
+  }
+
+  getConceptsForTopic(topicId: string): string[] {
+    const concepts = new Set<string>();
+    for (const lesson of this.getLessonsForTopic(topicId)) {
+      for (const exercise of this.getExercisesForLesson(lesson.id)) {
+        exercise.concepts.forEach(c => concepts.add(c));
+      }
+    }
+    return Array.from(concepts);
+  }
+
   searchTopics(query: string): Topic[] {
     const lowerQuery = query.toLowerCase();
     return Array.from(this.topics.values())
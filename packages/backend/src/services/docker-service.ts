@@ -1,8 +1,19 @@
 import Docker from 'dockerode';
-import { Client } from 'pg';
+import { Pool, escapeIdentifier, type PoolClient } from 'pg';
+import type { ExecutionMode, ValidatorQueryClient } from '@learn-pg/shared';
+import { splitStatementRanges, splitStatements, transactionControl } from '../sql/statements.js';
 
 const docker = new Docker();
 
+const DEFAULT_TIMEOUT_MS = 5000;
+const LEARNER_SAVEPOINT = 'learnpg_learner_transaction';
+const VALIDATOR_SAVEPOINT = 'learnpg_validator_query';
+
+/** Schema names are quoted, never interpolated as SQL. */
+function searchPath(schema: string): string {
+  return `${escapeIdentifier(schema)}, public`;
+}
+
 export interface PostgresConfig {
   host: string;
   port: number;
@@ -11,7 +22,41 @@ export interface PostgresConfig {
   database: string;
 }
 
+// Learner queries, superuser queries for internals exercises, and queries through PgDog
+export type PoolRole = 'learner' | 'admin' | 'pgdog';
+
+export interface PoolMetrics {
+  total: number;
+  active: number; // Checked out and running a query
+  idle: number;
+  waiting: number; // Callers queued for a free connection
+}
+
+/** One statement of learner SQL and what it returned. */
+export interface StatementRun {
+  sql: string;
+  offset: number; // Where the statement starts in the submitted SQL
+  result?: any; // pg result, unless the statement failed
+  error?: any; // pg error, with its `position` relative to this statement
+  executionTimeMs: number;
+}
+
+/** One connection shared by a submission and the validators that inspect its effects. */
+export interface LearnerSession extends ValidatorQueryClient {
+  /** Runs learner SQL one statement at a time and returns the last statement's result. */
+  execute(sql: string): Promise<any>;
+  /** Runs learner SQL one statement at a time, stopping after the first that fails. */
+  executeEach(sql: string): Promise<StatementRun[]>;
+}
+
+interface SessionOptions {
+  schema?: string; // Searched before public
+  timeoutMs?: number; // statement_timeout; 0 disables it
+  rollback?: boolean; // Run in a transaction that is rolled back
+}
+
 export class DockerService {
+  private pools = new Map<PoolRole, Pool>();
   private containerName = 'learn-pg-postgres';
   private config: PostgresConfig = {
     host: 'localhost',
@@ -79,10 +124,7 @@ export class DockerService {
     const start = Date.now();
     while (Date.now() - start < timeoutMs) {
       try {
-        const client = new Client(this.config);
-        await client.connect();
-        await client.query('SELECT 1');
-        await client.end();
+        await this.pool('learner').query('SELECT 1');
         return;
       } catch {
         await new Promise(resolve => setTimeout(resolve, 1000));
@@ -92,8 +134,8 @@ export class DockerService {
   }
 
   // When pg processes multi-statement queries (e.g. "PREPARE ...; EXECUTE ...;"),
-  // it returns an array of results. Extract the last result since that's the
-  // meaningful one for validation (e.g. the EXECUTE result, not the PREPARE result).
+  // it returns an array of results. Internal queries only need the last one;
+  // learner submissions are split first so every statement's result is kept.
   private extractResult(result: any): any {
     if (Array.isArray(result)) {
       return result[result.length - 1];
@@ -101,142 +143,337 @@ export class DockerService {
     return result;
   }
 
-  async executeQuery(query: string, params?: any[], timeoutMs: number = 5000): Promise<any> {
-    const client = new Client(this.config);
-    try {
-      await client.connect();
-
-      // Set statement timeout
-      await client.query(`SET statement_timeout = ${timeoutMs}`);
-
-      const result = await client.query(query, params);
-      return this.extractResult(result);
-    } finally {
-      await client.end();
+  private pool(role: PoolRole): Pool {
+    let pool = this.pools.get(role);
+    if (!pool) {
+      const config = role === 'admin' ? this.adminConfig : role === 'pgdog' ? this.pgdogConfig : this.config;
+      pool = new Pool({
+        ...config,
+        max: 10,
+        idleTimeoutMillis: 30000,
+        // Sent with the connection, so it is also what DISCARD ALL restores
+        statement_timeout: DEFAULT_TIMEOUT_MS,
+        allowExitOnIdle: true
+      });
+      // A pooled connection dropped by the server while idle must not crash the process
+      pool.on('error', error => console.warn(`Idle ${role} connection failed:`, error.message));
+      this.pools.set(role, pool);
     }
+    return pool;
   }
 
-  async executeQueryWithSchema(query: string, schema: string, params?: any[], timeoutMs: number = 5000): Promise<any> {
-    const client = new Client(this.config);
+  /**
+   * Runs `fn` on a pooled connection. Learner SQL can leave anything behind
+   * (open transactions, SET, temp tables, advisory locks, LISTEN), so the
+   * session is rolled back and discarded before the connection is reused,
+   * and a connection that can't be reset is closed instead.
+   */
+  private async withClient<T>(
+    role: PoolRole,
+    options: SessionOptions,
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool(role).connect();
     try {
-      await client.connect();
-      await client.query(`SET statement_timeout = ${timeoutMs}`);
-      await client.query(`SET search_path TO ${schema}, public`);
-      const result = await client.query(query, params);
-      return this.extractResult(result);
+      const { schema, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+      if (timeoutMs !== DEFAULT_TIMEOUT_MS) {
+        await client.query(`SELECT set_config('statement_timeout', $1, false)`, [String(timeoutMs)]);
+      }
+      if (schema) {
+        await client.query(`SELECT set_config('search_path', $1, false)`, [searchPath(schema)]);
+      }
+      return await fn(client);
     } finally {
-      await client.end();
+      try {
+        await client.query('ROLLBACK');
+        await client.query('DISCARD ALL');
+        client.release();
+      } catch (error) {
+        client.release(error as Error);
+      }
     }
   }
 
-  async executeQueryAsAdmin(query: string, params?: any[], timeoutMs: number = 5000): Promise<any> {
-    const client = new Client(this.adminConfig);
-    try {
-      await client.connect();
-      await client.query(`SET statement_timeout = ${timeoutMs}`);
-      const result = await client.query(query, params);
-      return this.extractResult(result);
-    } finally {
-      await client.end();
-    }
+  private async run(role: PoolRole, query: string, params: any[] | undefined, options: SessionOptions): Promise<any> {
+    return this.withClient(role, options, async client => {
+      // withClient rolls back whatever is left open
+      if (options.rollback) {
+        await client.query('BEGIN');
+      }
+      return this.extractResult(await client.query(query, params));
+    });
   }
 
-  async executeQueryWithSchemaAsAdmin(query: string, schema: string, params?: any[], timeoutMs: number = 5000): Promise<any> {
-    const client = new Client(this.adminConfig);
-    try {
-      await client.connect();
-      await client.query(`SET statement_timeout = ${timeoutMs}`);
-      await client.query(`SET search_path TO ${schema}, public`);
-      const result = await client.query(query, params);
-      return this.extractResult(result);
-    } finally {
-      await client.end();
-    }
+  async executeQuery(query: string, params?: any[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<any> {
+    return this.run('learner', query, params, { timeoutMs });
   }
 
-  async executeQueryViaPgdog(query: string, params?: any[], timeoutMs: number = 5000): Promise<any> {
-    const client = new Client(this.pgdogConfig);
-    try {
-      await client.connect();
-      await client.query(`SET statement_timeout = ${timeoutMs}`);
-      const result = await client.query(query, params);
-      return this.extractResult(result);
-    } finally {
-      await client.end();
-    }
+  async executeQueryWithSchema(query: string, schema: string, params?: any[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<any> {
+    return this.run('learner', query, params, { schema, timeoutMs });
+  }
+
+  async executeQueryAsAdmin(query: string, params?: any[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<any> {
+    return this.run('admin', query, params, { timeoutMs });
+  }
+
+  async executeQueryWithSchemaAsAdmin(query: string, schema: string, params?: any[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<any> {
+    return this.run('admin', query, params, { schema, timeoutMs });
+  }
+
+  async executeQueryViaPgdog(query: string, params?: any[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<any> {
+    return this.run('pgdog', query, params, { timeoutMs });
+  }
+
+  /**
+   * A query client bound to one schema and role, handed to custom validators
+   * so they can inspect the exercise state after the learner's query ran.
+   */
+  scopedClient(schema: string, useSuperuser: boolean = false): ValidatorQueryClient {
+    return {
+      query: (sql: string, params?: any[], options: { rollback?: boolean } = {}) =>
+        this.run(useSuperuser ? 'admin' : 'learner', sql, params, { schema, rollback: options.rollback })
+    };
   }
 
   async isPgdogRunning(): Promise<boolean> {
     try {
-      const client = new Client(this.pgdogConfig);
-      await client.connect();
-      await client.query('SELECT 1');
-      await client.end();
+      await this.pool('pgdog').query('SELECT 1');
       return true;
     } catch {
       return false;
     }
   }
 
-  async executeExplain(query: string, schema?: string, params?: any[]): Promise<any> {
+  /** Runs on `db` when given, e.g. a LearnerSession, else on a fresh connection. */
+  /** ANALYZE runs the query, so its changes are always rolled back. */
+  async executeExplain(query: string, schema?: string, params?: any[], db?: ValidatorQueryClient): Promise<any> {
     const explainQuery = `EXPLAIN (ANALYZE, BUFFERS, VERBOSE, FORMAT JSON) ${query}`;
-    if (schema) {
-      const result = await this.executeQueryWithSchema(explainQuery, schema, params);
-      return result.rows[0]['QUERY PLAN'];
-    }
-    const result = await this.executeQuery(explainQuery, params);
+    const result = db
+      ? await db.query(explainQuery, params, { rollback: true })
+      : await this.run('learner', explainQuery, params, { schema, rollback: true });
     return result.rows[0]['QUERY PLAN'];
   }
 
-  async resetSchema(schema: string, useSuperuser: boolean = false): Promise<void> {
-    const client = new Client(useSuperuser ? this.adminConfig : this.config);
-    try {
-      await client.connect();
-      await client.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`);
-      await client.query(`CREATE SCHEMA ${schema}`);
-      await client.query(`GRANT ALL ON SCHEMA ${schema} TO ${this.config.user}`);
-      if (useSuperuser) {
-        await client.query(`GRANT ALL ON SCHEMA ${schema} TO ${this.adminConfig.user}`);
+  /**
+   * Opens a session for grading a submission in `schema`. In 'rollback' mode
+   * everything runs in one transaction that is rolled back when `fn` returns,
+   * so validators see the learner's changes but the fixture data survives.
+   */
+  async withLearnerSession<T>(
+    schema: string,
+    options: { useSuperuser?: boolean; mode: ExecutionMode },
+    fn: (session: LearnerSession) => Promise<T>
+  ): Promise<T> {
+    const inTransaction = options.mode === 'rollback';
+    const role = options.useSuperuser ? 'admin' : 'learner';
+
+    // withClient rolls the transaction back
+    return this.withClient(role, inTransaction ? {} : { schema }, async client => {
+      if (inTransaction) {
+        await client.query('BEGIN');
+        await client.query(`SELECT set_config('search_path', $1, true)`, [searchPath(schema)]);
       }
-    } finally {
-      await client.end();
+      return fn({
+        execute: sql => this.executeStatements(client, sql, inTransaction),
+        executeEach: sql => this.runStatements(client, sql, inTransaction),
+        query: (sql, params, queryOptions = {}) =>
+          this.executeValidatorQuery(client, sql, params, inTransaction, queryOptions.rollback ?? false)
+      });
+    });
+  }
+
+  /** Like runStatements, throwing the first error and otherwise returning the last result. */
+  private async executeStatements(client: PoolClient, sql: string, inTransaction: boolean): Promise<any> {
+    const runs = await this.runStatements(client, sql, inTransaction);
+    const last = runs[runs.length - 1];
+    if (last.error) throw last.error;
+    return last.result;
+  }
+
+  /**
+   * Runs statements one by one, so a statement like VACUUM that refuses to
+   * run in a multi-statement query works. Inside a transaction the learner's
+   * BEGIN/COMMIT/ROLLBACK are mapped onto a savepoint instead of ending it.
+   */
+  private async runStatements(client: PoolClient, sql: string, inTransaction: boolean): Promise<StatementRun[]> {
+    const statements = splitStatementRanges(sql);
+    if (statements.length === 0) {
+      statements.push({ sql, offset: 0 });
     }
+
+    const runs: StatementRun[] = [];
+    let learnerTransaction = false;
+    for (const { sql: statement, offset } of statements) {
+      const startTime = Date.now();
+      const run = (fields: Pick<StatementRun, 'result' | 'error'>): StatementRun => ({
+        sql: statement,
+        offset,
+        ...fields,
+        executionTimeMs: Date.now() - startTime
+      });
+
+      try {
+        const control = inTransaction ? transactionControl(statement) : null;
+        if (!control) {
+          runs.push(run({ result: this.extractResult(await client.query(statement)) }));
+          continue;
+        }
+
+        if (control === 'two-phase') {
+          throw new Error('Two-phase commit is not available in exercises');
+        }
+        // Like PostgreSQL, a nested BEGIN or a COMMIT outside a transaction does nothing
+        if (control === 'begin' && !learnerTransaction) {
+          await client.query(`SAVEPOINT ${LEARNER_SAVEPOINT}`);
+          learnerTransaction = true;
+        } else if (control === 'commit' && learnerTransaction) {
+          await client.query(`RELEASE SAVEPOINT ${LEARNER_SAVEPOINT}`);
+          learnerTransaction = false;
+        } else if (control === 'rollback' && learnerTransaction) {
+          await client.query(`ROLLBACK TO SAVEPOINT ${LEARNER_SAVEPOINT}`);
+          await client.query(`RELEASE SAVEPOINT ${LEARNER_SAVEPOINT}`);
+          learnerTransaction = false;
+        }
+        runs.push(run({ result: { command: control.toUpperCase(), rows: [], rowCount: null, fields: [] } }));
+      } catch (error) {
+        // Later statements would only fail on the aborted transaction
+        runs.push(run({ error }));
+        break;
+      }
+    }
+    return runs;
   }
 
-  async setupExercise(setupSql: string, schema: string = 'public', useSuperuser: boolean = false): Promise<void> {
-    const clientConfig = useSuperuser ? this.adminConfig : this.config;
-    const client = new Client(clientConfig);
+  /**
+   * Validator queries may embed learner SQL (EXPLAIN <query>), so they are
+   * limited to one statement that can't end the transaction. Inside a
+   * transaction a failing query is undone to a savepoint so later checks
+   * can still run. With `rollback` a successful one is undone too.
+   */
+  private async executeValidatorQuery(
+    client: PoolClient,
+    sql: string,
+    params: any[] | undefined,
+    inTransaction: boolean,
+    rollback: boolean
+  ): Promise<any> {
+    if (splitStatements(sql).length > 1 || transactionControl(sql)) {
+      throw new Error('Validation queries must be a single statement that does not end the transaction');
+    }
+    if (!inTransaction && !rollback) {
+      return client.query(sql, params);
+    }
+
+    // Outside a transaction, one just for this query
+    const [begin, release, undo] = inTransaction
+      ? [`SAVEPOINT ${VALIDATOR_SAVEPOINT}`, `RELEASE SAVEPOINT ${VALIDATOR_SAVEPOINT}`, `ROLLBACK TO SAVEPOINT ${VALIDATOR_SAVEPOINT}`]
+      : ['BEGIN', 'COMMIT', 'ROLLBACK'];
+
+    await client.query(begin);
     try {
-      await client.connect();
+      const result = await client.query(sql, params);
+      await client.query(rollback ? undo : release);
+      return result;
+    } catch (error) {
+      await client.query(undo);
+      throw error;
+    }
+  }
 
-      // Reset schema to clean state
-      await this.resetSchema(schema, useSuperuser);
+  /**
+   * Runs `query` in a transaction that is always rolled back, so nothing it
+   * changes persists. With `setupSql`, `schema` is created and set up inside
+   * the same transaction and vanishes with it.
+   */
+  async executeAndRollback(
+    query: string,
+    schema: string,
+    options: { useSuperuser?: boolean; setupSql?: string } = {},
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ): Promise<any> {
+    const [result] = await this.executeAllAndRollback([query], schema, options, timeoutMs);
+    return result;
+  }
+
+  /** Like executeAndRollback, running several queries in order and returning each result. */
+  async executeAllAndRollback(
+    queries: string[],
+    schema: string,
+    options: { useSuperuser?: boolean; setupSql?: string } = {},
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ): Promise<any[]> {
+    // withClient rolls back whatever the queries leave open
+    return this.withClient(options.useSuperuser ? 'admin' : 'learner', { timeoutMs }, async client => {
+      await client.query('BEGIN');
+      if (options.setupSql !== undefined) {
+        await client.query(`CREATE SCHEMA ${escapeIdentifier(schema)}`);
+      }
+      await client.query(`SELECT set_config('search_path', $1, true)`, [searchPath(schema)]);
+      if (options.setupSql) {
+        await client.query(options.setupSql);
+      }
+      const results: any[] = [];
+      for (const query of queries) {
+        // Statement by statement, so a COMMIT in the query can't end the transaction
+        results.push(await this.executeStatements(client, query, true));
+      }
+      return results;
+    });
+  }
 
-      // Set search path
-      await client.query(`SET search_path TO ${schema}, public`);
+  async resetSchema(schema: string, useSuperuser: boolean = false): Promise<void> {
+    await this.withClient(useSuperuser ? 'admin' : 'learner', { timeoutMs: 0 }, client =>
+      this.recreateSchema(client, schema, useSuperuser)
+    );
+  }
 
-      // Execute setup SQL
-      await client.query(setupSql);
-    } finally {
-      await client.end();
+  private async recreateSchema(client: PoolClient, schema: string, useSuperuser: boolean): Promise<void> {
+    const name = escapeIdentifier(schema);
+    await client.query(`DROP SCHEMA IF EXISTS ${name} CASCADE`);
+    await client.query(`CREATE SCHEMA ${name}`);
+    await client.query(`GRANT ALL ON SCHEMA ${name} TO ${escapeIdentifier(this.config.user)}`);
+    if (useSuperuser) {
+      await client.query(`GRANT ALL ON SCHEMA ${name} TO ${escapeIdentifier(this.adminConfig.user)}`);
     }
   }
 
-  async getTableInfo(schema: string = 'public'): Promise<any[]> {
+  /** Drops a schema and everything in it, whichever role created its objects. */
+  async dropSchema(schema: string): Promise<void> {
+    await this.run('admin', `DROP SCHEMA IF EXISTS ${escapeIdentifier(schema)} CASCADE`, undefined, { timeoutMs: 0 });
+  }
+
+  async listSchemas(prefix: string): Promise<string[]> {
+    const result = await this.executeQuery(
+      `SELECT nspname FROM pg_namespace WHERE starts_with(nspname, $1) ORDER BY nspname`,
+      [prefix]
+    );
+    return result.rows.map((row: any) => row.nspname);
+  }
+
+  /** Recreates `schema` and runs the setup SQL in it. Setup may load a lot of data, so it runs without a timeout. */
+  async setupExercise(setupSql: string, schema: string = 'public', useSuperuser: boolean = false): Promise<void> {
+    await this.withClient(useSuperuser ? 'admin' : 'learner', { timeoutMs: 0 }, async client => {
+      await this.recreateSchema(client, schema, useSuperuser);
+      await client.query(`SELECT set_config('search_path', $1, false)`, [searchPath(schema)]);
+      await client.query(setupSql);
+    });
+  }
+
+  async getTableInfo(schema: string = 'public', db?: ValidatorQueryClient): Promise<any[]> {
     const query = `
       SELECT
         schemaname,
         tablename,
-        pg_size_pretty(pg_total_relation_size(schemaname||'.'||tablename)) as size
+        pg_size_pretty(pg_total_relation_size(format('%I.%I', schemaname, tablename))) as size
       FROM pg_tables
       WHERE schemaname = $1
       ORDER BY tablename;
     `;
-    const result = await this.executeQuery(query, [schema]);
+    const result = db ? await db.query(query, [schema]) : await this.executeQuery(query, [schema]);
     return result.rows;
   }
 
-  async getIndexInfo(schema: string = 'public'): Promise<any[]> {
+  async getIndexInfo(schema: string = 'public', db?: ValidatorQueryClient): Promise<any[]> {
     const query = `
       SELECT
         schemaname,
@@ -247,7 +484,7 @@ export class DockerService {
       WHERE schemaname = $1
       ORDER BY tablename, indexname;
     `;
-    const result = await this.executeQuery(query, [schema]);
+    const result = db ? await db.query(query, [schema]) : await this.executeQuery(query, [schema]);
     return result.rows;
   }
 
@@ -258,6 +495,21 @@ export class DockerService {
   getAdminConfig(): PostgresConfig {
     return { ...this.adminConfig };
   }
+
+  /** Connection counts per pool; pools that were never used report zeros. */
+  getPoolMetrics(): Record<PoolRole, PoolMetrics> {
+    const metrics = (role: PoolRole): PoolMetrics => {
+      const pool = this.pools.get(role);
+      if (!pool) return { total: 0, active: 0, idle: 0, waiting: 0 };
+      return {
+        total: pool.totalCount,
+        active: pool.totalCount - pool.idleCount,
+        idle: pool.idleCount,
+        waiting: pool.waitingCount
+      };
+    };
+    return { learner: metrics('learner'), admin: metrics('admin'), pgdog: metrics('pgdog') };
+  }
 }
 
 export const dockerService = new DockerService();
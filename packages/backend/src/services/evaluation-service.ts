@@ -1,16 +1,31 @@
 import { readFileSync, readdirSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { EvaluationSession, EvaluationQuestion, EvaluationResponse } from '@learn-pg/shared';
+import crypto from 'crypto';
+import type {
+  AbilityEstimate,
+  EvaluationSession,
+  EvaluationQuestion,
+  EvaluationResponse,
+  EvaluationAnswerResult,
+  SQLWriteQuestion,
+  ScenarioBasedQuestion
+} from '@learn-pg/shared';
 import { getDatabase } from '../db/index.js';
 import { AdaptiveSelector } from '../evaluation/adaptive-selector.js';
+import { rubricGrader } from '../evaluation/rubric-grader.js';
 import { progressService } from './progress-service.js';
+import { masteryService } from './mastery-service.js';
+import { dockerService } from './docker-service.js';
+import { referenceSolutionService } from './reference-solution-service.js';
+import { compareResults, checkExpectedResult, hasOrderBy } from '../validators/result-compare.js';
+import { checkSqlPolicy } from '../sql/policy.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 export class EvaluationService {
   private questionBank: EvaluationQuestion[] = [];
-  private activeSessions: Map<string, AdaptiveSelector> = new Map();
+  private activeSessions: Map<string, { userId: string; selector: AdaptiveSelector }> = new Map();
   private questionsPath: string;
 
   constructor(questionsPath?: string) {
@@ -33,11 +48,36 @@ export class EvaluationService {
         this.questionBank.push(...questions);
       }
     }
+
+    this.applyCalibration();
+  }
+
+  /**
+   * Copies calibrated IRT parameters from question_metadata onto the loaded
+   * questions. Called at load time and after each calibration run.
+   */
+  applyCalibration(): void {
+    const db = getDatabase();
+    const rows = db.prepare(`
+      SELECT question_id, irt_discrimination, irt_difficulty
+      FROM question_metadata
+      WHERE irt_discrimination IS NOT NULL AND irt_difficulty IS NOT NULL
+    `).all() as any[];
+    const params = new Map(rows.map(r => [r.question_id, r]));
+
+    for (const question of this.questionBank) {
+      const row = params.get(question.id);
+      question.metadata = {
+        ...question.metadata,
+        irtDiscrimination: row?.irt_discrimination ?? undefined,
+        irtDifficulty: row?.irt_difficulty ?? undefined
+      };
+    }
   }
 
-  startEvaluation(userId: string = 'default'): EvaluationSession {
+  startEvaluation(userId: string): EvaluationSession {
     const db = getDatabase();
-    const progress = progressService.getUserProgress();
+    const progress = progressService.getUserProgress(userId);
     const sessionId = `eval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     const session: EvaluationSession = {
@@ -64,34 +104,41 @@ export class EvaluationService {
 
     // Create adaptive selector for this session
     const selector = new AdaptiveSelector(progress.skillRating);
-    this.activeSessions.set(sessionId, selector);
+    this.activeSessions.set(sessionId, { userId, selector });
 
     return session;
   }
 
-  getNextQuestion(sessionId: string): EvaluationQuestion | null {
-    const selector = this.activeSessions.get(sessionId);
-    if (!selector) {
-      throw new Error('Evaluation session not found');
-    }
+  getNextQuestion(userId: string, sessionId: string): EvaluationQuestion | null {
+    const selector = this.getSelector(userId, sessionId);
 
     // Get weak areas from user progress
-    const weakAreas = progressService.getWeakAreas();
+    const weakAreas = progressService.getWeakAreas(userId);
     const weakConcepts = weakAreas.map(w => w.concept);
 
     return selector.selectNextQuestion(this.questionBank, weakConcepts);
   }
 
-  submitAnswer(
-    sessionId: string,
-    response: Omit<EvaluationResponse, 'created_at'>
-  ): { isCorrect: boolean; explanation?: string } {
-    const db = getDatabase();
-    const selector = this.activeSessions.get(sessionId);
+  getAbilityEstimate(userId: string, sessionId: string): AbilityEstimate {
+    return this.getSelector(userId, sessionId).getAbilityEstimate();
+  }
 
-    if (!selector) {
+  /** Sessions are only visible to the user who started them. */
+  private getSelector(userId: string, sessionId: string): AdaptiveSelector {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || session.userId !== userId) {
       throw new Error('Evaluation session not found');
     }
+    return session.selector;
+  }
+
+  async submitAnswer(
+    userId: string,
+    sessionId: string,
+    response: Omit<EvaluationResponse, 'created_at'>
+  ): Promise<EvaluationAnswerResult> {
+    const db = getDatabase();
+    const selector = this.getSelector(userId, sessionId);
 
     // Find the question to get correct answer
     const question = this.questionBank.find(q => q.id === response.questionId);
@@ -100,44 +147,45 @@ export class EvaluationService {
     }
 
     // Check if answer is correct
-    const isCorrect = this.checkAnswer(question, response.userAnswer);
+    const check = await this.checkAnswer(question, response.userAnswer);
+    const { isCorrect } = check;
+    const score = check.score ?? (isCorrect ? 1 : 0);
     const fullResponse: EvaluationResponse = {
       ...response,
-      isCorrect
+      isCorrect,
+      score
     };
 
     // Record response in database
     db.prepare(`
       INSERT INTO evaluation_responses (
         session_id, question_id, question_difficulty,
-        user_answer, is_correct, time_spent_seconds, hints_used
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        user_answer, is_correct, score, time_spent_seconds, hints_used
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       sessionId,
       response.questionId,
       response.questionDifficulty,
       response.userAnswer,
       isCorrect ? 1 : 0,
+      score,
       response.timeSpentSeconds,
       response.hintsUsed
     );
 
-    // Update adaptive selector
+    // Update adaptive selector and concept mastery
     selector.recordResponse(fullResponse);
+    masteryService.recordObservation(userId, question.concepts, score, 'evaluation');
 
     // Get explanation based on question type
     const explanation = this.getExplanation(question);
 
-    return { isCorrect, explanation };
+    return { ...check, explanation };
   }
 
-  completeEvaluation(sessionId: string): EvaluationSession {
+  completeEvaluation(userId: string, sessionId: string): EvaluationSession {
     const db = getDatabase();
-    const selector = this.activeSessions.get(sessionId);
-
-    if (!selector) {
-      throw new Error('Evaluation session not found');
-    }
+    const selector = this.getSelector(userId, sessionId);
 
     // Get all responses for this session
     const responses = db.prepare(`
@@ -149,33 +197,44 @@ export class EvaluationService {
       questionDifficulty: r.question_difficulty,
       userAnswer: r.user_answer,
       isCorrect: Boolean(r.is_correct),
+      score: r.score ?? undefined,
       timeSpentSeconds: r.time_spent_seconds,
       hintsUsed: r.hints_used
     }));
 
-    // Calculate final skill level
-    const finalSkillLevel = selector.calculateFinalSkillLevel(evaluationResponses);
+    // Estimate ability from every recorded answer
+    const estimate = selector.estimateFromResponses(evaluationResponses);
+    const finalSkillLevel = Math.round(estimate.level);
 
-    // Identify weak areas
-    const weakAreas = selector.identifyWeakAreas(evaluationResponses, this.questionBank);
+    // Weak areas among the concepts this evaluation covered
+    const coveredConcepts = new Set(
+      evaluationResponses.flatMap(r => this.questionBank.find(q => q.id === r.questionId)?.concepts ?? [])
+    );
+    const weakAreas = masteryService.getWeakAreas(userId)
+      .map(w => w.concept)
+      .filter(c => coveredConcepts.has(c));
 
     // Update session in database
     db.prepare(`
       UPDATE evaluation_sessions
       SET end_time = ?,
           ending_skill_level = ?,
+          ability_estimate = ?,
+          ability_standard_error = ?,
           weak_areas_identified = ?,
           status = 'completed'
       WHERE id = ?
     `).run(
       new Date().toISOString(),
       finalSkillLevel,
+      estimate.level,
+      estimate.standardError,
       JSON.stringify(weakAreas),
       sessionId
     );
 
     // Update user progress
-    progressService.updateUserProgress({
+    progressService.updateUserProgress(userId, {
       skillRating: finalSkillLevel
     });
 
@@ -196,11 +255,12 @@ export class EvaluationService {
       endingSkillLevel: session.ending_skill_level,
       questionsAnswered: evaluationResponses,
       weakAreasIdentified: JSON.parse(session.weak_areas_identified),
-      status: session.status
+      status: session.status,
+      abilityEstimate: estimate
     };
   }
 
-  getEvaluationHistory(userId: string = 'default', limit: number = 10): EvaluationSession[] {
+  getEvaluationHistory(userId: string, limit: number = 10): EvaluationSession[] {
     const db = getDatabase();
     const sessions = db.prepare(`
       SELECT * FROM evaluation_sessions
@@ -218,36 +278,116 @@ export class EvaluationService {
       endingSkillLevel: s.ending_skill_level,
       questionsAnswered: JSON.parse(s.questions_answered || '[]'),
       weakAreasIdentified: JSON.parse(s.weak_areas_identified || '[]'),
-      status: s.status
+      status: s.status,
+      abilityEstimate: s.ability_estimate != null
+        ? { level: s.ability_estimate, standardError: s.ability_standard_error }
+        : undefined
     }));
   }
 
-  private checkAnswer(question: EvaluationQuestion, userAnswer: string): boolean {
+  async checkAnswer(question: EvaluationQuestion, userAnswer: string): Promise<EvaluationAnswerResult> {
     switch (question.type) {
       case 'multiple-choice':
       case 'explain-interpret':
       case 'performance-analysis': {
         const mcQuestion = question as any;
-        return userAnswer === mcQuestion.correctOptionId;
+        return { isCorrect: userAnswer === mcQuestion.correctOptionId };
       }
 
-      case 'sql-write': {
-        // For SQL questions, this would need actual execution
-        // For now, just check if answer is not empty
-        return userAnswer.trim().length > 0;
-      }
+      case 'sql-write':
+        return this.checkSqlAnswer(question as SQLWriteQuestion, userAnswer);
 
-      case 'scenario-based': {
-        // Scenario questions need manual grading or complex logic
-        return userAnswer.trim().length > 0;
-      }
+      case 'scenario-based':
+        return rubricGrader.grade(question as ScenarioBasedQuestion, userAnswer);
 
       default:
-        return false;
+        return { isCorrect: false };
+    }
+  }
+
+  /**
+   * Runs the answer against the question's setupSql in a scratch schema that
+   * only exists inside a rolled-back transaction, then checks it against
+   * expectedResult and, if given, the output of the acceptable queries.
+   */
+  private async checkSqlAnswer(question: SQLWriteQuestion, userAnswer: string): Promise<EvaluationAnswerResult> {
+    // Questions have no policy of their own; the defaults still block dangerous operations
+    const policyViolation = await checkSqlPolicy(userAnswer);
+    if (policyViolation) {
+      return { isCorrect: false, executionError: policyViolation.message };
+    }
+
+    const scratchSchema = `eval_${crypto.randomBytes(6).toString('hex')}`;
+
+    let result: any;
+    try {
+      result = await dockerService.executeAndRollback(userAnswer, scratchSchema, {
+        setupSql: question.setupSql ?? ''
+      });
+    } catch (error: any) {
+      return { isCorrect: false, executionError: error.message || 'Query execution failed' };
     }
+
+    const rows: any[] = result.rows || [];
+    const queryResults = { rows, rowCount: result.rowCount ?? rows.length };
+    const expected = checkExpectedResult(result, question.expectedResult || {});
+    let isCorrect = expected.matches;
+    let resultDiff = expected.diff;
+
+    // Any one of the acceptable queries producing the same rows is enough
+    if (question.acceptableQueries?.length) {
+      let matchedAny = false;
+      for (let i = 0; i < question.acceptableQueries.length && !matchedAny; i++) {
+        const query = question.acceptableQueries[i];
+        try {
+          const reference = await referenceSolutionService.getExpectedResult(
+            `${question.id}#${i}`,
+            question.setupSql,
+            query
+          );
+          const comparison = compareResults(rows, reference.rows, {
+            ordered: hasOrderBy(query)
+          });
+          matchedAny = comparison.matches;
+          if (!resultDiff || comparison.matches) {
+            resultDiff = comparison.diff;
+          }
+        } catch (error) {
+          console.warn(`Acceptable query ${i + 1} of ${question.id} failed:`, error);
+        }
+      }
+      isCorrect = isCorrect && matchedAny;
+    }
+
+    return { isCorrect, resultDiff, queryResults };
+  }
+
+  /** The question as shown to a learner, without answers or grading details. */
+  toPublicQuestion(question: EvaluationQuestion): EvaluationQuestion {
+    const { ...publicQuestion } = question as any;
+    delete publicQuestion.correctOptionId;
+    delete publicQuestion.acceptableQueries;
+    delete publicQuestion.expectedResult;
+    delete publicQuestion.solution;
+    delete publicQuestion.explanation;
+
+    // Scenario tasks keep only what is needed to answer them
+    if (Array.isArray(publicQuestion.tasks)) {
+      publicQuestion.tasks = publicQuestion.tasks.map((task: any) => ({
+        id: task.id,
+        description: task.description,
+        points: task.points,
+        verification: task.verification && {
+          kind: task.verification.kind,
+          options: task.verification.options
+        }
+      }));
+    }
+
+    return publicQuestion;
   }
 
-  private getExplanation(question: EvaluationQuestion): string {
+  getExplanation(question: EvaluationQuestion): string {
     const q = question as any;
     return q.explanation || 'No explanation available';
   }
@@ -1,54 +1,184 @@
-import type { Exercise, ValidationResult, ValidationConfig } from '@learn-pg/shared';
-import { dockerService } from './docker-service.js';
+import type {
+  Exercise,
+  ExecutionMode,
+  SQLQueryExercise,
+  OptimizationExercise,
+  ValidationResult,
+  ValidationConfig,
+  CustomValidationRules,
+  CompositeValidationRules,
+  QueryPlanRules,
+  ResultMatchRules,
+  SolutionMatchRules,
+  ResultDiff,
+  PlanNode,
+  PlanNodeMatcher,
+  StatementResult,
+  ValidatorQueryClient
+} from '@learn-pg/shared';
+import {
+  parseExplainPlan,
+  findPlanNodes,
+  walkPlan,
+  isIndexNode,
+  describePlanNode,
+  formatPlanPath,
+  rowMisestimation
+} from '@learn-pg/shared';
+import { dockerService, type StatementRun } from './docker-service.js';
 import { curriculumService } from './curriculum-service.js';
+import { validatorRegistry } from '../validators/registry.js';
+import { referenceSolutionService } from './reference-solution-service.js';
+import { sandboxService } from './sandbox-service.js';
+import { resolveRules, findRules } from '../validators/rules.js';
+import { compareResults, findOrderViolation, hasOrderBy } from '../validators/result-compare.js';
+import { checkSqlPolicy } from '../sql/policy.js';
+
+const COMPLETION_MESSAGE = 'Exercise completed successfully!';
+
+// Exercise types whose submissions build things (tables, indexes) keep them by default
+const COMMITTED_EXERCISE_TYPES = new Set(['schema-design', 'optimization']);
+
+/** What a single execution of the learner's query is validated against. */
+interface ValidationContext {
+  userQuery: string; // The statement being validated
+  result: any; // Its pg result
+  statements: StatementRun[]; // Every statement of the submission, for rules with a statementIndex
+  executionTimeMs: number;
+  schema: string;
+  useSuperuser: boolean;
+  db: ValidatorQueryClient; // The connection the learner's query ran on
+  exercise?: Exercise;
+}
+
+function describeMatcher(matcher: PlanNodeMatcher): string {
+  if (typeof matcher === 'string') return matcher;
+  return [
+    matcher.nodeType || 'any node',
+    matcher.relation && `on ${matcher.relation}`,
+    matcher.index && `using ${matcher.index}`
+  ].filter(Boolean).join(' ');
+}
 
 export class ExerciseService {
-  async setupExercise(exerciseId: string): Promise<void> {
+  async setupExercise(userId: string, exerciseId: string): Promise<void> {
     const exercise = curriculumService.getExercise(exerciseId);
     if (!exercise) {
       throw new Error(`Exercise not found: ${exerciseId}`);
     }
 
+    const useSuperuser = exercise.requiresSuperuser ?? false;
+    const schema = await this.getSchemaForExercise(userId, exerciseId);
     if (exercise.setupSql) {
-      const schema = this.getSchemaForExercise(exerciseId);
-      await dockerService.setupExercise(exercise.setupSql, schema, exercise.requiresSuperuser ?? false);
+      await dockerService.setupExercise(exercise.setupSql, schema, useSuperuser);
+      await this.primeReferenceResults(exercise, schema);
+    } else {
+      // Start from an empty sandbox, which also recreates one dropped behind the lease's back
+      await dockerService.resetSchema(schema, useSuperuser);
+    }
+  }
+
+  /**
+   * Runs the exercise's reference solutions while the schema is still fresh.
+   * A failure here is not fatal: grading falls back to a scratch schema.
+   */
+  private async primeReferenceResults(exercise: Exercise, schema: string): Promise<void> {
+    for (const rules of findRules<SolutionMatchRules>(exercise.validation, 'solution-match')) {
+      const solutionQuery = this.getSolutionQuery(exercise, rules);
+      if (!solutionQuery) continue;
+      try {
+        await referenceSolutionService.prime(
+          exercise.id,
+          exercise.setupSql,
+          solutionQuery,
+          schema,
+          exercise.requiresSuperuser ?? false
+        );
+      } catch (error) {
+        console.warn(`Failed to run reference solution for ${exercise.id}:`, error);
+      }
     }
   }
 
-  async validateExercise(exerciseId: string, userQuery: string): Promise<ValidationResult> {
+  getSolutionQuery(exercise: Exercise, rules?: SolutionMatchRules): string | undefined {
+    return rules?.solutionQuery ?? (exercise as SQLQueryExercise).solutionQuery;
+  }
+
+  async validateExercise(userId: string, exerciseId: string, userQuery: string): Promise<ValidationResult> {
     const exercise = curriculumService.getExercise(exerciseId);
     if (!exercise) {
       throw new Error(`Exercise not found: ${exerciseId}`);
     }
 
-    const schema = this.getSchemaForExercise(exerciseId);
+    const policyViolation = await checkSqlPolicy(userQuery, exercise.policy);
+    if (policyViolation) {
+      return {
+        isValid: false,
+        score: 0,
+        feedback: [],
+        errors: [policyViolation.message],
+        suggestions: ['Rewrite the query without that statement; it was not run'],
+        policyViolation
+      };
+    }
+
     const startTime = Date.now();
 
     try {
-      const executeMethod = exercise.requiresSuperuser
-        ? dockerService.executeQueryWithSchemaAsAdmin.bind(dockerService)
-        : dockerService.executeQueryWithSchema.bind(dockerService);
-      const result = await executeMethod(userQuery, schema);
-      const executionTimeMs = Date.now() - startTime;
-
-      // Validate based on exercise validation config
-      const validationResult = await this.validate(
-        exercise.validation,
-        userQuery,
-        result,
-        executionTimeMs,
-        schema
-      );
-
-      return {
-        ...validationResult,
-        executionTimeMs,
-        queryResults: {
-          rows: result.rows || [],
-          rowCount: result.rowCount || result.rows?.length || 0,
-          fields: result.fields || []
+      const schema = await this.getSchemaForExercise(userId, exerciseId);
+      const useSuperuser = exercise.requiresSuperuser ?? false;
+      const mode = this.getExecutionMode(exercise);
+
+      // Validators run on the same session, before a rolled-back submission is undone
+      return await dockerService.withLearnerSession(schema, { useSuperuser, mode }, async session => {
+        const statements = await session.executeEach(userQuery);
+        const executionTimeMs = Date.now() - startTime;
+        const statementResults = statements.map(run => this.toStatementResult(run, userQuery));
+
+        const failedIndex = statements.findIndex(run => run.error);
+        if (failedIndex !== -1) {
+          const failed = statements[failedIndex];
+          return {
+            isValid: false,
+            score: 0,
+            feedback: [],
+            errors: [statements.length > 1
+              ? `Statement ${failedIndex + 1} failed: ${failed.error.message}`
+              : failed.error.message || 'Query execution failed'],
+            suggestions: this.generateErrorSuggestions(failed.error),
+            executionTimeMs,
+            statementResults,
+            statementIndex: failedIndex
+          };
         }
-      };
+
+        // Validate based on exercise validation config
+        const config = this.getValidationConfig(exercise);
+        const statementIndex = this.resolveStatementIndex(config.statementIndex, statements.length);
+        const selected = statements[statementIndex] ?? statements[statements.length - 1];
+        const validationResult = await this.validate(config, {
+          userQuery: selected.sql,
+          result: selected.result,
+          statements,
+          executionTimeMs,
+          schema,
+          useSuperuser,
+          db: session,
+          exercise
+        });
+
+        return {
+          ...validationResult,
+          executionTimeMs,
+          queryResults: {
+            rows: selected.result.rows || [],
+            rowCount: selected.result.rowCount || selected.result.rows?.length || 0,
+            fields: selected.result.fields || []
+          },
+          statementResults,
+          statementIndex: statements.indexOf(selected)
+        };
+      });
     } catch (error: any) {
       return {
         isValid: false,
@@ -63,25 +193,47 @@ export class ExerciseService {
 
   private async validate(
     config: ValidationConfig,
-    userQuery: string,
-    result: any,
-    executionTimeMs: number,
-    schema: string
+    context: ValidationContext
   ): Promise<Omit<ValidationResult, 'executionTimeMs'>> {
-    const { strategy, rules } = config;
+    const { strategy } = config;
+    const rules = resolveRules(config);
+
+    if (config.statementIndex !== undefined) {
+      const run = context.statements[this.resolveStatementIndex(config.statementIndex, context.statements.length)];
+      if (!run) {
+        const needed = config.statementIndex < 0 ? -config.statementIndex : config.statementIndex + 1;
+        return {
+          isValid: false,
+          score: 0,
+          feedback: [],
+          errors: [`Expected at least ${needed} statements, got ${context.statements.length}`],
+          suggestions: ['Run each step of the task as its own statement, separated by semicolons']
+        };
+      }
+      context = { ...context, userQuery: run.sql, result: run.result, executionTimeMs: run.executionTimeMs };
+    }
 
     switch (strategy) {
       case 'result-match':
-        return this.validateResultMatch(rules as any, result);
+        return this.validateResultMatch(rules as any, context.result);
 
       case 'query-plan':
-        return this.validateQueryPlan(rules as any, userQuery, schema);
+        return this.validateQueryPlan(rules as any, context);
 
       case 'performance':
-        return this.validatePerformance(rules as any, executionTimeMs);
+        return this.validatePerformance(rules as any, context.executionTimeMs);
 
       case 'schema':
-        return this.validateSchema(rules as any, schema);
+        return this.validateSchema(rules as any, context);
+
+      case 'custom':
+        return this.validateCustom(rules as any, context);
+
+      case 'composite':
+        return this.validateComposite(rules as any, context);
+
+      case 'solution-match':
+        return this.validateSolutionMatch(rules as any, context);
 
       default:
         return {
@@ -94,7 +246,7 @@ export class ExerciseService {
     }
   }
 
-  private validateResultMatch(rules: any, result: any): Omit<ValidationResult, 'executionTimeMs'> {
+  private validateResultMatch(rules: ResultMatchRules, result: any): Omit<ValidationResult, 'executionTimeMs'> {
     const feedback: string[] = [];
     const errors: string[] = [];
     const suggestions: string[] = [];
@@ -147,11 +299,26 @@ export class ExerciseService {
       }
     }
 
-    // Check exact values
-    if (rules.values?.exactMatch && result.rows) {
-      const expected = rules.values.exactMatch;
-      if (!this.resultsEqual(result.rows, expected)) {
+    // Check values
+    let resultDiff: ResultDiff | undefined;
+    const rows = result.rows || [];
+    const compareOptions = {
+      floatTolerance: rules.values?.floatTolerance,
+      caseInsensitive: rules.values?.caseInsensitive,
+      allowExtraColumns: rules.values?.allowExtraColumns
+    };
+
+    if (rules.values?.exactMatch) {
+      const comparison = compareResults(rows, rules.values.exactMatch, {
+        ...compareOptions,
+        ordered: rules.ordering?.mustMatch ?? false,
+        allowExtraRows: rules.values.allowExtraRows ?? false
+      });
+      resultDiff = comparison.diff;
+
+      if (!comparison.matches) {
         errors.push('Result values do not match expected output');
+        errors.push(...this.describeDiff(comparison.diff));
         score -= 40;
         suggestions.push('Double-check your query logic and filtering conditions');
       } else {
@@ -159,9 +326,41 @@ export class ExerciseService {
       }
     }
 
+    if (rules.values?.subset) {
+      const comparison = compareResults(rows, rules.values.subset, {
+        ...compareOptions,
+        allowExtraRows: true
+      });
+      resultDiff = resultDiff ?? comparison.diff;
+
+      if (!comparison.matches) {
+        errors.push('Result is missing some of the expected rows');
+        errors.push(...this.describeDiff(comparison.diff));
+        score -= 40;
+        suggestions.push('Check that your filter is not excluding rows it should keep');
+      } else {
+        feedback.push('Result includes all expected rows');
+      }
+    }
+
+    // Check ordering
+    if (rules.ordering?.columnName) {
+      const direction = rules.ordering.direction ?? 'asc';
+      const violation = findOrderViolation(rows, rules.ordering.columnName, direction);
+      if (violation >= 0) {
+        errors.push(
+          `Rows are not sorted by ${rules.ordering.columnName} ${direction.toUpperCase()} (row ${violation + 1} is out of order)`
+        );
+        score -= 20;
+        suggestions.push(`Add ORDER BY ${rules.ordering.columnName}${direction === 'desc' ? ' DESC' : ''}`);
+      } else {
+        feedback.push(`Rows are correctly ordered by ${rules.ordering.columnName}`);
+      }
+    }
+
     const isValid = errors.length === 0;
     if (isValid) {
-      feedback.push('Exercise completed successfully!');
+      feedback.push(COMPLETION_MESSAGE);
     }
 
     return {
@@ -169,14 +368,31 @@ export class ExerciseService {
       score: Math.max(0, score),
       feedback,
       errors,
-      suggestions
+      suggestions,
+      ...(resultDiff && { resultDiff })
     };
   }
 
+  private describeDiff(diff: ResultDiff): string[] {
+    const messages: string[] = [];
+    if (diff.extraColumns) {
+      messages.push(`Your result has columns that weren't asked for: ${diff.extraColumns.join(', ')}`);
+    }
+    if (diff.missingRows.length > 0) {
+      messages.push(`${diff.missingRows.length} expected row(s) missing from your result`);
+    }
+    if (diff.unexpectedRows.length > 0) {
+      messages.push(`${diff.unexpectedRows.length} row(s) in your result were not expected`);
+    }
+    for (const changed of diff.changedRows) {
+      messages.push(`Row ${changed.rowIndex + 1} has wrong values in: ${changed.columns.join(', ')}`);
+    }
+    return messages;
+  }
+
   private async validateQueryPlan(
-    rules: any,
-    userQuery: string,
-    schema: string
+    rules: QueryPlanRules,
+    context: ValidationContext
   ): Promise<Omit<ValidationResult, 'executionTimeMs'>> {
     const feedback: string[] = [];
     const errors: string[] = [];
@@ -184,45 +400,97 @@ export class ExerciseService {
     let score = 100;
 
     try {
-      const plan = await dockerService.executeExplain(userQuery, schema);
-
-      const planText = JSON.stringify(plan);
+      const plan = await dockerService.executeExplain(context.userQuery, context.schema, undefined, context.db);
+      const tree = parseExplainPlan(plan);
 
       // Check for forbidden nodes
       if (rules.forbiddenNodes) {
-        for (const node of rules.forbiddenNodes) {
-          if (planText.includes(node)) {
-            errors.push(`Query plan contains forbidden node: ${node}`);
+        for (const matcher of rules.forbiddenNodes) {
+          const matches = findPlanNodes(tree, matcher);
+          for (const { node, path } of matches) {
+            errors.push(`Query plan contains forbidden node ${describePlanNode(node)} at ${formatPlanPath(path)}`);
+          }
+          if (matches.length > 0) {
             score -= 30;
-            suggestions.push(`Try to avoid ${node} by using indexes or rewriting the query`);
+            suggestions.push(`Try to avoid ${describeMatcher(matcher)} by using indexes or rewriting the query`);
           }
         }
       }
 
       // Check for required nodes
       if (rules.requiredNodes) {
-        for (const node of rules.requiredNodes) {
-          if (!planText.includes(node)) {
-            errors.push(`Query plan missing required node: ${node}`);
+        for (const matcher of rules.requiredNodes) {
+          if (findPlanNodes(tree, matcher).length === 0) {
+            errors.push(`Query plan missing required node: ${describeMatcher(matcher)}`);
             score -= 30;
-            suggestions.push(`Your query should use ${node}`);
+            suggestions.push(`Your query should use ${describeMatcher(matcher)}`);
           }
         }
       }
 
       // Check if index is used
-      if (rules.mustUseIndex && !planText.includes('Index Scan') && !planText.includes('Index Only Scan')) {
+      const indexNodes: PlanNode[] = [];
+      walkPlan(tree.root, node => {
+        if (isIndexNode(node)) indexNodes.push(node);
+      });
+
+      if (rules.mustUseIndex && indexNodes.length === 0) {
         errors.push('Query does not use an index');
         score -= 40;
         suggestions.push('Consider adding an index or restructuring the query');
       }
 
       // Check specific index
-      if (rules.specificIndex && !planText.includes(rules.specificIndex)) {
-        errors.push(`Query should use index: ${rules.specificIndex}`);
+      if (rules.specificIndex && !indexNodes.some(n => n.indexName === rules.specificIndex)) {
+        const used = indexNodes.map(n => n.indexName).filter(Boolean);
+        errors.push(
+          `Query should use index: ${rules.specificIndex}` +
+          (used.length > 0 ? ` (uses ${used.join(', ')})` : '')
+        );
         score -= 30;
       }
 
+      // Check total plan cost
+      if (rules.maxCost !== undefined && tree.root.totalCost > rules.maxCost) {
+        errors.push(`Plan cost ${tree.root.totalCost} exceeds the maximum of ${rules.maxCost}`);
+        score -= 20;
+        suggestions.push('Look for the most expensive node in the plan and avoid it');
+      }
+
+      // Check row estimates
+      if (rules.maxRows !== undefined) {
+        let tooManyRows = false;
+        walkPlan(tree.root, (node, path) => {
+          if (node.planRows > rules.maxRows!) {
+            tooManyRows = true;
+            errors.push(`${formatPlanPath(path)} estimates ${node.planRows} rows (max: ${rules.maxRows})`);
+          }
+        });
+        if (tooManyRows) {
+          score -= 20;
+          suggestions.push('Filter earlier so fewer rows flow through the plan');
+        }
+      }
+
+      // Check estimate vs actual rows
+      if (rules.maxRowMisestimation !== undefined) {
+        let misestimated = false;
+        walkPlan(tree.root, (node, path) => {
+          const factor = rowMisestimation(node);
+          if (factor !== undefined && factor > rules.maxRowMisestimation!) {
+            misestimated = true;
+            errors.push(
+              `${formatPlanPath(path)} estimated ${node.planRows} rows but returned ${node.actualRows} ` +
+              `(off by ${factor.toFixed(1)}x)`
+            );
+          }
+        });
+        if (misestimated) {
+          score -= 20;
+          suggestions.push('Run ANALYZE or create extended statistics so the planner estimates rows accurately');
+        }
+      }
+
       if (errors.length === 0) {
         feedback.push('Query plan is optimal');
       }
@@ -274,7 +542,7 @@ export class ExerciseService {
 
   private async validateSchema(
     rules: any,
-    schema: string
+    context: ValidationContext
   ): Promise<Omit<ValidationResult, 'executionTimeMs'>> {
     const feedback: string[] = [];
     const errors: string[] = [];
@@ -282,8 +550,8 @@ export class ExerciseService {
     let score = 100;
 
     try {
-      const tables = await dockerService.getTableInfo(schema);
-      const indexes = await dockerService.getIndexInfo(schema);
+      const tables = await dockerService.getTableInfo(context.schema, context.db);
+      const indexes = await dockerService.getIndexInfo(context.schema, context.db);
 
       const tableNames = tables.map(t => t.tablename);
       const indexNames = indexes.map(i => i.indexname);
@@ -345,57 +613,322 @@ export class ExerciseService {
     }
   }
 
-  async validateStepResult(config: ValidationConfig, result: any): Promise<ValidationResult> {
-    const executionTimeMs = 0; // Step results don't track individual timing
-    const schema = 'public'; // Not used for result-match validation
-    const validationResult = await this.validate(config, '', result, executionTimeMs, schema);
-    return {
-      ...validationResult,
-      executionTimeMs,
-      queryResults: {
-        rows: result.rows || [],
-        rowCount: result.rowCount || result.rows?.length || 0,
-        fields: result.fields || []
+  private async validateCustom(
+    rules: CustomValidationRules,
+    context: ValidationContext
+  ): Promise<Omit<ValidationResult, 'executionTimeMs'>> {
+    const { userQuery, result, executionTimeMs, schema, db } = context;
+    const validator = validatorRegistry.get(rules.validatorFunction);
+    if (!validator) {
+      return {
+        isValid: false,
+        score: 0,
+        feedback: [],
+        errors: [`Unknown custom validator: ${rules.validatorFunction}`],
+        suggestions: []
+      };
+    }
+
+    try {
+      const validationResult = await validator({
+        userQuery,
+        result,
+        schema,
+        executionTimeMs,
+        parameters: rules.parameters || {},
+        db
+      });
+
+      return {
+        ...validationResult,
+        score: Math.max(0, Math.min(100, validationResult.score))
+      };
+    } catch (error: any) {
+      return {
+        isValid: false,
+        score: 0,
+        feedback: [],
+        errors: [`Custom validator ${rules.validatorFunction} failed: ${error.message}`],
+        suggestions: []
+      };
+    }
+  }
+
+  private async validateComposite(
+    rules: CompositeValidationRules,
+    context: ValidationContext
+  ): Promise<Omit<ValidationResult, 'executionTimeMs'>> {
+    const feedback: string[] = [];
+    const errors: string[] = [];
+    const suggestions: string[] = [];
+    let queryPlan: any;
+    let weightedScore = 0;
+    let totalWeight = 0;
+    let passed = 0;
+
+    for (const check of rules.checks) {
+      const weight = check.weight ?? 1;
+      const checkResult = await this.validate(check.validation, context);
+
+      weightedScore += checkResult.score * weight;
+      totalWeight += weight;
+      if (checkResult.isValid) passed++;
+
+      // Individual checks announce completion; only the composite decides that
+      feedback.push(...checkResult.feedback.filter(f => f !== COMPLETION_MESSAGE));
+      errors.push(...checkResult.errors);
+      for (const suggestion of checkResult.suggestions) {
+        if (!suggestions.includes(suggestion)) suggestions.push(suggestion);
       }
+      queryPlan = queryPlan ?? checkResult.queryPlan;
+    }
+
+    const isValid = rules.mode === 'any-of'
+      ? passed > 0
+      : passed === rules.checks.length;
+
+    if (isValid) {
+      feedback.push(COMPLETION_MESSAGE);
+    }
+
+    return {
+      isValid,
+      score: totalWeight > 0 ? Math.round(weightedScore / totalWeight) : 0,
+      feedback,
+      // An any-of composite that passed should not show the failed alternatives
+      errors: isValid ? [] : errors,
+      suggestions: isValid ? [] : suggestions,
+      ...(queryPlan !== undefined && { queryPlan })
     };
   }
 
-  getSchemaForExercise(exerciseId: string): string {
-    // Extract topic from exercise ID (format: topicId-lessonId-exerciseId)
-    const parts = exerciseId.split('-');
-    return parts[0] || 'public';
+  private async validateSolutionMatch(
+    rules: SolutionMatchRules,
+    context: ValidationContext
+  ): Promise<Omit<ValidationResult, 'executionTimeMs'>> {
+    const feedback: string[] = [];
+    const errors: string[] = [];
+    const suggestions: string[] = [];
+    let score = 100;
+
+    const { exercise } = context;
+    const solutionQuery = exercise && this.getSolutionQuery(exercise, rules);
+    if (!exercise || !solutionQuery) {
+      return {
+        isValid: false,
+        score: 0,
+        feedback: [],
+        errors: ['No reference solution is configured for this exercise'],
+        suggestions: []
+      };
+    }
+
+    let expected;
+    try {
+      expected = await referenceSolutionService.getExpectedResult(
+        exercise.id,
+        exercise.setupSql,
+        solutionQuery,
+        context.useSuperuser
+      );
+    } catch (error: any) {
+      return {
+        isValid: false,
+        score: 0,
+        feedback: [],
+        errors: [`Failed to run the reference solution: ${error.message}`],
+        suggestions: []
+      };
+    }
+
+    let rows: any[] = context.result.rows || [];
+    const actualColumns: string[] = context.result.fields?.map((f: any) => f.name) ?? Object.keys(rows[0] || {});
+
+    if (rules.checkColumnNames !== false) {
+      const missing = expected.columns.filter(c => !actualColumns.includes(c));
+      const extra = actualColumns.filter(c => !expected.columns.includes(c));
+      if (missing.length > 0 || extra.length > 0) {
+        errors.push(`Expected columns: ${expected.columns.join(', ')} (got ${actualColumns.join(', ') || 'none'})`);
+        score -= 20;
+        suggestions.push('Use AS to name your columns like the prompt asks');
+      }
+    } else if (actualColumns.length === expected.columns.length) {
+      // Column names don't matter, so line the learner's columns up by position
+      rows = rows.map(row => Object.fromEntries(
+        expected.columns.map((col, idx) => [col, row[actualColumns[idx]]])
+      ));
+    } else {
+      errors.push(`Expected ${expected.columns.length} columns, got ${actualColumns.length}`);
+      score -= 20;
+    }
+
+    const comparison = compareResults(rows, expected.rows, {
+      ordered: rules.ordered ?? hasOrderBy(solutionQuery),
+      floatTolerance: rules.floatTolerance,
+      caseInsensitive: rules.caseInsensitive
+    });
+
+    if (!comparison.matches) {
+      errors.push('Result does not match the reference solution');
+      errors.push(...this.describeDiff(comparison.diff));
+      score -= 50;
+      suggestions.push('Compare your rows with the expected ones highlighted below');
+    } else {
+      feedback.push('Result matches the reference solution');
+    }
+
+    const isValid = errors.length === 0;
+    if (isValid) {
+      feedback.push(COMPLETION_MESSAGE);
+    }
+
+    return {
+      isValid,
+      score: Math.max(0, score),
+      feedback,
+      errors,
+      suggestions,
+      resultDiff: comparison.diff
+    };
   }
 
-  private arraysEqual(a: any[], b: any[]): boolean {
-    return a.length === b.length && a.every((val, idx) => val === b[idx]);
+  getExecutionMode(exercise: Exercise): ExecutionMode {
+    return exercise.execution ?? (COMMITTED_EXERCISE_TYPES.has(exercise.type) ? 'commit' : 'rollback');
   }
 
-  private resultsEqual(actual: any[], expected: any[]): boolean {
-    if (actual.length !== expected.length) return false;
+  /**
+   * An optimization exercise's performanceTarget is enforced alongside its
+   * own validation by wrapping both in an all-of composite.
+   */
+  private getValidationConfig(exercise: Exercise): ValidationConfig {
+    if (exercise.type !== 'optimization') {
+      return exercise.validation;
+    }
 
-    for (let i = 0; i < actual.length; i++) {
-      const actualRow = actual[i];
-      const expectedRow = expected[i];
+    const target = (exercise as OptimizationExercise).performanceTarget;
+    if (!target) {
+      return exercise.validation;
+    }
 
-      if (typeof actualRow !== 'object' || typeof expectedRow !== 'object') {
-        return false;
-      }
+    const checks: CompositeValidationRules['checks'] = [{ validation: exercise.validation }];
+
+    if (target.mustUseIndex || target.forbiddenNodes?.length) {
+      checks.push({
+        validation: {
+          strategy: 'query-plan',
+          rules: {
+            strategy: 'query-plan',
+            rules: {
+              mustUseIndex: target.mustUseIndex,
+              forbiddenNodes: target.forbiddenNodes
+            }
+          }
+        }
+      });
+    }
 
-      const actualKeys = Object.keys(actualRow).sort();
-      const expectedKeys = Object.keys(expectedRow).sort();
+    if (target.maxExecutionTimeMs !== undefined) {
+      checks.push({
+        validation: {
+          strategy: 'performance',
+          rules: {
+            strategy: 'performance',
+            rules: { maxExecutionTimeMs: target.maxExecutionTimeMs }
+          }
+        }
+      });
+    }
 
-      if (!this.arraysEqual(actualKeys, expectedKeys)) {
-        return false;
+    if (checks.length === 1) {
+      return exercise.validation;
+    }
+
+    // The performance target applies to the statement the exercise validates
+    return {
+      strategy: 'composite',
+      rules: { strategy: 'composite', rules: { mode: 'all-of', checks } },
+      statementIndex: exercise.validation.statementIndex
+    };
+  }
+
+  /**
+   * Validates what a multi-session step returned. `scope` is the session
+   * pair's sandbox, which custom and query-plan validators query.
+   */
+  async validateStepResult(
+    config: ValidationConfig,
+    query: string,
+    result: any,
+    scope: { schema: string; useSuperuser: boolean }
+  ): Promise<ValidationResult> {
+    const executionTimeMs = 0; // Step results don't track individual timing
+    const validationResult = await this.validate(config, {
+      userQuery: query,
+      result,
+      statements: [{ sql: query, offset: 0, result, executionTimeMs }],
+      executionTimeMs,
+      schema: scope.schema,
+      useSuperuser: scope.useSuperuser,
+      db: dockerService.scopedClient(scope.schema, scope.useSuperuser)
+    });
+    return {
+      ...validationResult,
+      executionTimeMs,
+      queryResults: {
+        rows: result.rows || [],
+        rowCount: result.rowCount || result.rows?.length || 0,
+        fields: result.fields || []
       }
+    };
+  }
+
+  /** Index into `count` statements; negative counts from the end, and the default is the last. */
+  private resolveStatementIndex(statementIndex: number | undefined, count: number): number {
+    if (statementIndex === undefined) return count - 1;
+    return statementIndex < 0 ? count + statementIndex : statementIndex;
+  }
 
-      for (const key of actualKeys) {
-        if (actualRow[key] !== expectedRow[key]) {
-          return false;
+  private toStatementResult(run: StatementRun, submission: string): StatementResult {
+    if (run.error) {
+      // PostgreSQL counts from the start of the statement it was sent
+      const offset = Number(run.error.position) > 0 ? run.offset + Number(run.error.position) - 1 : undefined;
+      const before = offset !== undefined ? submission.slice(0, offset).split('\n') : undefined;
+      return {
+        sql: run.sql,
+        command: null,
+        rowCount: null,
+        rows: [],
+        fields: [],
+        executionTimeMs: run.executionTimeMs,
+        error: {
+          message: run.error.message || 'Query execution failed',
+          position: offset !== undefined ? offset + 1 : undefined,
+          line: before?.length,
+          column: before ? before[before.length - 1].length + 1 : undefined
         }
-      }
+      };
     }
 
-    return true;
+    const rows = run.result.rows || [];
+    return {
+      sql: run.sql,
+      command: run.result.command ?? null,
+      rowCount: run.result.rowCount ?? null,
+      rows,
+      fields: (run.result.fields || []).map((field: any) => field.name),
+      executionTimeMs: run.executionTimeMs
+    };
+  }
+
+  /** The user's own sandbox schema for this exercise, created on first use. */
+  async getSchemaForExercise(userId: string, exerciseId: string): Promise<string> {
+    const exercise = curriculumService.getExercise(exerciseId);
+    const { schema } = await sandboxService.acquire(userId, exerciseId, exercise?.requiresSuperuser ?? false);
+    return schema;
+  }
+
+  private arraysEqual(a: any[], b: any[]): boolean {
+    return a.length === b.length && a.every((val, idx) => val === b[idx]);
   }
 
   private indexMatchesColumns(indexDef: string, columns: string[]): boolean {
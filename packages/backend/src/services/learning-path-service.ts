@@ -0,0 +1,117 @@
+import type { LearningPlan, PlanItemStatus, PlannedLesson, PlannedTopic, Topic } from '@learn-pg/shared';
+import { curriculumService } from './curriculum-service.js';
+import { masteryService } from './mastery-service.js';
+import { progressService } from './progress-service.js';
+
+// Concepts (0-1) and topics (0-100) at or above this are treated as known
+const MASTERY_THRESHOLD = 0.8;
+
+/**
+ * Study plans over the prerequisite graph. A plan covers a target topic and
+ * everything it depends on, prerequisites first, and skips lessons the
+ * learner has completed or whose concepts they have already mastered.
+ */
+export class LearningPathService {
+  /** Plans the whole curriculum when no target is given. */
+  getPlan(userId: string, targetTopicId?: string): LearningPlan {
+    const scope = targetTopicId
+      ? curriculumService.getPrerequisiteChain(targetTopicId)
+      : curriculumService.getAllTopics();
+
+    const progress = new Map(progressService.getTopicProgress(userId).map(tp => [tp.topicId, tp]));
+    const mastered = new Map<string, boolean>();
+    const isConceptMastered = (concept: string) => {
+      if (!mastered.has(concept)) {
+        mastered.set(concept, masteryService.getMastery(userId, concept).mastery >= MASTERY_THRESHOLD);
+      }
+      return mastered.get(concept)!;
+    };
+
+    const statuses = new Map<string, PlanItemStatus>();
+    const topics: PlannedTopic[] = this.order(scope).map(topic => {
+      const topicProgress = progress.get(topic.id);
+      const completedLessons = new Set(topicProgress?.completedLessons ?? []);
+      const topicCompleted = topicProgress?.status === 'completed';
+      const masteryLevel = topicProgress?.masteryLevel ?? masteryService.getTopicMastery(userId, topic.id);
+      const topicMastered = masteryLevel >= MASTERY_THRESHOLD * 100;
+
+      const lessons: PlannedLesson[] = curriculumService.getLessonsForTopic(topic.id).map(lesson => {
+        const concepts = curriculumService.getExercisesForLesson(lesson.id).flatMap(e => e.concepts);
+        let status: PlanItemStatus = 'todo';
+        if (topicCompleted || completedLessons.has(lesson.id)) {
+          status = 'completed';
+        } else if (topicMastered || (concepts.length > 0 && concepts.every(isConceptMastered))) {
+          status = 'mastered';
+        }
+        return { lessonId: lesson.id, title: lesson.title, estimatedMinutes: lesson.estimatedMinutes, status };
+      });
+
+      const status = topicStatus(lessons);
+      statuses.set(topic.id, status);
+
+      return {
+        topicId: topic.id,
+        title: topic.title,
+        level: topic.level,
+        estimatedWeeks: topic.estimatedWeeks,
+        status,
+        masteryLevel,
+        // Topics are ordered prerequisites first, so every prerequisite has a status by now
+        missingPrerequisites: topic.prerequisites.filter(id => (statuses.get(id) ?? 'todo') === 'todo'),
+        lessons,
+        remainingMinutes: sumMinutes(lessons.filter(l => l.status === 'todo'))
+      };
+    });
+
+    const available = topics.filter(t => t.missingPrerequisites.length === 0);
+    const nextLesson = available.flatMap(t => t.lessons).find(l => l.status === 'todo');
+
+    return {
+      targetTopicId,
+      topics,
+      nextLessonId: nextLesson?.lessonId,
+      lockedTopicIds: topics.filter(t => t.status === 'todo' && t.missingPrerequisites.length > 0).map(t => t.topicId),
+      totalMinutes: topics.reduce((sum, t) => sum + sumMinutes(t.lessons), 0),
+      remainingMinutes: topics.reduce((sum, t) => sum + t.remainingMinutes, 0),
+      remainingWeeks: Math.round(topics.reduce((sum, t) => sum + remainingWeeks(t), 0) * 10) / 10
+    };
+  }
+
+  /**
+   * Topological order of the given topics, taking the lowest curriculum
+   * `order` whenever several are ready. Prerequisites outside the set are
+   * ignored; topics caught in a cycle go last.
+   */
+  private order(topics: Topic[]): Topic[] {
+    const ids = new Set(topics.map(t => t.id));
+    const pending = [...topics].sort((a, b) => a.order - b.order);
+    const placed = new Set<string>();
+    const ordered: Topic[] = [];
+
+    for (;;) {
+      const next = pending.find(t => t.prerequisites.every(id => !ids.has(id) || placed.has(id)));
+      if (!next) break;
+      ordered.push(next);
+      placed.add(next.id);
+      pending.splice(pending.indexOf(next), 1);
+    }
+
+    return [...ordered, ...pending];
+  }
+}
+
+function topicStatus(lessons: PlannedLesson[]): PlanItemStatus {
+  if (lessons.length === 0 || lessons.some(l => l.status === 'todo')) return 'todo';
+  return lessons.every(l => l.status === 'completed') ? 'completed' : 'mastered';
+}
+
+function sumMinutes(lessons: PlannedLesson[]): number {
+  return lessons.reduce((sum, l) => sum + l.estimatedMinutes, 0);
+}
+
+function remainingWeeks(topic: PlannedTopic): number {
+  const total = sumMinutes(topic.lessons);
+  return total > 0 ? topic.estimatedWeeks * (topic.remainingMinutes / total) : 0;
+}
+
+export const learningPathService = new LearningPathService();
@@ -0,0 +1,141 @@
+import { getDatabase } from '../db/index.js';
+import type { ConceptMastery, WeakArea } from '@learn-pg/shared';
+import { curriculumService } from './curriculum-service.js';
+
+export interface KnowledgeTracingParams {
+  pInit: number; // prior probability a concept is already known
+  pLearn: number; // probability of learning it from one exercise attempt
+  pSlip: number; // probability of failing despite knowing it
+  pGuess: number; // probability of succeeding without knowing it
+}
+
+export type MasterySource = 'exercise' | 'evaluation';
+
+/**
+ * Bayesian knowledge tracing over concept tags. Every exercise submission and
+ * evaluation answer is an observation for each concept it is tagged with.
+ */
+export class MasteryService {
+  private params: KnowledgeTracingParams = {
+    pInit: 0.1,
+    pLearn: 0.15,
+    pSlip: 0.1,
+    pGuess: 0.2
+  };
+
+  // A concept is weak once it has been practised and is still unlikely to be known
+  private weakThreshold = 0.6;
+  private weakMinAttempts = 2;
+
+  /**
+   * Updates mastery for each concept given a 0-1 score. Exercises are
+   * practice, so a learning transition follows each observation; evaluation
+   * answers only measure.
+   */
+  recordObservation(userId: string, concepts: string[], score: number, source: MasterySource): void {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const upsert = db.prepare(`
+      INSERT INTO concept_mastery (user_id, concept, p_known, attempts, correct, updated_at)
+      VALUES (?, ?, ?, 1, ?, ?)
+      ON CONFLICT(user_id, concept) DO UPDATE SET
+        p_known = excluded.p_known,
+        attempts = attempts + 1,
+        correct = correct + excluded.correct,
+        updated_at = excluded.updated_at
+    `);
+
+    db.transaction(() => {
+      for (const concept of new Set(concepts)) {
+        const pKnown = this.update(this.getMastery(userId, concept).mastery, score, source === 'exercise');
+        upsert.run(userId, concept, pKnown, score, now);
+      }
+    })();
+  }
+
+  getMastery(userId: string, concept: string): ConceptMastery {
+    const db = getDatabase();
+    const row = db.prepare(`
+      SELECT * FROM concept_mastery WHERE user_id = ? AND concept = ?
+    `).get(userId, concept) as any;
+
+    return row ? this.toConceptMastery(row) : {
+      concept,
+      mastery: this.params.pInit,
+      attempts: 0,
+      correct: 0
+    };
+  }
+
+  getAllMastery(userId: string): ConceptMastery[] {
+    const db = getDatabase();
+    const rows = db.prepare(`
+      SELECT * FROM concept_mastery WHERE user_id = ? ORDER BY concept
+    `).all(userId) as any[];
+
+    return rows.map(row => this.toConceptMastery(row));
+  }
+
+  /** Mean mastery of the concepts a topic's exercises teach, as 0-100. */
+  getTopicMastery(userId: string, topicId: string): number {
+    const concepts = curriculumService.getConceptsForTopic(topicId);
+    if (concepts.length === 0) {
+      return 0;
+    }
+
+    const total = concepts.reduce((sum, c) => sum + this.getMastery(userId, c).mastery, 0);
+    return Math.round((total / concepts.length) * 100);
+  }
+
+  getWeakAreas(userId: string, limit: number = 10): WeakArea[] {
+    return this.getAllMastery(userId)
+      .filter(m => m.attempts >= this.weakMinAttempts && m.mastery < this.weakThreshold)
+      .sort((a, b) => a.mastery - b.mastery)
+      .slice(0, limit)
+      .map(m => this.toWeakArea(m));
+  }
+
+  private update(pKnown: number, score: number, learning: boolean): number {
+    const { pSlip, pGuess, pLearn } = this.params;
+
+    const ifCorrect = (pKnown * (1 - pSlip)) / (pKnown * (1 - pSlip) + (1 - pKnown) * pGuess);
+    const ifIncorrect = (pKnown * pSlip) / (pKnown * pSlip + (1 - pKnown) * (1 - pGuess));
+    const posterior = score * ifCorrect + (1 - score) * ifIncorrect;
+
+    return learning ? posterior + (1 - posterior) * pLearn : posterior;
+  }
+
+  private toWeakArea(mastery: ConceptMastery): WeakArea {
+    // Recommend the lessons that exercise this concept, earliest topic first
+    const lessons = curriculumService.getExercisesForConcept(mastery.concept)
+      .map(e => curriculumService.getLesson(e.lessonId))
+      .filter((l): l is NonNullable<typeof l> => l !== undefined)
+      .sort((a, b) =>
+        (curriculumService.getTopic(a.topicId)?.order ?? 0) - (curriculumService.getTopic(b.topicId)?.order ?? 0) ||
+        a.order - b.order
+      );
+    const topic = lessons.length > 0 ? curriculumService.getTopic(lessons[0].topicId) : undefined;
+
+    return {
+      concept: mastery.concept,
+      topicId: topic?.id,
+      topicTitle: topic?.title,
+      mastery: mastery.mastery,
+      totalAttempts: mastery.attempts,
+      recommendedLessons: Array.from(new Set(lessons.map(l => l.id))).slice(0, 3)
+    };
+  }
+
+  private toConceptMastery(row: any): ConceptMastery {
+    return {
+      concept: row.concept,
+      mastery: row.p_known,
+      attempts: row.attempts,
+      correct: row.correct,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+export const masteryService = new MasteryService();
@@ -0,0 +1,295 @@
+import type {
+  Exercise,
+  SqlPolicy,
+  PlaygroundDataset,
+  PlaygroundHistoryEntry,
+  PlaygroundResult,
+  PlaygroundTarget
+} from '@learn-pg/shared';
+import { parseExplainPlan } from '@learn-pg/shared';
+import { getDatabase } from '../db/index.js';
+import { curriculumService } from './curriculum-service.js';
+import { dockerService } from './docker-service.js';
+import { sandboxService } from './sandbox-service.js';
+import { checkSqlPolicy } from '../sql/policy.js';
+import { splitStatements } from '../sql/statements.js';
+
+const HISTORY_LIMIT = 100; // Entries kept per user and target
+
+interface Fixture {
+  title: string;
+  exercises: Exercise[]; // Whose setupSql make up the dataset, in curriculum order
+  useSuperuser: boolean; // Only for a single exercise that requires it
+  policy: SqlPolicy;
+}
+
+function targetKey(target: PlaygroundTarget): string {
+  return `${target.type}:${target.id}`;
+}
+
+/**
+ * Free-form SQL against a topic's or exercise's dataset. Each user gets a
+ * sandbox per target that keeps their changes until they reset it; queries
+ * are kept in a history of their own and never count as exercise attempts.
+ * Queries run as the learner role, except in the dataset of a single
+ * exercise that requires the superuser, where that exercise's policy applies.
+ */
+export class PlaygroundService {
+  // Dataset loads in progress, by user and sandbox key
+  private loading = new Map<string, Promise<PlaygroundDataset['skippedSetups']>>();
+
+  /** The dataset behind a target, or null if the topic or exercise doesn't exist. */
+  getFixture(target: PlaygroundTarget): Fixture | null {
+    if (target.type === 'exercise') {
+      const exercise = curriculumService.getExercise(target.id);
+      if (!exercise) return null;
+      return {
+        title: exercise.title,
+        exercises: [exercise],
+        useSuperuser: exercise.requiresSuperuser ?? false,
+        policy: exercise.policy ?? {}
+      };
+    }
+
+    const topic = curriculumService.getTopic(target.id);
+    if (!topic) return null;
+    return {
+      title: topic.title,
+      exercises: curriculumService.getLessonsForTopic(topic.id)
+        .flatMap(lesson => curriculumService.getExercisesForLesson(lesson.id)),
+      // A topic's dataset mixes many exercises, so none of their exemptions apply
+      useSuperuser: false,
+      policy: {}
+    };
+  }
+
+  /** Leases the sandbox, loading the dataset only if it didn't exist yet. */
+  async open(userId: string, target: PlaygroundTarget): Promise<PlaygroundDataset> {
+    const fixture = this.requireFixture(target);
+    const { schema, skippedSetups } = await this.acquire(userId, this.sandboxKey(target), fixture);
+    return this.describe(target, fixture, schema, skippedSetups ?? []);
+  }
+
+  /** Throws away the user's changes and loads the dataset again. */
+  async reset(userId: string, target: PlaygroundTarget): Promise<PlaygroundDataset> {
+    const fixture = this.requireFixture(target);
+    const key = this.sandboxKey(target);
+    const { schema, skippedSetups: pending } = await this.acquire(userId, key, fixture);
+
+    // A load that was already running is as fresh as a new one
+    const skippedSetups = pending ?? await this.load(userId, key, fixture, schema);
+    return this.describe(target, fixture, schema, skippedSetups);
+  }
+
+  /**
+   * Runs a query and keeps its changes. With `explain` the query is run
+   * under EXPLAIN ANALYZE in a rolled-back transaction instead, so
+   * explaining an UPDATE doesn't apply it.
+   */
+  async execute(
+    userId: string,
+    target: PlaygroundTarget,
+    query: string,
+    options: { explain?: boolean } = {}
+  ): Promise<PlaygroundResult> {
+    const fixture = this.requireFixture(target);
+    const key = this.sandboxKey(target);
+    const startTime = Date.now();
+
+    const outcome = await this.run(userId, key, fixture, query, options.explain ?? false);
+    const result: PlaygroundResult = { ...outcome, executionTimeMs: Date.now() - startTime };
+
+    this.recordQuery(userId, target, query, result);
+    return result;
+  }
+
+  /** Newest first; no more than are kept, whatever `limit` asks for. */
+  getHistory(userId: string, target: PlaygroundTarget, limit: number = 50): PlaygroundHistoryEntry[] {
+    const rows = getDatabase().prepare(`
+      SELECT * FROM playground_queries
+      WHERE user_id = ? AND target = ?
+      ORDER BY id DESC
+      LIMIT ?
+    `).all(userId, targetKey(target), Math.min(limit, HISTORY_LIMIT)) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      query: row.query,
+      isError: row.is_error === 1,
+      rowCount: row.row_count,
+      executionTimeMs: row.execution_time_ms,
+      executedAt: row.executed_at
+    }));
+  }
+
+  private async run(
+    userId: string,
+    key: string,
+    fixture: Fixture,
+    query: string,
+    explain: boolean
+  ): Promise<Omit<PlaygroundResult, 'executionTimeMs'>> {
+    const empty = { rows: [], rowCount: 0, fields: [] };
+
+    const policyViolation = await checkSqlPolicy(query, fixture.policy);
+    if (policyViolation) {
+      return { ...empty, error: policyViolation.message, policyViolation };
+    }
+    if (explain && splitStatements(query).length !== 1) {
+      return { ...empty, error: 'Explain works on one statement at a time' };
+    }
+
+    // A sandbox collected while the page was open comes back with its dataset
+    const { schema } = await this.acquire(userId, key, fixture);
+
+    try {
+      if (explain) {
+        const queryPlan = await dockerService.withLearnerSession(
+          schema,
+          { useSuperuser: fixture.useSuperuser, mode: 'rollback' },
+          session => dockerService.executeExplain(query, undefined, undefined, session)
+        );
+        return { ...empty, command: 'EXPLAIN', plan: parseExplainPlan(queryPlan) };
+      }
+
+      const result = await dockerService.withLearnerSession(
+        schema,
+        { useSuperuser: fixture.useSuperuser, mode: 'commit' },
+        session => session.execute(query)
+      );
+      const rows = result.rows || [];
+      return {
+        rows,
+        rowCount: result.rowCount ?? rows.length,
+        fields: (result.fields || []).map((field: any) => field.name),
+        command: result.command
+      };
+    } catch (error: any) {
+      return { ...empty, error: error.message || 'Query execution failed' };
+    }
+  }
+
+  /**
+   * Leases the sandbox and waits for its dataset: loaded here if the schema
+   * is new, or by a concurrent call still loading it. `skippedSetups` is
+   * undefined when no load was involved.
+   */
+  private async acquire(
+    userId: string,
+    key: string,
+    fixture: Fixture
+  ): Promise<{ schema: string; skippedSetups?: PlaygroundDataset['skippedSetups'] }> {
+    const { schema, created } = await sandboxService.acquire(userId, key, fixture.useSuperuser);
+    const skippedSetups = created
+      ? await this.load(userId, key, fixture, schema)
+      : await this.loading.get(`${userId}:${key}`);
+    return { schema, skippedSetups };
+  }
+
+  /** Loads the dataset, or joins the load already running for this sandbox. */
+  private load(
+    userId: string,
+    key: string,
+    fixture: Fixture,
+    schema: string
+  ): Promise<PlaygroundDataset['skippedSetups']> {
+    const loadKey = `${userId}:${key}`;
+    const pending = this.loading.get(loadKey);
+    if (pending) return pending;
+
+    const load = this.loadFixture(fixture, schema).finally(() => this.loading.delete(loadKey));
+    this.loading.set(loadKey, load);
+    return load;
+  }
+
+  /**
+   * Recreates the schema and runs each exercise's setupSql in it. A topic's
+   * fixtures were written independently, so one that fails is skipped and
+   * reported rather than failing the whole dataset. So is one that needs the
+   * superuser, since topic datasets are loaded as the learner role.
+   */
+  private async loadFixture(fixture: Fixture, schema: string): Promise<PlaygroundDataset['skippedSetups']> {
+    await dockerService.resetSchema(schema, fixture.useSuperuser);
+
+    const skipped: PlaygroundDataset['skippedSetups'] = [];
+    const loaded = new Set<string>();
+    for (const exercise of fixture.exercises) {
+      const setupSql = exercise.setupSql?.trim();
+      if (!setupSql || loaded.has(setupSql)) continue;
+      loaded.add(setupSql);
+
+      if (exercise.requiresSuperuser && !fixture.useSuperuser) {
+        skipped.push({ exerciseId: exercise.id, error: "needs the superuser; open it from the exercise's own playground" });
+        continue;
+      }
+
+      try {
+        // Setup may load a lot of data, so it runs without a timeout
+        if (fixture.useSuperuser) {
+          await dockerService.executeQueryWithSchemaAsAdmin(setupSql, schema, undefined, 0);
+        } else {
+          await dockerService.executeQueryWithSchema(setupSql, schema, undefined, 0);
+        }
+      } catch (error: any) {
+        skipped.push({ exerciseId: exercise.id, error: error.message });
+      }
+    }
+    return skipped;
+  }
+
+  private async describe(
+    target: PlaygroundTarget,
+    fixture: Fixture,
+    schema: string,
+    skippedSetups: PlaygroundDataset['skippedSetups']
+  ): Promise<PlaygroundDataset> {
+    const tables = await dockerService.getTableInfo(schema);
+    return {
+      target,
+      title: fixture.title,
+      tables: tables.map(table => ({ name: table.tablename, size: table.size })),
+      skippedSetups
+    };
+  }
+
+  private recordQuery(userId: string, target: PlaygroundTarget, query: string, result: PlaygroundResult): void {
+    const db = getDatabase();
+    const key = targetKey(target);
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO playground_queries (user_id, target, query, is_error, row_count, execution_time_ms, executed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        userId,
+        key,
+        query,
+        result.error ? 1 : 0,
+        result.error ? null : result.rowCount,
+        result.executionTimeMs,
+        new Date().toISOString()
+      );
+
+      db.prepare(`
+        DELETE FROM playground_queries
+        WHERE user_id = ? AND target = ? AND id NOT IN (
+          SELECT id FROM playground_queries WHERE user_id = ? AND target = ? ORDER BY id DESC LIMIT ?
+        )
+      `).run(userId, key, userId, key, HISTORY_LIMIT);
+    })();
+  }
+
+  private requireFixture(target: PlaygroundTarget): Fixture {
+    const fixture = this.getFixture(target);
+    if (!fixture) {
+      throw new Error(`${target.type === 'topic' ? 'Topic' : 'Exercise'} not found: ${target.id}`);
+    }
+    return fixture;
+  }
+
+  private sandboxKey(target: PlaygroundTarget): string {
+    return `playground:${targetKey(target)}`;
+  }
+}
+
+export const playgroundService = new PlaygroundService();
@@ -1,4 +1,5 @@
 import { getDatabase } from '../db/index.js';
+import { masteryService } from './mastery-service.js';
 import type {
   UserProgress,
   TopicProgress,
@@ -9,19 +10,17 @@ import type {
 } from '@learn-pg/shared';
 
 export class ProgressService {
-  private userId = 'default';
-
-  getUserProgress(): UserProgress {
+  getUserProgress(userId: string): UserProgress {
     const db = getDatabase();
     const row = db.prepare(`
       SELECT * FROM user_progress WHERE user_id = ?
-    `).get(this.userId) as any;
+    `).get(userId) as any;
 
     if (!row) {
-      return this.createDefaultUser();
+      return this.createDefaultUser(userId);
     }
 
-    const topicProgress = this.getTopicProgress();
+    const topicProgress = this.getTopicProgress(userId);
 
     return {
       userId: row.user_id,
@@ -38,7 +37,7 @@ export class ProgressService {
     };
   }
 
-  updateUserProgress(updates: Partial<UserProgress>): void {
+  updateUserProgress(userId: string, updates: Partial<UserProgress>): void {
     const db = getDatabase();
     const fields: string[] = [];
     const values: any[] = [];
@@ -79,7 +78,7 @@ export class ProgressService {
     fields.push('updated_at = ?');
     values.push(new Date().toISOString());
 
-    values.push(this.userId);
+    values.push(userId);
 
     db.prepare(`
       UPDATE user_progress
@@ -88,13 +87,13 @@ export class ProgressService {
     `).run(...values);
   }
 
-  getTopicProgress(topicId?: string): TopicProgress[] {
+  getTopicProgress(userId: string, topicId?: string): TopicProgress[] {
     const db = getDatabase();
     const query = topicId
       ? 'SELECT * FROM topic_progress WHERE user_id = ? AND topic_id = ?'
       : 'SELECT * FROM topic_progress WHERE user_id = ?';
 
-    const params = topicId ? [this.userId, topicId] : [this.userId];
+    const params = topicId ? [userId, topicId] : [userId];
     const rows = db.prepare(query).all(...params) as any[];
 
     return rows.map(row => ({
@@ -105,24 +104,24 @@ export class ProgressService {
       struggledExercises: JSON.parse(row.struggled_exercises),
       startedAt: row.started_at,
       completedAt: row.completed_at,
-      masteryLevel: row.mastery_level
+      masteryLevel: masteryService.getTopicMastery(userId, row.topic_id)
     }));
   }
 
-  updateTopicProgress(topicId: string, updates: Partial<TopicProgress>): void {
+  updateTopicProgress(userId: string, topicId: string, updates: Partial<TopicProgress>): void {
     const db = getDatabase();
 
     // Check if record exists
     const existing = db.prepare(`
       SELECT id FROM topic_progress WHERE user_id = ? AND topic_id = ?
-    `).get(this.userId, topicId);
+    `).get(userId, topicId);
 
     if (!existing) {
       // Insert new record
       db.prepare(`
         INSERT INTO topic_progress (user_id, topic_id, status, started_at)
         VALUES (?, ?, ?, ?)
-      `).run(this.userId, topicId, updates.status || 'in-progress', new Date().toISOString());
+      `).run(userId, topicId, updates.status || 'in-progress', new Date().toISOString());
     }
 
     const fields: string[] = [];
@@ -161,7 +160,7 @@ export class ProgressService {
     if (fields.length > 0) {
       fields.push('updated_at = ?');
       values.push(new Date().toISOString());
-      values.push(this.userId, topicId);
+      values.push(userId, topicId);
 
       db.prepare(`
         UPDATE topic_progress
@@ -171,7 +170,7 @@ export class ProgressService {
     }
   }
 
-  recordExerciseAttempt(attempt: Omit<ExerciseAttempt, 'id' | 'userId' | 'createdAt'>): void {
+  recordExerciseAttempt(userId: string, attempt: Omit<ExerciseAttempt, 'id' | 'userId' | 'createdAt'>): void {
     const db = getDatabase();
 
     db.prepare(`
@@ -181,7 +180,7 @@ export class ProgressService {
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       attempt.exerciseId,
-      this.userId,
+      userId,
       attempt.submittedQuery,
       attempt.isCorrect ? 1 : 0,
       attempt.feedback,
@@ -197,17 +196,17 @@ export class ProgressService {
         SET total_exercises_completed = total_exercises_completed + 1,
             updated_at = ?
         WHERE user_id = ?
-      `).run(new Date().toISOString(), this.userId);
+      `).run(new Date().toISOString(), userId);
     }
   }
 
-  getExerciseAttempts(exerciseId: string): ExerciseAttempt[] {
+  getExerciseAttempts(userId: string, exerciseId: string): ExerciseAttempt[] {
     const db = getDatabase();
     const rows = db.prepare(`
       SELECT * FROM exercise_attempts
       WHERE user_id = ? AND exercise_id = ?
       ORDER BY created_at DESC
-    `).all(this.userId, exerciseId) as any[];
+    `).all(userId, exerciseId) as any[];
 
     return rows.map(row => ({
       id: row.id.toString(),
@@ -223,17 +222,17 @@ export class ProgressService {
     }));
   }
 
-  startSession(): string {
+  startSession(userId: string): string {
     const db = getDatabase();
     const result = db.prepare(`
       INSERT INTO session_records (user_id, start_time)
       VALUES (?, ?)
-    `).run(this.userId, new Date().toISOString());
+    `).run(userId, new Date().toISOString());
 
     return result.lastInsertRowid.toString();
   }
 
-  endSession(sessionId: string, updates: Partial<SessionRecord>): void {
+  endSession(userId: string, sessionId: string, updates: Partial<SessionRecord>): void {
     const db = getDatabase();
     const fields: string[] = ['end_time = ?'];
     const values: any[] = [new Date().toISOString()];
@@ -263,23 +262,23 @@ export class ProgressService {
       values.push(updates.totalTimeMinutes);
     }
 
-    values.push(sessionId);
+    values.push(sessionId, userId);
 
     db.prepare(`
       UPDATE session_records
       SET ${fields.join(', ')}
-      WHERE id = ?
+      WHERE id = ? AND user_id = ?
     `).run(...values);
   }
 
-  recordStruggledConcept(concept: string, topicId: string, exerciseId: string): void {
+  recordStruggledConcept(userId: string, concept: string, topicId: string, exerciseId: string): void {
     const db = getDatabase();
 
     const existing = db.prepare(`
       SELECT id, exercises_failed, struggle_count
       FROM struggled_concepts
       WHERE user_id = ? AND concept = ? AND topic_id = ?
-    `).get(this.userId, concept, topicId) as any;
+    `).get(userId, concept, topicId) as any;
 
     if (existing) {
       const exercisesFailed = JSON.parse(existing.exercises_failed);
@@ -305,7 +304,7 @@ export class ProgressService {
           first_struggle_date, last_struggle_date, struggle_count
         ) VALUES (?, ?, ?, ?, ?, ?, 1)
       `).run(
-        this.userId,
+        userId,
         concept,
         topicId,
         JSON.stringify([exerciseId]),
@@ -315,67 +314,13 @@ export class ProgressService {
     }
   }
 
-  getWeakAreas(): WeakArea[] {
-    const db = getDatabase();
-    const rows = db.prepare(`
-      SELECT * FROM weak_areas
-      WHERE user_id = ?
-      ORDER BY failure_rate DESC
-      LIMIT 10
-    `).all(this.userId) as any[];
-
-    return rows.map(row => ({
-      concept: row.concept,
-      topicId: row.topic_id,
-      topicTitle: row.topic_title,
-      failureRate: row.failure_rate,
-      totalAttempts: row.total_attempts,
-      recommendedLessons: JSON.parse(row.recommended_lessons)
-    }));
-  }
-
-  updateWeakAreas(topicId: string, topicTitle: string): void {
-    const db = getDatabase();
-
-    // Calculate failure rates from exercise attempts
-    const struggles = db.prepare(`
-      SELECT concept, COUNT(*) as struggle_count
-      FROM struggled_concepts
-      WHERE user_id = ? AND topic_id = ?
-      GROUP BY concept
-    `).all(this.userId, topicId) as any[];
-
-    for (const struggle of struggles) {
-      const totalAttempts = db.prepare(`
-        SELECT COUNT(*) as count
-        FROM exercise_attempts
-        WHERE user_id = ? AND exercise_id LIKE ?
-      `).get(this.userId, `${topicId}%`) as any;
-
-      const failureRate = totalAttempts.count > 0
-        ? struggle.struggle_count / totalAttempts.count
-        : 0;
-
-      db.prepare(`
-        INSERT OR REPLACE INTO weak_areas (
-          user_id, concept, topic_id, topic_title,
-          failure_rate, total_attempts, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `).run(
-        this.userId,
-        struggle.concept,
-        topicId,
-        topicTitle,
-        failureRate,
-        totalAttempts.count,
-        new Date().toISOString()
-      );
-    }
+  getWeakAreas(userId: string): WeakArea[] {
+    return masteryService.getWeakAreas(userId);
   }
 
-  private createDefaultUser(): UserProgress {
+  private createDefaultUser(userId: string): UserProgress {
     return {
-      userId: this.userId,
+      userId,
       topicProgress: [],
       skillRating: 1,
       totalExercisesCompleted: 0,
@@ -387,9 +332,9 @@ export class ProgressService {
     };
   }
 
-  updateStreak(): void {
+  updateStreak(userId: string): void {
     const db = getDatabase();
-    const progress = this.getUserProgress();
+    const progress = this.getUserProgress(userId);
     const lastActivity = progress.lastActivityDate ? new Date(progress.lastActivityDate) : null;
     const now = new Date();
 
@@ -411,7 +356,7 @@ export class ProgressService {
       newStreak = 1;
     }
 
-    this.updateUserProgress({ streak: newStreak });
+    this.updateUserProgress(userId, { streak: newStreak });
   }
 }
 
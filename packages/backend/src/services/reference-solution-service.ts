@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { dockerService } from './docker-service.js';
+
+export interface ReferenceResult {
+  columns: string[];
+  rows: any[];
+}
+
+/**
+ * Runs reference solutions and caches their output, keyed by the owner
+ * (exercise or question id) plus a hash of the setup SQL and solution so an
+ * edited exercise never reuses a stale result.
+ */
+export class ReferenceSolutionService {
+  private cache: Map<string, ReferenceResult> = new Map();
+
+  /**
+   * Runs the solution against a schema that was just set up, rolling it back
+   * so the learner still starts from the untouched fixture data. Does nothing
+   * if the result is already cached.
+   */
+  async prime(
+    id: string,
+    setupSql: string | undefined,
+    solutionQuery: string,
+    schema: string,
+    useSuperuser: boolean = false
+  ): Promise<ReferenceResult> {
+    const key = this.cacheKey(id, setupSql, solutionQuery);
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await dockerService.executeAndRollback(solutionQuery, schema, { useSuperuser });
+    const reference = this.toReferenceResult(result);
+    this.cache.set(key, reference);
+    return reference;
+  }
+
+  /**
+   * Returns the cached reference result. On a miss the solution runs in a
+   * scratch schema built from `setupSql`, since the exercise schema may
+   * already contain the learner's changes; the name is random so concurrent
+   * misses don't collide.
+   */
+  async getExpectedResult(
+    id: string,
+    setupSql: string | undefined,
+    solutionQuery: string,
+    useSuperuser: boolean = false
+  ): Promise<ReferenceResult> {
+    const key = this.cacheKey(id, setupSql, solutionQuery);
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const scratchSchema = `ref_${crypto.randomBytes(6).toString('hex')}`;
+    const result = await dockerService.executeAndRollback(solutionQuery, scratchSchema, {
+      useSuperuser,
+      setupSql: setupSql ?? ''
+    });
+    const reference = this.toReferenceResult(result);
+    this.cache.set(key, reference);
+    return reference;
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private toReferenceResult(result: any): ReferenceResult {
+    const rows = result.rows || [];
+    const columns = result.fields?.map((f: any) => f.name) ?? Object.keys(rows[0] || {});
+    return { columns, rows };
+  }
+
+  private cacheKey(id: string, setupSql: string | undefined, solutionQuery: string): string {
+    const hash = crypto.createHash('sha256')
+      .update(setupSql || '')
+      .update('\0')
+      .update(solutionQuery)
+      .digest('hex');
+    return `${id}:${hash}`;
+  }
+}
+
+export const referenceSolutionService = new ReferenceSolutionService();
@@ -0,0 +1,254 @@
+import { getDatabase } from '../db/index.js';
+import type { DueReviewItem, ReviewCard, ReviewItemType, ReviewOutcome } from '@learn-pg/shared';
+import { curriculumService } from './curriculum-service.js';
+import { exerciseService } from './exercise-service.js';
+import { evaluationService } from './evaluation-service.js';
+import { masteryService } from './mastery-service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// Exercises that need a live session pair, and free-form scenarios, can't be
+// answered from the review page
+const UNREVIEWABLE_EXERCISE_TYPES = new Set(['multi-session']);
+const UNREVIEWABLE_QUESTION_TYPES = new Set(['scenario-based']);
+
+/** SQLite CURRENT_TIMESTAMP values are UTC without a zone marker. */
+function parseTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Spaced repetition (SM-2) over solved exercises and answered evaluation
+ * questions. Cards are seeded from exercise_attempts and evaluation_responses,
+ * so anything practised before the queue existed is scheduled too.
+ */
+export class ReviewService {
+  getDueItems(userId: string, limit: number = 20): { items: DueReviewItem[]; totalDue: number } {
+    this.seedFromHistory(userId);
+
+    const db = getDatabase();
+    const rows = db.prepare(`
+      SELECT * FROM review_cards
+      WHERE user_id = ? AND due_at <= ?
+      ORDER BY due_at ASC
+    `).all(userId, new Date().toISOString()) as any[];
+
+    const items = rows
+      .map(row => this.toDueItem(this.toCard(row)))
+      .filter((item): item is DueReviewItem => item !== null);
+
+    return { items: this.interleave(items).slice(0, limit), totalDue: items.length };
+  }
+
+  async submitReview(userId: string, cardId: number, answer: string): Promise<ReviewOutcome> {
+    const db = getDatabase();
+    const row = db.prepare(`
+      SELECT * FROM review_cards WHERE id = ? AND user_id = ?
+    `).get(cardId, userId) as any;
+
+    if (!row) {
+      throw new Error(`Review card not found: ${cardId}`);
+    }
+
+    const card = this.toCard(row);
+    const outcome = await this.grade(userId, card, answer);
+
+    const quality = this.qualityFor(outcome.isCorrect, outcome.score);
+    const next = this.schedule(card, quality);
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE review_cards
+        SET ease_factor = ?, interval_days = ?, repetitions = ?, lapses = ?,
+            due_at = ?, last_reviewed_at = ?
+        WHERE id = ?
+      `).run(next.easeFactor, next.intervalDays, next.repetitions, next.lapses, next.dueAt, now, card.id);
+
+      db.prepare(`
+        INSERT INTO review_log (card_id, quality, is_correct, interval_days, reviewed_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(card.id, quality, outcome.isCorrect ? 1 : 0, next.intervalDays, now);
+    })();
+
+    // A review is practice like any other attempt
+    masteryService.recordObservation(userId, outcome.concepts, outcome.score, 'exercise');
+
+    return {
+      isCorrect: outcome.isCorrect,
+      quality,
+      card: { ...next, lastReviewedAt: now },
+      validation: outcome.validation,
+      answer: outcome.answer
+    };
+  }
+
+  /**
+   * Creates cards for anything practised that has no card yet. Solved
+   * exercises start one day after the first success; evaluation questions
+   * are due a day after a correct answer, or immediately after a wrong one.
+   */
+  seedFromHistory(userId: string): void {
+    const db = getDatabase();
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO review_cards (
+        user_id, item_type, item_id, interval_days, repetitions, due_at, last_reviewed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const solved = db.prepare(`
+      SELECT exercise_id, MIN(created_at) AS first_solved
+      FROM exercise_attempts
+      WHERE user_id = ? AND is_correct = 1
+      GROUP BY exercise_id
+    `).all(userId) as any[];
+
+    // Only the latest answer to each question counts
+    const responses = db.prepare(`
+      SELECT r.question_id, r.is_correct, r.created_at
+      FROM evaluation_responses r
+      JOIN evaluation_sessions s ON s.id = r.session_id
+      WHERE s.user_id = ?
+      ORDER BY r.id
+    `).all(userId) as any[];
+    const answered = new Map<string, any>(responses.map(r => [r.question_id, r]));
+
+    db.transaction(() => {
+      for (const row of solved) {
+        const solvedAt = parseTimestamp(row.first_solved);
+        insert.run(userId, 'exercise', row.exercise_id, 1, 1, addDays(solvedAt, 1).toISOString(), solvedAt.toISOString());
+      }
+
+      for (const row of answered.values()) {
+        const answeredAt = parseTimestamp(row.created_at);
+        const correct = Boolean(row.is_correct);
+        insert.run(
+          userId,
+          'evaluation',
+          row.question_id,
+          correct ? 1 : 0,
+          correct ? 1 : 0,
+          (correct ? addDays(answeredAt, 1) : answeredAt).toISOString(),
+          answeredAt.toISOString()
+        );
+      }
+    })();
+  }
+
+  private async grade(userId: string, card: ReviewCard, answer: string) {
+    if (card.itemType === 'exercise') {
+      const exercise = curriculumService.getExercise(card.itemId);
+      if (!exercise) {
+        throw new Error(`Exercise not found: ${card.itemId}`);
+      }
+      const validation = await exerciseService.validateExercise(userId, card.itemId, answer);
+      return {
+        isCorrect: validation.isValid,
+        score: validation.isValid ? 1 : 0,
+        concepts: exercise.concepts,
+        validation
+      };
+    }
+
+    const question = evaluationService.getQuestionBank().find(q => q.id === card.itemId);
+    if (!question) {
+      throw new Error(`Question not found: ${card.itemId}`);
+    }
+    const result = await evaluationService.checkAnswer(question, answer);
+    return {
+      isCorrect: result.isCorrect,
+      score: result.score ?? (result.isCorrect ? 1 : 0),
+      concepts: question.concepts,
+      answer: { ...result, explanation: evaluationService.getExplanation(question) }
+    };
+  }
+
+  /** SM-2 response quality: 5 for a correct answer, below 3 (a lapse) otherwise. */
+  private qualityFor(isCorrect: boolean, score: number): number {
+    if (isCorrect) return 5;
+    return score >= 0.5 ? 2 : 1;
+  }
+
+  private schedule(card: ReviewCard, quality: number): ReviewCard {
+    let { repetitions, intervalDays, lapses } = card;
+
+    if (quality >= 3) {
+      intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * card.easeFactor);
+      repetitions++;
+    } else {
+      repetitions = 0;
+      intervalDays = 1;
+      lapses++;
+    }
+
+    const easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+    );
+
+    return {
+      ...card,
+      easeFactor,
+      intervalDays,
+      repetitions,
+      lapses,
+      dueAt: addDays(new Date(), intervalDays).toISOString()
+    };
+  }
+
+  /**
+   * Round-robin across topics so consecutive reviews rarely come from the
+   * same topic; topics with the most overdue card go first.
+   */
+  private interleave(items: DueReviewItem[]): DueReviewItem[] {
+    const byTopic = new Map<string, DueReviewItem[]>();
+    for (const item of items) {
+      const key = item.topicId ?? '';
+      if (!byTopic.has(key)) byTopic.set(key, []);
+      byTopic.get(key)!.push(item);
+    }
+
+    const queues = Array.from(byTopic.values());
+    const result: DueReviewItem[] = [];
+    while (queues.some(q => q.length > 0)) {
+      for (const queue of queues) {
+        const next = queue.shift();
+        if (next) result.push(next);
+      }
+    }
+    return result;
+  }
+
+  private toDueItem(card: ReviewCard): DueReviewItem | null {
+    if (card.itemType === 'exercise') {
+      const exercise = curriculumService.getExercise(card.itemId);
+      if (!exercise || UNREVIEWABLE_EXERCISE_TYPES.has(exercise.type)) return null;
+      return { card, topicId: curriculumService.getLesson(exercise.lessonId)?.topicId, exercise };
+    }
+
+    const question = evaluationService.getQuestionBank().find(q => q.id === card.itemId);
+    if (!question || UNREVIEWABLE_QUESTION_TYPES.has(question.type)) return null;
+    return { card, topicId: question.topic, question: evaluationService.toPublicQuestion(question) };
+  }
+
+  private toCard(row: any): ReviewCard {
+    return {
+      id: row.id,
+      itemType: row.item_type as ReviewItemType,
+      itemId: row.item_id,
+      easeFactor: row.ease_factor,
+      intervalDays: row.interval_days,
+      repetitions: row.repetitions,
+      lapses: row.lapses,
+      dueAt: row.due_at,
+      lastReviewedAt: row.last_reviewed_at ?? undefined
+    };
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { getDatabase } from '../db/index.js';
+import { dockerService } from './docker-service.js';
+
+const SCHEMA_PREFIX = 'sbx_';
+
+export interface SandboxLease {
+  schema: string;
+  created: boolean; // This call created the schema, so it is empty
+}
+
+export interface SandboxOptions {
+  idleTimeoutMs: number;
+  gcIntervalMs: number;
+}
+
+/**
+ * Hands each user their own PostgreSQL schema per exercise, so resetting an
+ * exercise never touches anyone else's tables. The playground leases under
+ * 'playground:' keys the same way. Leases live in SQLite and are
+ * renewed on every use; idle sandboxes are dropped by a periodic sweep.
+ */
+export class SandboxService {
+  private options: SandboxOptions = {
+    idleTimeoutMs: 60 * 60 * 1000, // longer than SessionManager's 30-minute session lifetime
+    gcIntervalMs: 10 * 60 * 1000
+  };
+  private gcInterval: NodeJS.Timeout | null = null;
+  // Schemas whose lease is committed but which are still being created
+  private creating = new Map<string, Promise<void>>();
+
+  /**
+   * Returns the schema leased to this user for this exercise, creating the
+   * lease and an empty schema on first use. Concurrent calls for a new lease
+   * wait until the schema exists; only the first reports it as created.
+   */
+  async acquire(userId: string, exerciseId: string, useSuperuser: boolean = false): Promise<SandboxLease> {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    const inserted = db.prepare(`
+      INSERT OR IGNORE INTO sandboxes (user_id, exercise_id, schema_name, last_used_at)
+      VALUES (?, ?, ?, ?)
+    `).run(userId, exerciseId, `${SCHEMA_PREFIX}${crypto.randomBytes(8).toString('hex')}`, now);
+
+    if (inserted.changes === 0) {
+      db.prepare(`
+        UPDATE sandboxes SET last_used_at = ? WHERE user_id = ? AND exercise_id = ?
+      `).run(now, userId, exerciseId);
+    }
+
+    const { schema_name: schema } = db.prepare(`
+      SELECT schema_name FROM sandboxes WHERE user_id = ? AND exercise_id = ?
+    `).get(userId, exerciseId) as { schema_name: string };
+
+    if (inserted.changes > 0) {
+      const creation = dockerService.resetSchema(schema, useSuperuser).catch(error => {
+        // Don't keep a lease for a schema that was never created
+        db.prepare(`DELETE FROM sandboxes WHERE schema_name = ?`).run(schema);
+        throw error;
+      });
+      this.creating.set(schema, creation);
+      try {
+        await creation;
+      } finally {
+        this.creating.delete(schema);
+      }
+    } else {
+      await this.creating.get(schema);
+    }
+
+    return { schema, created: inserted.changes > 0 };
+  }
+
+  /**
+   * Drops sandboxes idle for longer than the timeout, plus any sandbox schema
+   * left in PostgreSQL without a lease. Returns the number of schemas dropped.
+   */
+  async collectGarbage(): Promise<number> {
+    const db = getDatabase();
+    const cutoff = new Date(Date.now() - this.options.idleTimeoutMs).toISOString();
+    const idle = db.prepare(`
+      SELECT schema_name FROM sandboxes WHERE last_used_at < ?
+    `).all(cutoff) as Array<{ schema_name: string }>;
+
+    let dropped = 0;
+    for (const { schema_name: schema } of idle) {
+      // The lease goes first, and only if nobody renewed it since the query above
+      const released = db.prepare(`
+        DELETE FROM sandboxes WHERE schema_name = ? AND last_used_at < ?
+      `).run(schema, cutoff);
+      if (released.changes > 0) {
+        await dockerService.dropSchema(schema);
+        dropped++;
+      }
+    }
+
+    // A lease is written before its schema is created, so checking each
+    // listed schema afterwards can't mistake a new sandbox for an orphan
+    const isLeased = db.prepare(`SELECT 1 FROM sandboxes WHERE schema_name = ?`);
+    for (const schema of await dockerService.listSchemas(SCHEMA_PREFIX)) {
+      if (isLeased.get(schema) === undefined) {
+        await dockerService.dropSchema(schema);
+        dropped++;
+      }
+    }
+
+    return dropped;
+  }
+
+  start(options: Partial<SandboxOptions> = {}): void {
+    this.options = { ...this.options, ...options };
+    this.stop();
+    this.gcInterval = setInterval(() => {
+      this.collectGarbage().catch(error => {
+        console.warn('Sandbox garbage collection failed:', error.message);
+      });
+    }, this.options.gcIntervalMs);
+  }
+
+  stop(): void {
+    if (this.gcInterval) {
+      clearInterval(this.gcInterval);
+      this.gcInterval = null;
+    }
+  }
+}
+
+export const sandboxService = new SandboxService();
@@ -0,0 +1,202 @@
+import Database from 'better-sqlite3';
+import type {
+  EvaluationQuestion,
+  Lesson,
+  SearchFilters,
+  SearchResult,
+  SearchResultType,
+  SearchSnippetPart
+} from '@learn-pg/shared';
+import { curriculumService } from './curriculum-service.js';
+import { evaluationService } from './evaluation-service.js';
+
+// Control characters never appear in content, so they can mark snippet matches
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const MAX_LIMIT = 50;
+
+interface IndexedDocument {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  body: string;
+  topicId?: string;
+  lessonId?: string;
+  exerciseId?: string;
+  level?: number;
+}
+
+/**
+ * Full-text search over lessons, exercises and evaluation questions. The
+ * index is derived from loaded content, so it lives in an in-memory SQLite
+ * FTS5 table that is rebuilt whenever the content changes.
+ */
+export class SearchService {
+  private db: Database.Database;
+
+  constructor() {
+    this.db = new Database(':memory:');
+    this.db.exec(`
+      CREATE VIRTUAL TABLE documents USING fts5(
+        title,
+        body,
+        type UNINDEXED,
+        id UNINDEXED,
+        topic_id UNINDEXED,
+        lesson_id UNINDEXED,
+        exercise_id UNINDEXED,
+        level UNINDEXED,
+        tokenize = 'porter unicode61'
+      )
+    `);
+  }
+
+  /** Re-indexes the loaded curriculum and question bank. */
+  rebuild(): void {
+    const insert = this.db.prepare(`
+      INSERT INTO documents (title, body, type, id, topic_id, lesson_id, exercise_id, level)
+      VALUES (@title, @body, @type, @id, @topicId, @lessonId, @exerciseId, @level)
+    `);
+
+    this.db.transaction((documents: IndexedDocument[]) => {
+      this.db.exec(`DELETE FROM documents`);
+      for (const doc of documents) {
+        insert.run({ topicId: null, lessonId: null, exerciseId: null, level: null, ...doc });
+      }
+    })(this.collectDocuments());
+  }
+
+  search(query: string, filters: SearchFilters = {}, limit: number = 20): SearchResult[] {
+    const match = toMatchExpression(query);
+    if (!match) return [];
+
+    const conditions = ['documents MATCH @match'];
+    if (filters.type) conditions.push('type = @type');
+    if (filters.topicId) conditions.push('topic_id = @topicId');
+    if (filters.level) conditions.push('level = @level');
+
+    // bm25 ranks lower-is-better; a title match counts five times a body match
+    const rows = this.db.prepare(`
+      SELECT type, id, title, topic_id, lesson_id, exercise_id, level,
+        snippet(documents, 1, '${MATCH_START}', '${MATCH_END}', '…', 16) AS snippet
+      FROM documents
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY bm25(documents, 5.0, 1.0)
+      LIMIT @limit
+    `).all({
+      match,
+      type: filters.type ?? null,
+      topicId: filters.topicId ?? null,
+      level: filters.level ?? null,
+      limit: Math.min(Math.max(1, limit), MAX_LIMIT)
+    }) as any[];
+
+    return rows.map(row => ({
+      type: row.type,
+      id: row.id,
+      title: row.title,
+      snippet: toSnippetParts(row.snippet),
+      topicId: row.topic_id ?? undefined,
+      topicTitle: row.topic_id ? curriculumService.getTopic(row.topic_id)?.title : undefined,
+      level: row.level ?? undefined,
+      lessonId: row.lesson_id ?? undefined,
+      exerciseId: row.exercise_id ?? undefined
+    }));
+  }
+
+  private collectDocuments(): IndexedDocument[] {
+    const documents: IndexedDocument[] = [];
+    // Questions link to the earliest lesson practising one of their concepts
+    const lessonByConcept = new Map<string, Lesson>();
+
+    for (const topic of curriculumService.getAllTopics()) {
+      for (const lesson of curriculumService.getLessonsForTopic(topic.id)) {
+        const location = { topicId: topic.id, lessonId: lesson.id, level: topic.level };
+        documents.push({
+          type: 'lesson',
+          id: lesson.id,
+          title: lesson.title,
+          body: [lesson.description, plainText(lesson.content)].join('\n'),
+          ...location
+        });
+
+        for (const exercise of curriculumService.getExercisesForLesson(lesson.id)) {
+          documents.push({
+            type: 'exercise',
+            id: exercise.id,
+            title: exercise.title,
+            body: [exercise.prompt, ...exercise.hints, exercise.explanation].join('\n'),
+            exerciseId: exercise.id,
+            ...location
+          });
+          exercise.concepts.forEach(concept => {
+            if (!lessonByConcept.has(concept)) lessonByConcept.set(concept, lesson);
+          });
+        }
+      }
+    }
+
+    for (const question of evaluationService.getQuestionBank()) {
+      const lesson = (question.concepts ?? []).map(c => lessonByConcept.get(c)).find(Boolean);
+      const topic = lesson && curriculumService.getTopic(lesson.topicId);
+      documents.push({
+        type: 'question',
+        id: question.id,
+        title: firstLine(question.prompt),
+        body: questionText(question),
+        topicId: topic?.id,
+        lessonId: lesson?.id,
+        level: topic?.level
+      });
+    }
+
+    return documents;
+  }
+}
+
+/**
+ * Turns free text into an FTS5 expression: every word must match, the last
+ * one as a prefix so results update while typing. Quoting each word keeps
+ * FTS5 operators and punctuation in the input from being parsed.
+ */
+function toMatchExpression(query: string): string | null {
+  const words = query.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  if (words.length === 0) return null;
+  return words
+    .map((word, i) => `"${word}"${i === words.length - 1 ? '*' : ''}`)
+    .join(' ');
+}
+
+function toSnippetParts(snippet: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  for (const [i, chunk] of snippet.split(MATCH_START).entries()) {
+    const [matched, rest] = i === 0 ? [null, chunk] : chunk.split(MATCH_END);
+    if (matched) parts.push({ text: matched, highlight: true });
+    if (rest) parts.push({ text: rest, highlight: false });
+  }
+  return parts;
+}
+
+/** Markdown without the syntax, so snippets read as prose. */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/^#+\s*/gm, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[*`>|]/g, '');
+}
+
+/** What the learner sees of a question; explanations would give answers away. */
+function questionText(question: EvaluationQuestion): string {
+  const options: Array<{ text: string }> = (question as any).options ?? [];
+  return [question.prompt, ...options.map(option => option.text)].join('\n');
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n')[0].trim();
+  return line.length > 100 ? `${line.slice(0, 99)}…` : line;
+}
+
+export const searchService = new SearchService();
@@ -1,12 +1,14 @@
 import crypto from 'crypto';
-import { Client } from 'pg';
+import { Client, escapeIdentifier } from 'pg';
 import { dockerService } from './docker-service.js';
 
 interface SessionPair {
+  userId: string;
   sessionA: Client;
   sessionB: Client;
   schema: string;
   exerciseId: string;
+  useSuperuser: boolean;
   createdAt: Date;
 }
 
@@ -22,29 +24,47 @@ export class SessionManager {
   /**
    * Create a pair of persistent connections for a multi-session exercise.
    * Each connection is its own pg.Client, so they have independent transaction state.
+   * `schema` is the user's sandbox; the pair belongs to that user.
    * Returns a sessionId to reference this pair in subsequent requests.
    */
-  async createSessionPair(exerciseId: string, schema: string, useSuperuser: boolean): Promise<string> {
+  async createSessionPair(userId: string, exerciseId: string, schema: string, useSuperuser: boolean): Promise<string> {
     const config = useSuperuser ? dockerService.getAdminConfig() : dockerService.getConfig();
     const sessionA = new Client(config);
     const sessionB = new Client(config);
     await sessionA.connect();
     await sessionB.connect();
-    await sessionA.query(`SET search_path TO ${schema}, public`);
-    await sessionB.query(`SET search_path TO ${schema}, public`);
+    const searchPath = `${escapeIdentifier(schema)}, public`;
+    await sessionA.query(`SELECT set_config('search_path', $1, false)`, [searchPath]);
+    await sessionB.query(`SELECT set_config('search_path', $1, false)`, [searchPath]);
     const sessionId = crypto.randomUUID();
-    this.sessions.set(sessionId, { sessionA, sessionB, schema, exerciseId, createdAt: new Date() });
+    this.sessions.set(sessionId, { userId, sessionA, sessionB, schema, exerciseId, useSuperuser, createdAt: new Date() });
     return sessionId;
   }
 
-  async executeOnSession(sessionId: string, session: 'A' | 'B', query: string): Promise<any> {
+  async executeOnSession(userId: string, sessionId: string, session: 'A' | 'B', query: string): Promise<any> {
     const pair = this.sessions.get(sessionId);
-    if (!pair) throw new Error('Session not found');
+    if (!pair || pair.userId !== userId) throw new Error('Session not found');
     const client = session === 'A' ? pair.sessionA : pair.sessionB;
     return client.query(query);
   }
 
-  async closeSessionPair(sessionId: string): Promise<void> {
+  /** The exercise a pair was opened for, and the sandbox schema and role it runs in. */
+  getSessionScope(
+    userId: string,
+    sessionId: string
+  ): { exerciseId: string; schema: string; useSuperuser: boolean } | undefined {
+    const pair = this.sessions.get(sessionId);
+    if (!pair || pair.userId !== userId) return undefined;
+    return { exerciseId: pair.exerciseId, schema: pair.schema, useSuperuser: pair.useSuperuser };
+  }
+
+  async closeSessionPair(userId: string, sessionId: string): Promise<void> {
+    if (this.sessions.get(sessionId)?.userId === userId) {
+      await this.close(sessionId);
+    }
+  }
+
+  private async close(sessionId: string): Promise<void> {
     const pair = this.sessions.get(sessionId);
     if (pair) {
       await pair.sessionA.end().catch(() => {});
@@ -57,7 +77,7 @@ export class SessionManager {
     const maxAge = 30 * 60 * 1000; // 30 minutes
     for (const [id, pair] of this.sessions) {
       if (Date.now() - pair.createdAt.getTime() > maxAge) {
-        await this.closeSessionPair(id);
+        await this.close(id);
       }
     }
   }
@@ -65,7 +85,7 @@ export class SessionManager {
   destroy(): void {
     clearInterval(this.cleanupInterval);
     for (const [id] of this.sessions) {
-      this.closeSessionPair(id);
+      this.close(id);
     }
   }
 }
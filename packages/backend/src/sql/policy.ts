@@ -0,0 +1,213 @@
+import { parse } from 'libpg-query';
+import type { SqlPolicy, SqlPolicyViolation } from '@learn-pg/shared';
+import { splitStatementRanges } from './statements.js';
+
+interface DangerousEntry {
+  label: string;
+  reason: string;
+}
+
+// Functions that reach past the exercise schema: other sessions, server files, the server itself
+const DANGEROUS_FUNCTIONS: Record<string, DangerousEntry> = Object.fromEntries([
+  ['pg_terminate_backend', 'it disconnects other sessions'],
+  ['pg_cancel_backend', "it cancels other sessions' queries"],
+  ['pg_reload_conf', 'it reloads the server configuration'],
+  ['pg_rotate_logfile', 'it rotates the server log'],
+  ['pg_promote', 'it promotes a standby server'],
+  ['pg_switch_wal', 'it forces a WAL segment switch'],
+  ['pg_read_file', 'it reads files on the server'],
+  ['pg_read_binary_file', 'it reads files on the server'],
+  ['pg_ls_dir', 'it lists directories on the server'],
+  ['pg_ls_waldir', 'it lists directories on the server'],
+  ['pg_ls_logdir', 'it lists directories on the server'],
+  ['pg_ls_tmpdir', 'it lists directories on the server'],
+  ['pg_ls_archive_statusdir', 'it lists directories on the server'],
+  ['pg_stat_file', 'it inspects files on the server'],
+  ['lo_import', 'it reads a server file into the database'],
+  ['lo_export', 'it writes a server file'],
+  ['pg_file_write', 'it writes a server file'],
+  ['pg_file_rename', 'it renames a server file'],
+  ['pg_file_unlink', 'it deletes a server file'],
+  ['pg_file_sync', 'it syncs a server file'],
+  ['dblink', 'it opens connections to other databases'],
+  ['dblink_exec', 'it opens connections to other databases'],
+  ['dblink_connect', 'it opens connections to other databases']
+].map(([name, reason]) => [name, { label: `${name}()`, reason }]));
+
+const DANGEROUS_OPERATIONS: Record<string, DangerousEntry> = {
+  'copy-program': { label: 'COPY ... PROGRAM', reason: 'it runs a shell command on the server' },
+  'copy-file': { label: 'COPY with a server file', reason: "it reads or writes the server's filesystem" },
+  'alter-system': { label: 'ALTER SYSTEM', reason: 'it changes the server configuration for everyone' },
+  'role-management': { label: 'Managing roles', reason: 'roles are shared by every database on the server' },
+  'database-management': { label: 'Managing databases', reason: 'it affects databases outside the exercise' },
+  'load': { label: 'LOAD', reason: 'it loads a shared library into the server' },
+  'untrusted-language': { label: 'Code in this language', reason: "it runs with the server's operating system permissions" }
+};
+
+/** Names accepted in `SqlPolicy.allowDangerous`. */
+export const DANGEROUS_NAMES = [...Object.keys(DANGEROUS_FUNCTIONS), ...Object.keys(DANGEROUS_OPERATIONS)];
+
+const ROLE_STATEMENTS = new Set(['CreateRoleStmt', 'AlterRoleStmt', 'AlterRoleSetStmt', 'DropRoleStmt', 'GrantRoleStmt']);
+const DATABASE_STATEMENTS = new Set(['CreatedbStmt', 'DropdbStmt', 'AlterDatabaseStmt', 'AlterDatabaseSetStmt']);
+const TRUSTED_LANGUAGES = new Set(['sql', 'plpgsql']);
+
+// Parse node names whose kind isn't just the name without "Stmt", in kebab-case
+const STATEMENT_KIND_OVERRIDES: Record<string, string> = {
+  CreateStmt: 'create-table',
+  IndexStmt: 'create-index',
+  ViewStmt: 'create-view',
+  CreatedbStmt: 'create-database',
+  DropdbStmt: 'drop-database',
+  VariableSetStmt: 'set',
+  VariableShowStmt: 'show'
+};
+
+/**
+ * Checks SQL against an exercise's policy without running it. Returns the
+ * first violation, or null. SQL that doesn't parse is rejected as a whole:
+ * statements run one at a time, so the ones before a syntax error would
+ * otherwise run unchecked.
+ */
+export async function checkSqlPolicy(sql: string, policy: SqlPolicy = {}): Promise<SqlPolicyViolation | null> {
+  let statements: any[];
+  try {
+    statements = (await parse(sql)).stmts ?? [];
+  } catch (error: any) {
+    return syntaxViolation(sql, error);
+  }
+
+  const allowDangerous = new Set(policy.allowDangerous ?? []);
+
+  for (let index = 0; index < statements.length; index++) {
+    const [type, node] = Object.entries(statements[index].stmt)[0] as [string, any];
+    const statementKind = kindOf(type, node);
+    const position = `statement ${index + 1}`;
+
+    // Transaction control becomes savepoints, so it is fine whatever the allow list says
+    if (policy.allowStatements && type !== 'TransactionStmt' && !policy.allowStatements.includes(statementKind)) {
+      return {
+        rule: 'statement-not-allowed',
+        statementIndex: index,
+        statementKind,
+        message: `This exercise doesn't accept ${keyword(statementKind)} statements (${position}). `
+          + `Allowed: ${policy.allowStatements.map(keyword).join(', ')}.`
+      };
+    }
+
+    let violation: SqlPolicyViolation | null = null;
+    visit(statements[index].stmt, (nodeType, value) => {
+      if (violation) return;
+
+      if (nodeType.endsWith('Stmt')) {
+        const kind = kindOf(nodeType, value);
+        if (policy.denyStatements?.includes(kind)) {
+          violation = {
+            rule: 'statement-denied',
+            statementIndex: index,
+            statementKind,
+            message: `${keyword(kind)} statements are not allowed in this exercise (${position}).`
+          };
+          return;
+        }
+      }
+
+      const operation = dangerousOperations(nodeType, value).find(name => !allowDangerous.has(name));
+      if (operation) {
+        const entry = DANGEROUS_FUNCTIONS[operation] ?? DANGEROUS_OPERATIONS[operation];
+        violation = {
+          rule: 'dangerous-operation',
+          statementIndex: index,
+          statementKind,
+          operation,
+          message: `${entry.label} is blocked (${position}): ${entry.reason}.`
+        };
+      }
+    });
+    if (violation) return violation;
+  }
+
+  return null;
+}
+
+function syntaxViolation(sql: string, error: any): SqlPolicyViolation {
+  const reason = error?.sqlDetails?.message ?? error?.message ?? 'syntax error';
+  const cursor: number | undefined = error?.sqlDetails?.cursorPosition;
+
+  // The statement the error is in, going by where it starts
+  const index = cursor === undefined
+    ? 0
+    : splitStatementRanges(sql).reduce((found, range, i) => (range.offset <= cursor ? i : found), 0);
+
+  return {
+    rule: 'syntax-error',
+    statementIndex: index,
+    statementKind: 'unknown',
+    message: `Statement ${index + 1} could not be parsed: ${reason}. Nothing was run.`
+  };
+}
+
+/** Statement kind for a parse node, e.g. 'select', 'create-index', 'vacuum'. */
+function kindOf(type: string, node: any): string {
+  if (type === 'VacuumStmt') return node?.is_vacuumcmd ? 'vacuum' : 'analyze';
+  if (type === 'CreateTableAsStmt' && node?.objtype === 'OBJECT_MATVIEW') return 'create-materialized-view';
+  return STATEMENT_KIND_OVERRIDES[type]
+    ?? type.replace(/Stmt$/, '').replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+/** 'create-index' as it is written in SQL, for messages. */
+function keyword(kind: string): string {
+  return kind.replace(/-/g, ' ').toUpperCase();
+}
+
+/** Dangerous function and operation names a single parse node uses. */
+function dangerousOperations(type: string, node: any): string[] {
+  if (ROLE_STATEMENTS.has(type)) return ['role-management'];
+  if (DATABASE_STATEMENTS.has(type)) return ['database-management'];
+
+  switch (type) {
+    case 'FuncCall': {
+      const name = node.funcname?.at(-1)?.String?.sval?.toLowerCase();
+      return name && DANGEROUS_FUNCTIONS[name] ? [name] : [];
+    }
+    case 'CopyStmt':
+      if (node.is_program) return ['copy-program'];
+      return node.filename ? ['copy-file'] : [];
+    case 'AlterSystemStmt':
+      return ['alter-system'];
+    case 'LoadStmt':
+      return ['load'];
+    case 'DoStmt':
+    case 'CreateFunctionStmt': {
+      // Bodies are opaque strings to the parser, so look for dangerous function names by word
+      const options: any[] = (type === 'DoStmt' ? node.args : node.options) ?? [];
+      const option = (name: string) => options.find(o => o.DefElem?.defname === name)?.DefElem.arg;
+      const language = option('language')?.String?.sval?.toLowerCase() ?? (type === 'DoStmt' ? 'plpgsql' : 'sql');
+      const body = stringsIn(option('as')).join('\n');
+
+      const found = Object.keys(DANGEROUS_FUNCTIONS).filter(name => new RegExp(`\\b${name}\\b`, 'i').test(body));
+      return TRUSTED_LANGUAGES.has(language) ? found : ['untrusted-language', ...found];
+    }
+    default:
+      return [];
+  }
+}
+
+function stringsIn(node: any): string[] {
+  if (!node) return [];
+  if (node.String) return [node.String.sval ?? ''];
+  return (node.List?.items ?? []).flatMap(stringsIn);
+}
+
+/** Calls fn for every parse node (keys naming a node type) under `node`, depth first. */
+function visit(node: unknown, fn: (type: string, value: any) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach(item => visit(item, fn));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  for (const [key, value] of Object.entries(node)) {
+    if (/^[A-Z]/.test(key)) fn(key, value);
+    visit(value, fn);
+  }
+}
@@ -0,0 +1,157 @@
+export interface StatementRange {
+  sql: string;
+  offset: number; // Index of the statement's first character in the input
+}
+
+/**
+ * Splits SQL text into statements at top-level semicolons, skipping over
+ * string literals, quoted identifiers, dollar-quoted bodies and comments.
+ * Statements are trimmed and those with nothing but comments are dropped.
+ */
+export function splitStatements(sql: string): string[] {
+  return splitStatementRanges(sql).map(range => range.sql);
+}
+
+/** Like splitStatements, also giving where each statement starts. */
+export function splitStatementRanges(sql: string): StatementRange[] {
+  const statements: StatementRange[] = [];
+  let start = 0;
+  let hasCode = false;
+  let i = 0;
+
+  const push = (end: number) => {
+    if (hasCode) {
+      const text = sql.slice(start, end);
+      const leading = text.length - text.trimStart().length;
+      statements.push({ sql: text.trim(), offset: start + leading });
+    }
+    start = end + 1;
+    hasCode = false;
+  };
+
+  while (i < sql.length) {
+    const c = sql[i];
+    const next = sql[i + 1];
+
+    if (c === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (c === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+      continue;
+    }
+    if (c === ';') {
+      push(i);
+      i++;
+      continue;
+    }
+
+    if (!/\s/.test(c)) hasCode = true;
+
+    if (c === "'") {
+      // E'...' strings allow backslash escapes
+      const escapes = /[eE]/.test(sql[i - 1] ?? '') && !isIdentifierChar(sql[i - 2]);
+      i = skipQuoted(sql, i, "'", escapes);
+    } else if (c === '"') {
+      i = skipQuoted(sql, i, '"', false);
+    } else if (c === '$' && !isIdentifierChar(sql[i - 1])) {
+      const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+      } else {
+        i++;
+      }
+    } else {
+      i++;
+    }
+  }
+
+  push(sql.length);
+  return statements;
+}
+
+export type TransactionControl = 'begin' | 'commit' | 'rollback' | 'two-phase';
+
+/**
+ * Classifies statements that start or end a transaction. Savepoint commands
+ * (SAVEPOINT, RELEASE, ROLLBACK TO) are not transaction control here since
+ * they work inside any transaction.
+ */
+export function transactionControl(statement: string): TransactionControl | null {
+  const [first, second] = stripLeadingComments(statement).toUpperCase().split(/[\s;]+/);
+
+  switch (first) {
+    case 'BEGIN':
+      return 'begin';
+    case 'START':
+      return second === 'TRANSACTION' ? 'begin' : null;
+    case 'COMMIT':
+      return second === 'PREPARED' ? 'two-phase' : 'commit';
+    case 'END':
+      return 'commit';
+    case 'ROLLBACK':
+      if (second === 'PREPARED') return 'two-phase';
+      return second === 'TO' ? null : 'rollback';
+    case 'ABORT':
+      return 'rollback';
+    case 'PREPARE':
+      return second === 'TRANSACTION' ? 'two-phase' : null;
+    default:
+      return null;
+  }
+}
+
+function stripLeadingComments(statement: string): string {
+  let rest = statement.trimStart();
+  for (;;) {
+    if (rest.startsWith('--')) {
+      const end = rest.indexOf('\n');
+      rest = end === -1 ? '' : rest.slice(end + 1).trimStart();
+    } else if (rest.startsWith('/*')) {
+      rest = rest.slice(skipBlockComment(rest, 0)).trimStart();
+    } else {
+      return rest;
+    }
+  }
+}
+
+/** Index just past a block comment starting at `i`; PostgreSQL lets them nest. */
+function skipBlockComment(sql: string, i: number): number {
+  let depth = 0;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+/** Index just past a quoted run starting at `i`; a doubled quote is an escaped quote. */
+function skipQuoted(sql: string, i: number, quote: string, backslashEscapes: boolean): number {
+  let j = i + 1;
+  while (j < sql.length) {
+    if (backslashEscapes && sql[j] === '\\') {
+      j += 2;
+    } else if (sql[j] === quote) {
+      if (sql[j + 1] !== quote) return j + 1;
+      j += 2;
+    } else {
+      j++;
+    }
+  }
+  return sql.length;
+}
+
+function isIdentifierChar(c: string | undefined): boolean {
+  return c !== undefined && /[A-Za-z0-9_$]/.test(c);
+}
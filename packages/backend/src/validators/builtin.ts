@@ -0,0 +1,40 @@
+import type { CustomValidator } from '@learn-pg/shared';
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Checks the number of rows in a table after the learner's statement ran.
+ * Useful for DML exercises where the statement itself returns no rows.
+ *
+ * parameters: { table: string; expected: number; where?: string }
+ */
+const tableRowCount: CustomValidator = async ({ parameters, db }) => {
+  const { table, expected, where } = parameters;
+  const whereClause = where ? ` WHERE ${where}` : '';
+  const result = await db.query(`SELECT count(*)::int AS count FROM ${quoteIdent(table)}${whereClause}`);
+  const actual = result.rows[0]?.count ?? 0;
+
+  if (actual !== expected) {
+    return {
+      isValid: false,
+      score: 0,
+      feedback: [],
+      errors: [`Expected ${expected} rows in ${table}${where ? ` matching ${where}` : ''}, found ${actual}`],
+      suggestions: ['Check which rows your statement affects']
+    };
+  }
+
+  return {
+    isValid: true,
+    score: 100,
+    feedback: [`${table} has the expected ${expected} rows`, 'Exercise completed successfully!'],
+    errors: [],
+    suggestions: []
+  };
+};
+
+export const builtinValidators: Record<string, CustomValidator> = {
+  'table-row-count': tableRowCount
+};
@@ -0,0 +1,66 @@
+import type { CustomValidator } from '@learn-pg/shared';
+import { builtinValidators } from './builtin.js';
+
+export class ValidatorRegistry {
+  private validators: Map<string, CustomValidator> = new Map();
+  private sources: Map<string, string[]> = new Map(); // source file -> names it registered
+
+  constructor(initial: Record<string, CustomValidator> = {}) {
+    this.registerAll(initial);
+  }
+
+  register(name: string, validator: CustomValidator): void {
+    if (this.validators.has(name)) {
+      throw new Error(`Custom validator already registered: ${name}`);
+    }
+    if (typeof validator !== 'function') {
+      throw new Error(`Custom validator ${name} is not a function`);
+    }
+    this.validators.set(name, validator);
+  }
+
+  /** With `source`, the names can later be dropped by unregisterSource(source). */
+  registerAll(validators: Record<string, CustomValidator>, source?: string): void {
+    for (const [name, validator] of Object.entries(validators)) {
+      this.register(name, validator);
+      if (source) {
+        this.sources.set(source, [...(this.sources.get(source) ?? []), name]);
+      }
+    }
+  }
+
+  /**
+   * A copy with `sources` in place of every validator registered with a
+   * source. Throws on a duplicate name, leaving this registry as it was.
+   */
+  withSources(sources: Map<string, Record<string, CustomValidator>>): ValidatorRegistry {
+    const sourced = new Set(Array.from(this.sources.values()).flat());
+    const next = new ValidatorRegistry(
+      Object.fromEntries(Array.from(this.validators).filter(([name]) => !sourced.has(name)))
+    );
+    for (const [source, validators] of sources) {
+      next.registerAll(validators, source);
+    }
+    return next;
+  }
+
+  /** Takes over another registry's validators, e.g. one built by withSources. */
+  replaceWith(other: ValidatorRegistry): void {
+    this.validators = new Map(other.validators);
+    this.sources = new Map(other.sources);
+  }
+
+  get(name: string): CustomValidator | undefined {
+    return this.validators.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.validators.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.validators.keys()).sort();
+  }
+}
+
+export const validatorRegistry = new ValidatorRegistry(builtinValidators);
@@ -0,0 +1,258 @@
+import type { ResultDiff } from '@learn-pg/shared';
+
+export interface CompareOptions {
+  ordered?: boolean; // Compare rows positionally instead of as a multiset
+  allowExtraRows?: boolean; // Rows beyond the expected ones are not an error
+  allowExtraColumns?: boolean; // Columns the expected rows don't name are not an error
+  floatTolerance?: number;
+  caseInsensitive?: boolean;
+}
+
+export interface ResultComparison {
+  matches: boolean;
+  diff: ResultDiff;
+}
+
+const NUMERIC_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+// pg returns numeric and bigint columns as strings to avoid precision loss
+function toNumber(value: any): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' && NUMERIC_PATTERN.test(value.trim())) return Number(value);
+  return undefined;
+}
+
+function toTime(value: any): number | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && (DATE_PATTERN.test(value) || TIMESTAMP_PATTERN.test(value))) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+// pg parses `date` columns as local midnight, so compare those by calendar day
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !Buffer.isBuffer(value);
+}
+
+export function valuesEqual(actual: any, expected: any, options: CompareOptions = {}): boolean {
+  const tolerance = options.floatTolerance ?? 0;
+
+  if (actual === null || actual === undefined || expected === null || expected === undefined) {
+    return (actual ?? null) === (expected ?? null);
+  }
+
+  if (actual instanceof Date || expected instanceof Date) {
+    if (actual instanceof Date && typeof expected === 'string' && DATE_PATTERN.test(expected)) {
+      return localDate(actual) === expected;
+    }
+    const actualTime = toTime(actual);
+    const expectedTime = toTime(expected);
+    return actualTime !== undefined && actualTime === expectedTime;
+  }
+
+  const numericCompare = typeof actual === 'number' || typeof expected === 'number' ||
+    typeof actual === 'bigint' || typeof expected === 'bigint' || options.floatTolerance !== undefined;
+  if (numericCompare) {
+    const a = toNumber(actual);
+    const e = toNumber(expected);
+    if (a !== undefined && e !== undefined) {
+      return a === e || Math.abs(a - e) <= tolerance;
+    }
+  }
+
+  if (Buffer.isBuffer(actual)) {
+    const hex = typeof expected === 'string' ? expected.replace(/^\\x/, '') : '';
+    return actual.toString('hex') === hex.toLowerCase();
+  }
+
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    return Array.isArray(actual) && Array.isArray(expected) &&
+      actual.length === expected.length &&
+      actual.every((value, idx) => valuesEqual(value, expected[idx], options));
+  }
+
+  // jsonb: key order is not significant
+  if (isPlainObject(actual) || isPlainObject(expected)) {
+    const a = typeof actual === 'string' ? safeParseJson(actual) : actual;
+    const e = typeof expected === 'string' ? safeParseJson(expected) : expected;
+    if (!isPlainObject(a) || !isPlainObject(e)) return false;
+    const keys = Object.keys(e);
+    return keys.length === Object.keys(a).length &&
+      keys.every(key => key in a && valuesEqual(a[key], e[key], options));
+  }
+
+  if (typeof actual === 'string' && typeof expected === 'string' && options.caseInsensitive) {
+    return actual.toLowerCase() === expected.toLowerCase();
+  }
+
+  return actual === expected;
+}
+
+function safeParseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Columns named in the expected row whose value differs in the actual row. */
+export function differingColumns(actual: Record<string, any>, expected: Record<string, any>, options: CompareOptions = {}): string[] {
+  return Object.keys(expected).filter(col => !(col in actual) || !valuesEqual(actual[col], expected[col], options));
+}
+
+/**
+ * Compares rows on the columns the expected rows name; columns only the
+ * actual rows have are reported unless allowed. Unordered comparison
+ * treats both sides as multisets; unmatched expected rows are then paired
+ * with the most similar unmatched actual row and reported as changed cells.
+ */
+export function compareResults(actual: any[], expected: any[], options: CompareOptions = {}): ResultComparison {
+  const diff: ResultDiff = { missingRows: [], unexpectedRows: [], changedRows: [] };
+
+  // With no expected rows there are no expected columns to go by
+  if (!options.allowExtraColumns && expected.length > 0) {
+    const expectedColumns = new Set(expected.flatMap(row => Object.keys(row)));
+    const extraColumns = [...new Set(actual.flatMap(row => Object.keys(row)))].filter(col => !expectedColumns.has(col));
+    if (extraColumns.length > 0) {
+      diff.extraColumns = extraColumns;
+    }
+  }
+
+  if (options.ordered) {
+    for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+      if (i >= actual.length) {
+        diff.missingRows.push(expected[i]);
+      } else if (i >= expected.length) {
+        if (!options.allowExtraRows) {
+          diff.unexpectedRows.push({ rowIndex: i, row: actual[i] });
+        }
+      } else {
+        const columns = differingColumns(actual[i], expected[i], options);
+        if (columns.length > 0) {
+          diff.changedRows.push({ rowIndex: i, expected: expected[i], actual: actual[i], columns });
+        }
+      }
+    }
+  } else {
+    const used = new Array(actual.length).fill(false);
+    const unmatched: Array<Record<string, any>> = [];
+
+    for (const expectedRow of expected) {
+      const idx = actual.findIndex((row, i) => !used[i] && differingColumns(row, expectedRow, options).length === 0);
+      if (idx >= 0) {
+        used[idx] = true;
+      } else {
+        unmatched.push(expectedRow);
+      }
+    }
+
+    for (const expectedRow of unmatched) {
+      let best = -1;
+      let bestColumns: string[] = [];
+      actual.forEach((row, i) => {
+        if (used[i]) return;
+        const columns = differingColumns(row, expectedRow, options);
+        if (columns.length < Object.keys(expectedRow).length && (best < 0 || columns.length < bestColumns.length)) {
+          best = i;
+          bestColumns = columns;
+        }
+      });
+
+      if (best >= 0) {
+        used[best] = true;
+        diff.changedRows.push({ rowIndex: best, expected: expectedRow, actual: actual[best], columns: bestColumns });
+      } else {
+        diff.missingRows.push(expectedRow);
+      }
+    }
+
+    if (!options.allowExtraRows) {
+      actual.forEach((row, i) => {
+        if (!used[i]) diff.unexpectedRows.push({ rowIndex: i, row });
+      });
+    }
+    diff.changedRows.sort((a, b) => a.rowIndex - b.rowIndex);
+  }
+
+  const matches = diff.missingRows.length === 0 &&
+    diff.unexpectedRows.length === 0 &&
+    !diff.extraColumns &&
+    diff.changedRows.length === 0;
+
+  return { matches, diff };
+}
+
+function compareForSort(a: any, b: any): number {
+  // Matches PostgreSQL's default NULLS LAST for ascending order
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+
+  const aTime = a instanceof Date ? a.getTime() : undefined;
+  const bTime = b instanceof Date ? b.getTime() : undefined;
+  if (aTime !== undefined && bTime !== undefined) return aTime - bTime;
+
+  const aNum = toNumber(a);
+  const bNum = toNumber(b);
+  if (aNum !== undefined && bNum !== undefined) return aNum - bNum;
+
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Checks a pg result against the `expectedResult` shape used by sql-write
+ * questions and scenario tasks. Every constraint that is present must hold.
+ */
+export function checkExpectedResult(
+  result: any,
+  expected: { rowCount?: number; columns?: string[]; exactMatch?: Array<Record<string, any>> }
+): { matches: boolean; diff?: ResultDiff } {
+  const rows: any[] = result.rows || [];
+  let matches = true;
+  let diff: ResultDiff | undefined;
+
+  if (expected.rowCount !== undefined && rows.length !== expected.rowCount) {
+    matches = false;
+  }
+
+  if (expected.columns) {
+    const actualColumns: string[] = result.fields?.map((f: any) => f.name) ?? Object.keys(rows[0] || {});
+    if (!expected.columns.every(col => actualColumns.includes(col))) {
+      matches = false;
+    }
+  }
+
+  if (expected.exactMatch) {
+    const comparison = compareResults(rows, expected.exactMatch);
+    diff = comparison.diff;
+    matches = matches && comparison.matches;
+  }
+
+  return { matches, diff };
+}
+
+/** Whether a query's row order is meaningful enough to compare positionally. */
+export function hasOrderBy(query: string): boolean {
+  return /\border\s+by\b/i.test(query);
+}
+
+/** Index of the first row that breaks the ordering, or -1 if sorted. */
+export function findOrderViolation(rows: any[], column: string, direction: 'asc' | 'desc' = 'asc'): number {
+  for (let i = 1; i < rows.length; i++) {
+    const cmp = compareForSort(rows[i - 1][column], rows[i][column]);
+    if (direction === 'asc' ? cmp > 0 : cmp < 0) {
+      return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,25 @@
+import type { ValidationConfig, ValidationStrategy } from '@learn-pg/shared';
+
+/**
+ * Exercise modules write `validation.rules` either flat or wrapped in the
+ * discriminated `{ strategy, rules }` shape of `ValidationRules`. Unwrap the
+ * latter so each strategy sees its own rule object.
+ */
+export function resolveRules<T = any>(config: ValidationConfig): T {
+  const rules = config.rules as any;
+  if (rules && rules.strategy === config.strategy && 'rules' in rules) {
+    return rules.rules as T;
+  }
+  return rules as T;
+}
+
+/** Rules of every `strategy` check in `config`, looking inside composites. */
+export function findRules<T = any>(config: ValidationConfig | undefined, strategy: ValidationStrategy): T[] {
+  if (!config) return [];
+  if (config.strategy === strategy) return [resolveRules<T>(config)];
+  if (config.strategy === 'composite') {
+    const checks: Array<{ validation: ValidationConfig }> = resolveRules(config)?.checks || [];
+    return checks.flatMap(check => findRules<T>(check.validation, strategy));
+  }
+  return [];
+}
@@ -1,11 +1,61 @@
+import { useEffect, useState } from 'react';
 import { Routes, Route, Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, getToken, AUTH_CHANGE_EVENT } from './api/client';
 import HomePage from './pages/HomePage';
 import TopicsPage from './pages/TopicsPage';
 import LessonPage from './pages/LessonPage';
 import EvaluationPage from './pages/EvaluationPage';
 import ProgressPage from './pages/ProgressPage';
+import ReviewPage from './pages/ReviewPage';
+import RoadmapPage from './pages/RoadmapPage';
+import PlaygroundPage from './pages/PlaygroundPage';
+import LoginPage from './pages/LoginPage';
+import SearchBox from './components/SearchBox';
 
 function App() {
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState(getToken());
+
+  // Drop cached data whenever the signed-in user changes
+  useEffect(() => {
+    const onAuthChange = () => {
+      queryClient.clear();
+      setToken(getToken());
+    };
+    window.addEventListener(AUTH_CHANGE_EVENT, onAuthChange);
+    return () => window.removeEventListener(AUTH_CHANGE_EVENT, onAuthChange);
+  }, [queryClient]);
+
+  // Refetch content the backend reloaded from disk while an author edits it
+  useEffect(() => {
+    if (!token) return;
+    return api.onCurriculumChange(({ topicId, lessonIds }) => {
+      queryClient.invalidateQueries({ queryKey: ['topics'] });
+      queryClient.invalidateQueries({ queryKey: ['topic', topicId] });
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['plan'] });
+      for (const lessonId of lessonIds) {
+        queryClient.invalidateQueries({ queryKey: ['lesson', lessonId] });
+        queryClient.invalidateQueries({ queryKey: ['exercises', lessonId] });
+      }
+    });
+  }, [token, queryClient]);
+
+  const { data: meData } = useQuery({
+    queryKey: ['me', token],
+    queryFn: api.getMe,
+    enabled: !!token
+  });
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <LoginPage />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <nav className="bg-white shadow-sm border-b border-gray-200">
@@ -18,6 +68,15 @@ function App() {
               <Link to="/topics" className="text-gray-700 hover:text-primary-600 px-3 py-2">
                 Topics
               </Link>
+              <Link to="/roadmap" className="text-gray-700 hover:text-primary-600 px-3 py-2">
+                Roadmap
+              </Link>
+              <Link to="/playground" className="text-gray-700 hover:text-primary-600 px-3 py-2">
+                Playground
+              </Link>
+              <Link to="/review" className="text-gray-700 hover:text-primary-600 px-3 py-2">
+                Review
+              </Link>
               <Link to="/evaluation" className="text-gray-700 hover:text-primary-600 px-3 py-2">
                 Evaluation
               </Link>
@@ -25,6 +84,16 @@ function App() {
                 Progress
               </Link>
             </div>
+            <div className="flex items-center space-x-4">
+              <SearchBox />
+              <span className="text-sm text-gray-600">{meData?.user?.username}</span>
+              <button
+                onClick={() => api.logout()}
+                className="text-sm text-gray-700 hover:text-primary-600"
+              >
+                Sign out
+              </button>
+            </div>
           </div>
         </div>
       </nav>
@@ -34,6 +103,9 @@ function App() {
           <Route path="/" element={<HomePage />} />
           <Route path="/topics" element={<TopicsPage />} />
           <Route path="/lessons/:lessonId" element={<LessonPage />} />
+          <Route path="/roadmap" element={<RoadmapPage />} />
+          <Route path="/playground" element={<PlaygroundPage />} />
+          <Route path="/review" element={<ReviewPage />} />
           <Route path="/evaluation" element={<EvaluationPage />} />
           <Route path="/progress" element={<ProgressPage />} />
         </Routes>
@@ -1,59 +1,179 @@
+import type {
+  CurriculumChangeEvent,
+  LearningPlan,
+  PlaygroundDataset,
+  PlaygroundHistoryEntry,
+  PlaygroundResult,
+  PlaygroundTarget,
+  SearchFilters,
+  SearchResponse
+} from '@learn-pg/shared';
+
 const API_BASE = 'http://localhost:3000/api';
+const TOKEN_KEY = 'learn-pg-token';
+
+export const AUTH_CHANGE_EVENT = 'learn-pg-auth-change';
+
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+function setToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+  window.dispatchEvent(new Event(AUTH_CHANGE_EVENT));
+}
+
+// fetch with the session token attached; a 401 means the token is gone
+async function request(url: string, init: RequestInit = {}) {
+  const token = getToken();
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(url, { ...init, headers });
+  if (response.status === 401 && token) {
+    setToken(null);
+  }
+  return response;
+}
+
+function targetBody(target: PlaygroundTarget) {
+  return target.type === 'topic' ? { topicId: target.id } : { exerciseId: target.id };
+}
+
+// Playground routes answer errors with { error }; surface them as exceptions
+async function playgroundRequest<T>(path: string, body: Record<string, unknown>): Promise<T> {
+  const response = await request(`${API_BASE}/playground/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Playground request failed');
+  }
+  return data;
+}
+
+async function authenticate(path: string, username: string, password: string) {
+  const response = await request(`${API_BASE}/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Authentication failed');
+  }
+  setToken(data.token);
+  return data;
+}
 
 export const api = {
+  // Auth
+  register: (username: string, password: string) => authenticate('register', username, password),
+  login: (username: string, password: string) => authenticate('login', username, password),
+  logout: () =>
+    request(`${API_BASE}/auth/logout`, { method: 'POST' }).finally(() => setToken(null)),
+  getMe: () => request(`${API_BASE}/auth/me`).then(r => r.json()),
   // Curriculum
-  getTopics: () => fetch(`${API_BASE}/curriculum/topics`).then(r => r.json()),
-  getTopic: (id: string) => fetch(`${API_BASE}/curriculum/topics/${id}`).then(r => r.json()),
-  getLesson: (id: string) => fetch(`${API_BASE}/curriculum/lessons/${id}`).then(r => r.json()),
+  getTopics: () => request(`${API_BASE}/curriculum/topics`).then(r => r.json()),
+  getTopic: (id: string) => request(`${API_BASE}/curriculum/topics/${id}`).then(r => r.json()),
+  getLesson: (id: string) => request(`${API_BASE}/curriculum/lessons/${id}`).then(r => r.json()),
   getExercises: (lessonId: string) =>
-    fetch(`${API_BASE}/curriculum/lessons/${lessonId}/exercises`).then(r => r.json()),
+    request(`${API_BASE}/curriculum/lessons/${lessonId}/exercises`).then(r => r.json()),
+  getPlan: (target?: string): Promise<{ plan: LearningPlan }> =>
+    request(`${API_BASE}/curriculum/plan${target ? `?target=${encodeURIComponent(target)}` : ''}`).then(r => r.json()),
+  // EventSource can't send headers, so the token goes in the query; returns an unsubscribe function
+  onCurriculumChange: (listener: (event: CurriculumChangeEvent) => void) => {
+    const source = new EventSource(
+      `${API_BASE}/curriculum/events?token=${encodeURIComponent(getToken() ?? '')}`
+    );
+    source.addEventListener('curriculum-change', e => listener(JSON.parse((e as MessageEvent).data)));
+    return () => source.close();
+  },
+
+  // Search
+  search: (q: string, filters: SearchFilters = {}): Promise<SearchResponse> => {
+    const params = new URLSearchParams({ q });
+    if (filters.type) params.set('type', filters.type);
+    if (filters.topicId) params.set('topic', filters.topicId);
+    if (filters.level) params.set('level', String(filters.level));
+    return request(`${API_BASE}/search?${params}`).then(r => r.json());
+  },
 
   // Exercises
   setupExercise: (id: string) =>
-    fetch(`${API_BASE}/exercises/${id}/setup`, { method: 'POST' }).then(r => r.json()),
+    request(`${API_BASE}/exercises/${id}/setup`, { method: 'POST' }).then(r => r.json()),
   submitExercise: (id: string, query: string) =>
-    fetch(`${API_BASE}/exercises/${id}/submit`, {
+    request(`${API_BASE}/exercises/${id}/submit`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ query })
     }).then(r => r.json()),
   getHints: (id: string, count: number) =>
-    fetch(`${API_BASE}/exercises/${id}/hints?count=${count}`).then(r => r.json()),
+    request(`${API_BASE}/exercises/${id}/hints?count=${count}`).then(r => r.json()),
   getExerciseAttempts: (id: string) =>
-    fetch(`${API_BASE}/exercises/${id}/attempts`).then(r => r.json()),
+    request(`${API_BASE}/exercises/${id}/attempts`).then(r => r.json()),
   // Multi-session exercises
   startSession: (exerciseId: string) =>
-    fetch(`${API_BASE}/exercises/${exerciseId}/start-session`, { method: 'POST' }).then(r => r.json()),
+    request(`${API_BASE}/exercises/${exerciseId}/start-session`, { method: 'POST' }).then(r => r.json()),
   executeOnSession: (exerciseId: string, sessionId: string, query: string, session: 'A' | 'B', stepIndex: number) =>
-    fetch(`${API_BASE}/exercises/${exerciseId}/session/${sessionId}/execute`, {
+    request(`${API_BASE}/exercises/${exerciseId}/session/${sessionId}/execute`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ query, session, stepIndex })
     }).then(r => r.json()),
   closeSession: (exerciseId: string, sessionId: string) =>
-    fetch(`${API_BASE}/exercises/${exerciseId}/session/${sessionId}/close`, { method: 'POST' }).then(r => r.json()),
+    request(`${API_BASE}/exercises/${exerciseId}/session/${sessionId}/close`, { method: 'POST' }).then(r => r.json()),
+
+  // Playground
+  openPlayground: (target: PlaygroundTarget) =>
+    playgroundRequest<{ dataset: PlaygroundDataset }>('open', targetBody(target)),
+  resetPlayground: (target: PlaygroundTarget) =>
+    playgroundRequest<{ dataset: PlaygroundDataset }>('reset', targetBody(target)),
+  executePlayground: (target: PlaygroundTarget, query: string, explain: boolean = false) =>
+    playgroundRequest<{ result: PlaygroundResult }>('execute', { ...targetBody(target), query, explain }),
+  getPlaygroundHistory: (target: PlaygroundTarget): Promise<{ history: PlaygroundHistoryEntry[] }> =>
+    request(`${API_BASE}/playground/history?${target.type}=${encodeURIComponent(target.id)}`).then(r => r.json()),
 
   // Progress
-  getProgress: () => fetch(`${API_BASE}/progress`).then(r => r.json()),
+  getProgress: () => request(`${API_BASE}/progress`).then(r => r.json()),
   updateProgress: (updates: any) =>
-    fetch(`${API_BASE}/progress`, {
+    request(`${API_BASE}/progress`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(updates)
     }).then(r => r.json()),
-  getWeakAreas: () => fetch(`${API_BASE}/progress/weak-areas`).then(r => r.json()),
+  getWeakAreas: () => request(`${API_BASE}/progress/weak-areas`).then(r => r.json()),
+  getConceptMastery: () => request(`${API_BASE}/progress/concepts`).then(r => r.json()),
+
+  // Review
+  getDueReviews: (limit: number = 20) =>
+    request(`${API_BASE}/review/due?limit=${limit}`).then(r => r.json()),
+  submitReview: (cardId: number, answer: string) =>
+    request(`${API_BASE}/review/${cardId}/submit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ answer })
+    }).then(r => r.json()),
 
   // Evaluation
   startEvaluation: () =>
-    fetch(`${API_BASE}/evaluation/start`, { method: 'POST' }).then(r => r.json()),
+    request(`${API_BASE}/evaluation/start`, { method: 'POST' }).then(r => r.json()),
   getNextQuestion: (sessionId: string) =>
-    fetch(`${API_BASE}/evaluation/${sessionId}/next`).then(r => r.json()),
+    request(`${API_BASE}/evaluation/${sessionId}/next`).then(r => r.json()),
   submitAnswer: (sessionId: string, data: any) =>
-    fetch(`${API_BASE}/evaluation/${sessionId}/answer`, {
+    request(`${API_BASE}/evaluation/${sessionId}/answer`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(data)
     }).then(r => r.json()),
   completeEvaluation: (sessionId: string) =>
-    fetch(`${API_BASE}/evaluation/${sessionId}/complete`, { method: 'POST' }).then(r => r.json())
+    request(`${API_BASE}/evaluation/${sessionId}/complete`, { method: 'POST' }).then(r => r.json())
 };
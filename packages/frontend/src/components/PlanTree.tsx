@@ -0,0 +1,67 @@
+import type { ExplainPlan, PlanNode } from '@learn-pg/shared';
+import { describePlanNode, rowMisestimation } from '@learn-pg/shared';
+
+// Row estimates off by more than this are highlighted
+const MISESTIMATION_WARNING = 10;
+
+function PlanNodeItem({ node, totalTimeMs }: { node: PlanNode; totalTimeMs?: number }) {
+  const misestimation = rowMisestimation(node);
+  const share = totalTimeMs && node.actualTotalTimeMs !== undefined
+    ? Math.min(100, (node.actualTotalTimeMs * (node.actualLoops ?? 1) / totalTimeMs) * 100)
+    : undefined;
+
+  return (
+    <li className="mt-2">
+      <div className="rounded border border-gray-200 bg-white px-3 py-2">
+        <div className="flex items-baseline justify-between gap-4">
+          <span className="font-medium text-gray-900">{describePlanNode(node)}</span>
+          {node.actualTotalTimeMs !== undefined && (
+            <span className="shrink-0 text-xs text-gray-600">{node.actualTotalTimeMs.toFixed(3)} ms</span>
+          )}
+        </div>
+        <div className="text-xs text-gray-500">
+          cost {node.startupCost.toFixed(2)}..{node.totalCost.toFixed(2)} · estimated {node.planRows} rows
+          {node.actualRows !== undefined && (
+            <> · actual {node.actualRows} rows × {node.actualLoops} loops</>
+          )}
+          {node.joinType && <> · {node.joinType} join</>}
+        </div>
+        {misestimation !== undefined && misestimation >= MISESTIMATION_WARNING && (
+          <div className="text-xs text-yellow-800">
+            Row estimate off by {Math.round(misestimation)}x
+          </div>
+        )}
+        {share !== undefined && (
+          <div className="mt-1 h-1 rounded bg-gray-100">
+            <div className="h-1 rounded bg-primary-500" style={{ width: `${share}%` }} />
+          </div>
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-4 border-l border-gray-200 pl-3">
+          {node.children.map((child, idx) => (
+            <PlanNodeItem key={idx} node={child} totalTimeMs={totalTimeMs} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/** An EXPLAIN ANALYZE plan as a tree, with each node's share of the run time. */
+export default function PlanTree({ plan }: { plan: ExplainPlan }) {
+  const totalTimeMs = plan.root.actualTotalTimeMs;
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded p-4">
+      <h4 className="font-semibold">Query Plan</h4>
+      <p className="text-xs text-gray-500">
+        {plan.planningTimeMs !== undefined && <>Planning {plan.planningTimeMs.toFixed(3)} ms</>}
+        {plan.executionTimeMs !== undefined && <> · Execution {plan.executionTimeMs.toFixed(3)} ms</>}
+      </p>
+      <ul className="text-sm">
+        <PlanNodeItem node={plan.root} totalTimeMs={totalTimeMs} />
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import type { SearchFilters, SearchResult, SearchResultType } from '@learn-pg/shared';
+import { api } from '../api/client';
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  lesson: 'Lesson',
+  exercise: 'Exercise',
+  question: 'Question'
+};
+
+function resultLink(result: SearchResult): string | null {
+  if (!result.lessonId) return null;
+  const exercise = result.exerciseId ? `?exercise=${encodeURIComponent(result.exerciseId)}` : '';
+  return `/lessons/${result.lessonId}${exercise}`;
+}
+
+export default function SearchBox() {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [open, setOpen] = useState(false);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onClick);
+    return () => document.removeEventListener('mousedown', onClick);
+  }, []);
+
+  const { data: topicsData } = useQuery({
+    queryKey: ['topics'],
+    queryFn: api.getTopics,
+    enabled: open
+  });
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['search', query, filters],
+    queryFn: () => api.search(query, filters),
+    enabled: query.length >= 2
+  });
+  const results = query.length >= 2 ? data?.results ?? [] : [];
+
+  const openResult = (result: SearchResult) => {
+    const link = resultLink(result);
+    if (!link) return;
+    setOpen(false);
+    setInput('');
+    navigate(link);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <input
+        type="search"
+        value={input}
+        placeholder="Search lessons and exercises"
+        onChange={(e) => {
+          setInput(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setOpen(false);
+          if (e.key === 'Enter' && results.length > 0) openResult(results[0]);
+        }}
+        className="w-64 px-3 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+
+      {open && input.trim().length >= 2 && (
+        <div className="absolute right-0 z-20 mt-2 w-[28rem] bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div className="flex gap-2 p-2 border-b border-gray-100 text-sm">
+            <select
+              value={filters.type ?? ''}
+              onChange={(e) => setFilters({ ...filters, type: (e.target.value || undefined) as SearchResultType | undefined })}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="">All types</option>
+              {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}s</option>
+              ))}
+            </select>
+            <select
+              value={filters.level ?? ''}
+              onChange={(e) => setFilters({ ...filters, level: e.target.value ? Number(e.target.value) : undefined })}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="">All levels</option>
+              {[1, 2, 3, 4, 5].map((level) => (
+                <option key={level} value={level}>Level {level}</option>
+              ))}
+            </select>
+            <select
+              value={filters.topicId ?? ''}
+              onChange={(e) => setFilters({ ...filters, topicId: e.target.value || undefined })}
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1"
+            >
+              <option value="">All topics</option>
+              {(topicsData?.topics ?? []).map((topic: any) => (
+                <option key={topic.id} value={topic.id}>{topic.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {results.map((result) => (
+              <li key={`${result.type}:${result.id}`}>
+                <button
+                  onClick={() => openResult(result)}
+                  disabled={!resultLink(result)}
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-white"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs uppercase tracking-wide text-gray-500">{TYPE_LABELS[result.type]}</span>
+                    <span className="font-medium text-gray-900 truncate">{result.title}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 line-clamp-2">
+                    {result.snippet.map((part, idx) =>
+                      part.highlight ? (
+                        <mark key={idx} className="bg-yellow-100 text-gray-900">{part.text}</mark>
+                      ) : (
+                        <span key={idx}>{part.text}</span>
+                      )
+                    )}
+                  </p>
+                  {result.topicTitle && (
+                    <p className="text-xs text-gray-400 mt-0.5">{result.topicTitle}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+            {results.length === 0 && (
+              <li className="px-3 py-4 text-sm text-gray-500">
+                {isFetching || query !== input.trim() ? 'Searching...' : 'No matches'}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
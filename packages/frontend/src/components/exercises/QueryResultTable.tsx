@@ -0,0 +1,111 @@
+import type { ResultDiff } from '@learn-pg/shared';
+
+interface QueryResultTableProps {
+  rows: any[];
+  rowCount: number;
+  diff?: ResultDiff;
+}
+
+function formatValue(val: any) {
+  if (val === null || val === undefined) {
+    return <span className="text-gray-400 italic">null</span>;
+  }
+  if (typeof val === 'object') {
+    return JSON.stringify(val);
+  }
+  return String(val);
+}
+
+export default function QueryResultTable({ rows, rowCount, diff }: QueryResultTableProps) {
+  const unexpected = new Set(diff?.unexpectedRows.map(r => r.rowIndex));
+  const changed = new Map(diff?.changedRows.map(r => [r.rowIndex, r]));
+  const missingRows = diff?.missingRows || [];
+  const extraColumns = new Set(diff?.extraColumns);
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : Object.keys(missingRows[0] || {});
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded p-4">
+      <h4 className="font-semibold mb-3">
+        Query Results ({rowCount} rows)
+      </h4>
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                {columns.map((col) => (
+                  <th
+                    key={col}
+                    className={`px-4 py-2 text-left font-medium ${extraColumns.has(col) ? 'bg-red-50 text-red-700' : 'text-gray-700'}`}
+                    title={extraColumns.has(col) ? 'This column was not expected' : undefined}
+                  >
+                    {col}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map((row, idx) => {
+                const change = changed.get(idx);
+                return (
+                  <tr
+                    key={idx}
+                    className={
+                      unexpected.has(idx) ? 'bg-red-50' : change ? 'bg-yellow-50' : 'hover:bg-gray-50'
+                    }
+                    title={unexpected.has(idx) ? 'This row was not expected' : undefined}
+                  >
+                    {columns.map((col) => {
+                      const wrong = change?.columns.includes(col);
+                      return (
+                        <td
+                          key={col}
+                          className={`px-4 py-2 ${wrong ? 'text-red-700 font-semibold' : 'text-gray-900'}`}
+                          title={wrong ? `Expected: ${JSON.stringify(change!.expected[col])}` : undefined}
+                        >
+                          {formatValue(row[col])}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {missingRows.length > 0 && (
+        <div className="mt-4">
+          <h5 className="text-sm font-medium text-red-700 mb-2">
+            Expected rows missing from your result
+          </h5>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  {Object.keys(missingRows[0]).map((col) => (
+                    <th key={col} className="px-4 py-2 text-left font-medium text-gray-700">
+                      {col}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {missingRows.map((row, idx) => (
+                  <tr key={idx} className="bg-green-50">
+                    {Object.keys(missingRows[0]).map((col) => (
+                      <td key={col} className="px-4 py-2 text-gray-900">
+                        {formatValue(row[col])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ interface SQLEditorProps {
   value: string;
   onChange: (value: string) => void;
   height?: string;
+  readOnly?: boolean;
 }
 
-export default function SQLEditor({ value, onChange, height = '200px' }: SQLEditorProps) {
+export default function SQLEditor({ value, onChange, height = '200px', readOnly = false }: SQLEditorProps) {
   return (
     <div className="border border-gray-300 rounded overflow-hidden">
       <Editor
@@ -21,7 +22,8 @@ export default function SQLEditor({ value, onChange, height = '200px' }: SQLEdit
           lineNumbers: 'on',
           scrollBeyondLastLine: false,
           automaticLayout: true,
-          tabSize: 2
+          tabSize: 2,
+          readOnly
         }}
       />
     </div>
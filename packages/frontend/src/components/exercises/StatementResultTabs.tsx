@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import type { ResultDiff, StatementResult } from '@learn-pg/shared';
+import QueryResultTable from './QueryResultTable';
+
+interface StatementResultTabsProps {
+  statements: StatementResult[];
+  validatedIndex?: number; // The statement the diff belongs to; opened first
+  diff?: ResultDiff;
+}
+
+function summary(statement: StatementResult): string {
+  if (statement.error) return 'Failed';
+  const parts = [statement.command ?? 'Done'];
+  if (statement.rowCount !== null) parts.push(`${statement.rowCount} rows`);
+  parts.push(`${statement.executionTimeMs} ms`);
+  return parts.join(' · ');
+}
+
+/** One tab per statement of a multi-statement submission. */
+export default function StatementResultTabs({ statements, validatedIndex, diff }: StatementResultTabsProps) {
+  const defaultIndex = validatedIndex ?? statements.length - 1;
+  const [selected, setSelected] = useState(defaultIndex);
+
+  // A new submission opens on the statement that was checked
+  useEffect(() => setSelected(defaultIndex), [statements, defaultIndex]);
+
+  const statement = statements[selected] ?? statements[statements.length - 1];
+  const statementDiff = selected === validatedIndex ? diff : undefined;
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap gap-1 border-b border-gray-200">
+        {statements.map((s, idx) => (
+          <button
+            key={idx}
+            onClick={() => setSelected(idx)}
+            title={s.sql}
+            className={`px-3 py-1.5 text-sm rounded-t border-b-2 -mb-px ${
+              idx === selected
+                ? 'border-primary-600 text-primary-700 font-medium'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            } ${s.error ? 'text-red-700' : ''}`}
+          >
+            {idx + 1}. {s.error ? 'Error' : s.command ?? 'Statement'}
+            {idx === validatedIndex && !s.error && <span className="ml-1 text-xs text-gray-400">(checked)</span>}
+          </button>
+        ))}
+      </div>
+
+      <pre className="mt-2 bg-gray-50 border border-gray-200 rounded p-2 text-xs overflow-x-auto whitespace-pre-wrap text-gray-700">
+        {statement.sql}
+      </pre>
+      <p className="mt-1 text-xs text-gray-500">{summary(statement)}</p>
+
+      {statement.error ? (
+        <div className="mt-2 p-3 rounded bg-red-50 border border-red-200 text-sm text-red-700">
+          {statement.error.message}
+          {statement.error.line !== undefined && (
+            <span className="block text-xs mt-1">
+              At line {statement.error.line}, column {statement.error.column}
+            </span>
+          )}
+        </div>
+      ) : (statement.rows.length > 0 || (statementDiff?.missingRows.length ?? 0) > 0) && (
+        <QueryResultTable rows={statement.rows} rowCount={statement.rowCount ?? statement.rows.length} diff={statementDiff} />
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,20 @@ import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../api/client';
 import { SKILL_LEVELS } from '@learn-pg/shared';
+import type { AbilityEstimate } from '@learn-pg/shared';
+import SQLEditor from '../components/exercises/SQLEditor';
+import QueryResultTable from '../components/exercises/QueryResultTable';
 
 export default function EvaluationPage() {
   const queryClient = useQueryClient();
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [question, setQuestion] = useState<any>(null);
   const [answer, setAnswer] = useState('');
+  const [taskAnswers, setTaskAnswers] = useState<Record<string, string>>({});
   const [result, setResult] = useState<any>(null);
   const [completed, setCompleted] = useState(false);
   const [finalSession, setFinalSession] = useState<any>(null);
+  const [estimate, setEstimate] = useState<AbilityEstimate | null>(null);
 
   const startMutation = useMutation({
     mutationFn: api.startEvaluation,
@@ -22,21 +27,33 @@ export default function EvaluationPage() {
 
   const loadNextQuestion = async (sid: string) => {
     const data = await api.getNextQuestion(sid);
+    setEstimate(data.estimate ?? null);
     if (data.question) {
       setQuestion(data.question);
       setAnswer('');
+      setTaskAnswers({});
       setResult(null);
     } else {
       completeEvaluation(sid);
     }
   };
 
+  const isScenario = question?.type === 'scenario-based';
+  const hasAnswer = isScenario
+    ? Object.values(taskAnswers).some(a => a.trim())
+    : !!answer.trim();
+
+  const setTaskAnswer = (taskId: string, value: string) => {
+    setTaskAnswers(prev => ({ ...prev, [taskId]: value }));
+  };
+
   const submitAnswer = async () => {
-    if (!sessionId || !question || !answer) return;
+    if (!sessionId || !question || !hasAnswer) return;
 
     const data = await api.submitAnswer(sessionId, {
       questionId: question.id,
-      answer,
+      // Scenario answers are sent as a task id → answer map
+      answer: isScenario ? JSON.stringify(taskAnswers) : answer,
       timeSpentSeconds: 30,
       hintsUsed: 0
     });
@@ -66,8 +83,14 @@ export default function EvaluationPage() {
         <div className="bg-white rounded-lg shadow p-8 text-center">
           <div className="text-6xl mb-4">{skillLevel?.emoji}</div>
           <h1 className="text-3xl font-bold mb-2">{skillLevel?.name}</h1>
-          <p className="text-xl text-gray-600 mb-8">
+          <p className="text-xl text-gray-600 mb-2">
             Your skill level: {finalSession.endingSkillLevel}/10
+            {finalSession.abilityEstimate && (
+              <span> ± {finalSession.abilityEstimate.standardError.toFixed(1)}</span>
+            )}
+          </p>
+          <p className="text-sm text-gray-500 mb-8">
+            Based on {finalSession.questionsAnswered?.length ?? 0} questions
           </p>
 
           {finalSession.weakAreasIdentified?.length > 0 && (
@@ -119,10 +142,15 @@ export default function EvaluationPage() {
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       <div className="bg-white rounded-lg shadow p-8">
-        <div className="mb-6">
+        <div className="mb-6 flex justify-between items-center">
           <span className="inline-block bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm">
             Difficulty: {question.difficulty}/10
           </span>
+          {estimate && (
+            <span className="text-sm text-gray-500">
+              Current estimate: level {estimate.level.toFixed(1)} ± {estimate.standardError.toFixed(1)}
+            </span>
+          )}
         </div>
 
         <h2 className="text-2xl font-bold mb-4">{question.prompt}</h2>
@@ -146,10 +174,96 @@ export default function EvaluationPage() {
           </div>
         )}
 
+        {question.type === 'sql-write' && (
+          <div className="mb-6">
+            {question.setupSql && (
+              <details className="mb-3">
+                <summary className="text-sm text-primary-600 cursor-pointer hover:text-primary-800 font-medium">
+                  Show database schema
+                </summary>
+                <pre className="mt-2 bg-gray-50 border border-gray-200 rounded p-3 text-xs overflow-x-auto whitespace-pre-wrap text-gray-700">
+                  {question.setupSql.trim()}
+                </pre>
+              </details>
+            )}
+            <SQLEditor value={answer} onChange={setAnswer} readOnly={!!result} />
+          </div>
+        )}
+
+        {isScenario && (
+          <div className="mb-6">
+            <p className="text-gray-700 mb-4 whitespace-pre-wrap">{question.scenario}</p>
+            <div className="space-y-4">
+              {question.tasks.map((task: any, idx: number) => {
+                const taskResult = result?.taskResults?.find((t: any) => t.taskId === task.id);
+                return (
+                  <div key={task.id} className="border border-gray-200 rounded p-4">
+                    <div className="flex justify-between items-start mb-2">
+                      <p className="font-medium">
+                        {idx + 1}. {task.description}
+                      </p>
+                      {taskResult && (
+                        <span className={`text-sm px-2 py-0.5 rounded ${
+                          taskResult.score >= 1 ? 'bg-green-100 text-green-800'
+                            : taskResult.score > 0 ? 'bg-yellow-100 text-yellow-800'
+                            : 'bg-red-100 text-red-800'
+                        }`}>
+                          {Math.round(taskResult.score * 100)}%
+                        </span>
+                      )}
+                    </div>
+
+                    {task.verification?.kind === 'multiple-choice' ? (
+                      <div className="space-y-2">
+                        {task.verification.options.map((option: any) => (
+                          <button
+                            key={option.id}
+                            onClick={() => setTaskAnswer(task.id, option.id)}
+                            disabled={!!result}
+                            className={`w-full text-left p-3 rounded border-2 text-sm transition-colors ${
+                              taskAnswers[task.id] === option.id
+                                ? 'border-primary-600 bg-primary-50'
+                                : 'border-gray-200 hover:border-gray-300'
+                            } ${result ? 'opacity-60 cursor-not-allowed' : ''}`}
+                          >
+                            {option.text}
+                          </button>
+                        ))}
+                      </div>
+                    ) : task.verification?.kind === 'sql' ? (
+                      <SQLEditor
+                        value={taskAnswers[task.id] || ''}
+                        onChange={(value) => setTaskAnswer(task.id, value)}
+                        height="120px"
+                        readOnly={!!result}
+                      />
+                    ) : (
+                      <textarea
+                        value={taskAnswers[task.id] || ''}
+                        onChange={(e) => setTaskAnswer(task.id, e.target.value)}
+                        disabled={!!result}
+                        rows={3}
+                        className="w-full border border-gray-300 rounded p-2 text-sm"
+                      />
+                    )}
+
+                    {taskResult?.executionError && (
+                      <p className="text-sm text-red-700 mt-2">Error: {taskResult.executionError}</p>
+                    )}
+                    {taskResult?.feedback?.map((f: string, i: number) => (
+                      <p key={i} className="text-sm text-gray-600 mt-1">{f}</p>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {!result ? (
           <button
             onClick={submitAnswer}
-            disabled={!answer}
+            disabled={!hasAnswer}
             className="w-full bg-primary-600 hover:bg-primary-700 text-white px-6 py-3 rounded disabled:opacity-50 font-medium"
           >
             Submit Answer
@@ -166,13 +280,28 @@ export default function EvaluationPage() {
         {result && (
           <div className={`mt-6 p-4 rounded ${result.isCorrect ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
             <p className="font-semibold text-lg mb-2">
-              {result.isCorrect ? '✓ Correct!' : '✗ Incorrect'}
+              {result.isCorrect ? '✓ Correct!' : result.score > 0 ? '◐ Partially correct' : '✗ Incorrect'}
             </p>
+            {result.score !== undefined && (
+              <p className="text-sm mb-2">Score: {Math.round(result.score * 100)}%</p>
+            )}
+            {result.executionError && (
+              <p className="text-sm text-red-700 mb-2">Error: {result.executionError}</p>
+            )}
             {result.explanation && (
               <p className="text-sm leading-relaxed">{result.explanation}</p>
             )}
           </div>
         )}
+
+        {result?.queryResults &&
+          (result.queryResults.rows.length > 0 || result.resultDiff?.missingRows.length > 0) && (
+            <QueryResultTable
+              rows={result.queryResults.rows}
+              rowCount={result.queryResults.rowCount}
+              diff={result.resultDiff}
+            />
+          )}
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useMemo } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { Link, useParams, useNavigate, useSearchParams } from "react-router-dom";
 import {
   useQuery,
   useQueries,
@@ -10,6 +10,8 @@ import { marked } from "marked";
 import { api } from "../api/client";
 import SQLEditor from "../components/exercises/SQLEditor";
 import MultiSessionExerciseComponent from "../components/exercises/MultiSessionExercise";
+import QueryResultTable from "../components/exercises/QueryResultTable";
+import StatementResultTabs from "../components/exercises/StatementResultTabs";
 import type { Exercise, MultiSessionExercise } from "@learn-pg/shared";
 
 function dedent(text: string): string {
@@ -27,6 +29,8 @@ function dedent(text: string): string {
 
 export default function LessonPage() {
   const { lessonId } = useParams<{ lessonId: string }>();
+  const [searchParams] = useSearchParams();
+  const requestedExerciseId = searchParams.get("exercise"); // deep link from search
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
@@ -81,23 +85,31 @@ export default function LessonPage() {
     return map;
   }, [attemptsReady, attemptQueries]);
 
+  // Restore again when a search result links to another exercise in this lesson
+  useEffect(() => {
+    restoredLessonRef.current = null;
+  }, [requestedExerciseId]);
+
   // Restore state on initial load (once per lesson)
   useEffect(() => {
     if (!attemptsReady || restoredLessonRef.current === lessonId) return;
     restoredLessonRef.current = lessonId!;
 
-    // Find first unsolved exercise
-    let startIdx = 0;
-    for (let i = 0; i < exercises.length; i++) {
-      const attempt = latestAttempts[exercises[i].id];
-      if (attempt?.result?.isValid) {
-        startIdx = i + 1;
-      } else {
-        break;
+    // Open the linked exercise, otherwise the first unsolved one
+    let startIdx = exercises.findIndex((ex) => ex.id === requestedExerciseId);
+    if (startIdx === -1) {
+      startIdx = 0;
+      for (let i = 0; i < exercises.length; i++) {
+        const attempt = latestAttempts[exercises[i].id];
+        if (attempt?.result?.isValid) {
+          startIdx = i + 1;
+        } else {
+          break;
+        }
       }
+      // Clamp to last exercise if all solved
+      if (startIdx >= exercises.length) startIdx = exercises.length - 1;
     }
-    // Clamp to last exercise if all solved
-    if (startIdx >= exercises.length) startIdx = exercises.length - 1;
 
     setCurrentExerciseIndex(startIdx);
     const saved = latestAttempts[exercises[startIdx].id];
@@ -108,7 +120,7 @@ export default function LessonPage() {
       setQuery("");
       setResult(null);
     }
-  }, [attemptsReady, lessonId, exercises, latestAttempts]);
+  }, [attemptsReady, lessonId, exercises, latestAttempts, requestedExerciseId]);
 
   // Reset restoration ref when navigating to a different lesson
   useEffect(() => {
@@ -144,6 +156,9 @@ export default function LessonPage() {
       queryClient.invalidateQueries({
         queryKey: ["attempts", variables.exerciseId],
       });
+      if (data.result.isValid) {
+        queryClient.invalidateQueries({ queryKey: ["plan"] });
+      }
     },
   });
 
@@ -273,7 +288,13 @@ export default function LessonPage() {
                       : "Setup Exercise Database"}
                 </button>
                 <p className="text-xs text-gray-500 mt-1">
-                  This creates the tables and data you'll need for this exercise
+                  This creates the tables and data you'll need for this exercise.{" "}
+                  <Link
+                    to={`/playground?exercise=${encodeURIComponent(currentExercise.id)}`}
+                    className="text-primary-600 hover:text-primary-800"
+                  >
+                    Explore it in the playground
+                  </Link>
                 </p>
                 <details className="mt-3">
                   <summary className="text-sm text-primary-600 cursor-pointer hover:text-primary-800 font-medium">
@@ -343,7 +364,13 @@ export default function LessonPage() {
                   className={`mt-6 p-4 rounded ${result.isValid ? "bg-green-50 border border-green-200" : "bg-red-50 border border-red-200"}`}
                 >
                   <h4 className="font-semibold mb-2">
-                    {result.isValid ? "✓ Correct!" : "✗ Not quite right"}
+                    {result.isValid
+                      ? "✓ Correct!"
+                      : result.policyViolation?.rule === "syntax-error"
+                        ? "✗ Not run: syntax error"
+                        : result.policyViolation
+                          ? "✗ Not run: blocked by this exercise's rules"
+                          : "✗ Not quite right"}
                   </h4>
                   <p className="text-sm mb-2">Score: {result.score}/100</p>
 
@@ -384,54 +411,22 @@ export default function LessonPage() {
                 </div>
 
                 {/* Query Results */}
-                {result.queryResults && result.queryResults.rows.length > 0 && (
-                  <div className="mt-4 bg-gray-50 border border-gray-200 rounded p-4">
-                    <h4 className="font-semibold mb-3">
-                      Query Results ({result.queryResults.rowCount} rows)
-                    </h4>
-                    <div className="overflow-x-auto">
-                      <table className="min-w-full divide-y divide-gray-200 text-sm">
-                        <thead className="bg-gray-100">
-                          <tr>
-                            {Object.keys(result.queryResults.rows[0]).map(
-                              (col: string) => (
-                                <th
-                                  key={col}
-                                  className="px-4 py-2 text-left font-medium text-gray-700"
-                                >
-                                  {col}
-                                </th>
-                              ),
-                            )}
-                          </tr>
-                        </thead>
-                        <tbody className="bg-white divide-y divide-gray-200">
-                          {result.queryResults.rows.map(
-                            (row: any, idx: number) => (
-                              <tr key={idx} className="hover:bg-gray-50">
-                                {Object.values(row).map(
-                                  (val: any, cidx: number) => (
-                                    <td
-                                      key={cidx}
-                                      className="px-4 py-2 text-gray-900"
-                                    >
-                                      {val === null ? (
-                                        <span className="text-gray-400 italic">
-                                          null
-                                        </span>
-                                      ) : (
-                                        String(val)
-                                      )}
-                                    </td>
-                                  ),
-                                )}
-                              </tr>
-                            ),
-                          )}
-                        </tbody>
-                      </table>
-                    </div>
-                  </div>
+                {result.statementResults?.length > 1 ? (
+                  <StatementResultTabs
+                    statements={result.statementResults}
+                    validatedIndex={result.statementIndex}
+                    diff={result.resultDiff}
+                  />
+                ) : (
+                  result.queryResults &&
+                  (result.queryResults.rows.length > 0 ||
+                    result.resultDiff?.missingRows.length > 0) && (
+                    <QueryResultTable
+                      rows={result.queryResults.rows}
+                      rowCount={result.queryResults.rowCount}
+                      diff={result.resultDiff}
+                    />
+                  )
                 )}
               </>
             )}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { api } from '../api/client';
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const authMutation = useMutation({
+    mutationFn: () =>
+      mode === 'login' ? api.login(username, password) : api.register(username, password)
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    authMutation.mutate();
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    authMutation.reset();
+  };
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <div className="bg-white rounded-lg shadow p-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          {mode === 'login' ? 'Sign in' : 'Create an account'}
+        </h1>
+        <p className="text-gray-600 mb-6">
+          {mode === 'login'
+            ? 'Your progress is saved to your account.'
+            : 'The first account on this install keeps any progress made so far.'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              className="w-full px-3 py-2 border border-gray-300 rounded"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              className="w-full px-3 py-2 border border-gray-300 rounded"
+            />
+          </div>
+
+          {authMutation.isError && (
+            <p className="text-sm text-red-700">{(authMutation.error as Error).message}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={!username || !password || authMutation.isPending}
+            className="w-full bg-primary-600 hover:bg-primary-700 text-white px-6 py-2 rounded disabled:opacity-50"
+          >
+            {authMutation.isPending ? 'Please wait...' : mode === 'login' ? 'Sign in' : 'Create account'}
+          </button>
+        </form>
+
+        <button onClick={switchMode} className="mt-4 text-sm text-primary-600 hover:text-primary-700">
+          {mode === 'login' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+}
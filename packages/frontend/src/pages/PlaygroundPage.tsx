@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import type { PlaygroundResult, PlaygroundTarget, Topic } from '@learn-pg/shared';
+import { api } from '../api/client';
+import SQLEditor from '../components/exercises/SQLEditor';
+import QueryResultTable from '../components/exercises/QueryResultTable';
+import PlanTree from '../components/PlanTree';
+
+function ResultPanel({ result }: { result: PlaygroundResult }) {
+  if (result.error) {
+    return (
+      <div className="mt-4 p-4 rounded bg-red-50 border border-red-200 text-sm text-red-700">
+        <p className="font-medium mb-1">{result.policyViolation ? 'Not run' : 'Error'}</p>
+        <p className="whitespace-pre-wrap">{result.error}</p>
+      </div>
+    );
+  }
+
+  if (result.plan) {
+    return <PlanTree plan={result.plan} />;
+  }
+
+  return (
+    <>
+      <p className="mt-4 text-sm text-gray-600">
+        {result.command ?? 'Done'} · {result.rowCount} rows · {result.executionTimeMs} ms
+      </p>
+      {result.fields.length > 0 && <QueryResultTable rows={result.rows} rowCount={result.rowCount} />}
+    </>
+  );
+}
+
+export default function PlaygroundPage() {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState('');
+  const [result, setResult] = useState<PlaygroundResult | null>(null);
+
+  const { data: topicsData } = useQuery({
+    queryKey: ['topics'],
+    queryFn: api.getTopics
+  });
+  const topics: Topic[] = topicsData?.topics || [];
+
+  const exerciseId = searchParams.get('exercise');
+  const topicId = searchParams.get('topic') ?? topics[0]?.id;
+  const target: PlaygroundTarget | null = exerciseId
+    ? { type: 'exercise', id: exerciseId }
+    : topicId ? { type: 'topic', id: topicId } : null;
+  const targetKey = target ? [target.type, target.id] : [];
+
+  // Opening loads the dataset the first time; the user's changes persist after that
+  const { data: datasetData, isLoading, error } = useQuery({
+    queryKey: ['playground', ...targetKey],
+    queryFn: () => api.openPlayground(target!),
+    enabled: !!target,
+    retry: false
+  });
+  const dataset = datasetData?.dataset;
+
+  const { data: historyData } = useQuery({
+    queryKey: ['playground-history', ...targetKey],
+    queryFn: () => api.getPlaygroundHistory(target!),
+    enabled: !!target
+  });
+
+  const executeMutation = useMutation({
+    mutationFn: (explain: boolean) => api.executePlayground(target!, query, explain),
+    onSuccess: (data) => {
+      setResult(data.result);
+      queryClient.invalidateQueries({ queryKey: ['playground-history', ...targetKey] });
+      // DDL may have added or dropped tables
+      if (!data.result.error && !data.result.plan) {
+        queryClient.invalidateQueries({ queryKey: ['playground', ...targetKey] });
+      }
+    }
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => api.resetPlayground(target!),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['playground', ...targetKey], data);
+      setResult(null);
+    }
+  });
+
+  const selectTopic = (id: string) => {
+    setResult(null);
+    setSearchParams({ topic: id });
+  };
+
+  const running = executeMutation.isPending || resetMutation.isPending;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <h1 className="text-4xl font-bold text-gray-900 mb-2">Playground</h1>
+      <p className="text-gray-600 mb-6">
+        Run any SQL against a lesson's dataset. Changes stay until you reset, and nothing here counts as an exercise attempt.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <aside className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="dataset">Dataset</label>
+            <select
+              id="dataset"
+              value={exerciseId ? '' : topicId ?? ''}
+              onChange={(e) => selectTopic(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            >
+              {exerciseId && <option value="">Exercise: {dataset?.title ?? exerciseId}</option>}
+              {topics.map(topic => (
+                <option key={topic.id} value={topic.id}>{topic.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-semibold text-gray-700">Tables</h2>
+              <button
+                onClick={() => resetMutation.mutate()}
+                disabled={!target || running}
+                className="text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50"
+              >
+                {resetMutation.isPending ? 'Resetting...' : 'Reset dataset'}
+              </button>
+            </div>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading dataset...</p>
+            ) : error ? (
+              <p className="text-sm text-red-700">{(error as Error).message}</p>
+            ) : dataset && dataset.tables.length > 0 ? (
+              <ul className="text-sm space-y-1">
+                {dataset.tables.map(table => (
+                  <li key={table.name} className="flex justify-between">
+                    <button
+                      onClick={() => setQuery(`SELECT * FROM ${table.name} LIMIT 100;`)}
+                      className="font-mono text-gray-800 hover:text-primary-600"
+                    >
+                      {table.name}
+                    </button>
+                    <span className="text-gray-500">{table.size}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No tables yet</p>
+            )}
+            {dataset && dataset.skippedSetups.length > 0 && (
+              <details className="mt-2 text-xs text-yellow-800">
+                <summary className="cursor-pointer">
+                  {dataset.skippedSetups.length} exercise setups could not be loaded
+                </summary>
+                <ul className="mt-1 space-y-1">
+                  {dataset.skippedSetups.map(skipped => (
+                    <li key={skipped.exerciseId}>
+                      <span className="font-mono">{skipped.exerciseId}</span>: {skipped.error}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+
+          <div>
+            <h2 className="text-sm font-semibold text-gray-700 mb-2">History</h2>
+            <ul className="text-sm space-y-1 max-h-96 overflow-y-auto">
+              {(historyData?.history ?? []).map(entry => (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => setQuery(entry.query)}
+                    title={new Date(entry.executedAt).toLocaleString()}
+                    className={`w-full text-left font-mono text-xs truncate hover:text-primary-600 ${entry.isError ? 'text-red-700' : 'text-gray-800'}`}
+                  >
+                    {entry.query}
+                  </button>
+                </li>
+              ))}
+              {historyData?.history.length === 0 && (
+                <li className="text-gray-500">Queries you run show up here</li>
+              )}
+            </ul>
+          </div>
+        </aside>
+
+        <section className="lg:col-span-3 bg-white rounded-lg shadow p-6">
+          {exerciseId && dataset && (
+            <p className="text-sm text-gray-600 mb-3">
+              Dataset of the exercise <span className="font-medium">{dataset.title}</span>.{' '}
+              <Link to="/playground" className="text-primary-600 hover:text-primary-800">Browse topics instead</Link>
+            </p>
+          )}
+
+          <SQLEditor value={query} onChange={setQuery} height="240px" />
+
+          <div className="flex gap-3 mt-4">
+            <button
+              onClick={() => executeMutation.mutate(false)}
+              disabled={!target || !query.trim() || running}
+              className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded disabled:opacity-50"
+            >
+              {executeMutation.isPending && !executeMutation.variables ? 'Running...' : 'Run'}
+            </button>
+            <button
+              onClick={() => executeMutation.mutate(true)}
+              disabled={!target || !query.trim() || running}
+              className="border border-gray-300 hover:bg-gray-50 text-gray-800 px-4 py-2 rounded disabled:opacity-50"
+              title="Runs EXPLAIN ANALYZE in a transaction that is rolled back"
+            >
+              {executeMutation.isPending && executeMutation.variables ? 'Explaining...' : 'Explain'}
+            </button>
+          </div>
+
+          {executeMutation.error && (
+            <p className="mt-4 text-sm text-red-700">{(executeMutation.error as Error).message}</p>
+          )}
+          {result && <ResultPanel result={result} />}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -13,8 +13,14 @@ export default function ProgressPage() {
     queryFn: api.getWeakAreas
   });
 
+  const { data: conceptsData } = useQuery({
+    queryKey: ['conceptMastery'],
+    queryFn: api.getConceptMastery
+  });
+
   const progress = progressData?.progress;
   const weakAreas = weakAreasData?.weakAreas || [];
+  const concepts = conceptsData?.concepts || [];
   const skillLevel = SKILL_LEVELS.find(s => s.level === (progress?.skillRating || 1));
 
   return (
@@ -52,9 +58,9 @@ export default function ProgressPage() {
             {weakAreas.map((area: any) => (
               <div key={area.concept} className="border-l-4 border-yellow-400 pl-4">
                 <h3 className="font-semibold text-lg">{area.concept}</h3>
-                <p className="text-gray-600 text-sm">{area.topicTitle}</p>
+                {area.topicTitle && <p className="text-gray-600 text-sm">{area.topicTitle}</p>}
                 <p className="text-sm text-gray-500">
-                  Failure rate: {(area.failureRate * 100).toFixed(0)}% ({area.totalAttempts} attempts)
+                  Mastery: {(area.mastery * 100).toFixed(0)}% ({area.totalAttempts} attempts)
                 </p>
               </div>
             ))}
@@ -62,6 +68,28 @@ export default function ProgressPage() {
         </div>
       )}
 
+      {concepts.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-8 mb-8">
+          <h2 className="text-2xl font-bold mb-6">Concept Mastery</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+            {concepts.map((c: any) => (
+              <div key={c.concept}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">{c.concept}</span>
+                  <span className="text-gray-500">{(c.mastery * 100).toFixed(0)}%</span>
+                </div>
+                <div className="bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-primary-600 rounded-full h-2"
+                    style={{ width: `${c.mastery * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow p-8">
         <h2 className="text-2xl font-bold mb-6">Topic Progress</h2>
         {progress?.topicProgress?.length > 0 ? (
@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../api/client';
+import SQLEditor from '../components/exercises/SQLEditor';
+import QueryResultTable from '../components/exercises/QueryResultTable';
+import type { DueReviewItem, ReviewOutcome } from '@learn-pg/shared';
+
+export default function ReviewPage() {
+  const queryClient = useQueryClient();
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [outcome, setOutcome] = useState<ReviewOutcome | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['reviewDue'],
+    queryFn: () => api.getDueReviews(),
+    // Keep the batch stable while working through it
+    refetchOnWindowFocus: false
+  });
+
+  const items: DueReviewItem[] = data?.items || [];
+  const item = items[index];
+
+  const setupMutation = useMutation({
+    mutationFn: (exerciseId: string) => api.setupExercise(exerciseId)
+  });
+
+  // Exercises need their tables before an answer can be checked
+  useEffect(() => {
+    if (item?.exercise) {
+      setupMutation.mutate(item.exercise.id);
+    }
+  }, [item?.card.id]);
+
+  const submitMutation = useMutation({
+    mutationFn: () => api.submitReview(item!.card.id, answer),
+    onSuccess: (data) => {
+      setOutcome(data.outcome);
+      queryClient.invalidateQueries({ queryKey: ['conceptMastery'] });
+    }
+  });
+
+  const handleNext = () => {
+    setAnswer('');
+    setOutcome(null);
+    submitMutation.reset();
+    if (index + 1 < items.length) {
+      setIndex(index + 1);
+    } else {
+      setIndex(0);
+      queryClient.invalidateQueries({ queryKey: ['reviewDue'] });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="max-w-4xl mx-auto px-4 py-8">Loading reviews...</div>;
+  }
+
+  if (!item) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <div className="text-6xl mb-4">🎉</div>
+          <h1 className="text-3xl font-bold mb-2">All caught up</h1>
+          <p className="text-gray-600">
+            Nothing is due for review. Solved exercises and evaluation questions come back here as they fade.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const exercise = item.exercise;
+  const question: any = item.question;
+  const isOptionQuestion = question && Array.isArray(question.options);
+  const validation = outcome?.validation;
+  const answerResult = outcome?.answer;
+  const queryResults = validation?.queryResults || answerResult?.queryResults;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-4">
+        <h1 className="text-3xl font-bold text-gray-900">Review</h1>
+        <span className="text-sm text-gray-500">
+          {index + 1} of {items.length}
+          {data.totalDue > items.length && ` (${data.totalDue} due)`}
+        </span>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-8">
+        <div className="mb-4 flex gap-2">
+          {item.topicId && (
+            <span className="inline-block bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm">
+              {item.topicId}
+            </span>
+          )}
+          <span className="inline-block bg-primary-50 text-primary-700 px-3 py-1 rounded text-sm">
+            {exercise ? 'Exercise' : 'Evaluation question'}
+          </span>
+        </div>
+
+        {exercise && (
+          <>
+            <h2 className="text-xl font-semibold mb-2">{exercise.title}</h2>
+            <p className="text-gray-700 mb-4 whitespace-pre-wrap">{exercise.prompt}</p>
+            {setupMutation.isError && (
+              <p className="text-sm text-red-700 mb-2">Could not set up this exercise.</p>
+            )}
+            <SQLEditor value={answer} onChange={setAnswer} readOnly={!!outcome} />
+          </>
+        )}
+
+        {question && (
+          <>
+            <h2 className="text-xl font-semibold mb-4">{question.prompt}</h2>
+            {isOptionQuestion ? (
+              <div className="space-y-3">
+                {question.options.map((option: any) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setAnswer(option.id)}
+                    disabled={!!outcome}
+                    className={`w-full text-left p-4 rounded border-2 transition-colors ${
+                      answer === option.id
+                        ? 'border-primary-600 bg-primary-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    } ${outcome ? 'opacity-60 cursor-not-allowed' : ''}`}
+                  >
+                    {option.text}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <SQLEditor value={answer} onChange={setAnswer} readOnly={!!outcome} />
+            )}
+          </>
+        )}
+
+        {!outcome ? (
+          <button
+            onClick={() => submitMutation.mutate()}
+            disabled={!answer.trim() || submitMutation.isPending || setupMutation.isPending}
+            className="mt-6 bg-primary-600 hover:bg-primary-700 text-white px-6 py-2 rounded disabled:opacity-50"
+          >
+            {submitMutation.isPending ? 'Checking...' : 'Submit'}
+          </button>
+        ) : (
+          <div className={`mt-6 p-4 rounded ${outcome.isCorrect ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
+            <p className="font-semibold mb-2">
+              {outcome.isCorrect ? '✓ Correct!' : '✗ Not quite'}
+            </p>
+            {validation?.feedback.map((f, i) => (
+              <p key={i} className="text-sm text-gray-700">{f}</p>
+            ))}
+            {validation?.errors.map((e, i) => (
+              <p key={i} className="text-sm text-red-700">{e}</p>
+            ))}
+            {answerResult?.executionError && (
+              <p className="text-sm text-red-700">Error: {answerResult.executionError}</p>
+            )}
+            {answerResult?.explanation && (
+              <p className="text-sm text-gray-700">{answerResult.explanation}</p>
+            )}
+            {queryResults && (
+              <QueryResultTable
+                rows={queryResults.rows}
+                rowCount={queryResults.rowCount}
+                diff={validation?.resultDiff || answerResult?.resultDiff}
+              />
+            )}
+            <p className="text-sm text-gray-500 mt-3">
+              Next review in {outcome.card.intervalDays} day{outcome.card.intervalDays === 1 ? '' : 's'}
+            </p>
+            <button
+              onClick={handleNext}
+              className="mt-4 bg-primary-600 hover:bg-primary-700 text-white px-6 py-2 rounded"
+            >
+              {index + 1 < items.length ? 'Next' : 'Finish'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
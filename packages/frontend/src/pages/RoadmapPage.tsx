@@ -0,0 +1,160 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import { api } from '../api/client';
+import type { PlanItemStatus, PlannedTopic, Topic } from '@learn-pg/shared';
+
+const STATUS_STYLES: Record<PlanItemStatus, string> = {
+  completed: 'bg-green-100 text-green-800',
+  mastered: 'bg-blue-100 text-blue-800',
+  todo: 'bg-gray-100 text-gray-700'
+};
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+function TopicStep({ topic, titles, nextLessonId }: {
+  topic: PlannedTopic;
+  titles: Map<string, string>;
+  nextLessonId?: string;
+}) {
+  const locked = topic.status === 'todo' && topic.missingPrerequisites.length > 0;
+  const dotClass = topic.status !== 'todo'
+    ? 'bg-green-500'
+    : locked
+    ? 'bg-gray-300'
+    : 'bg-primary-600';
+
+  return (
+    <li className="relative pl-10 pb-8">
+      <span className="absolute left-0 top-1.5 -ml-px h-full w-0.5 bg-gray-200" aria-hidden="true" />
+      <span className={`absolute -left-2 top-1 h-4 w-4 rounded-full ring-4 ring-gray-50 ${dotClass}`} />
+
+      <div className={`bg-white rounded-lg shadow p-5 ${locked ? 'opacity-75' : ''}`}>
+        <div className="flex items-start justify-between gap-4 mb-2">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{topic.title}</h2>
+            <p className="text-xs text-gray-500">
+              Level {topic.level} · {topic.estimatedWeeks} weeks · {topic.masteryLevel}% mastery
+            </p>
+          </div>
+          <span className={`shrink-0 text-xs font-medium px-2 py-1 rounded ${locked ? 'bg-yellow-100 text-yellow-800' : STATUS_STYLES[topic.status]}`}>
+            {locked ? 'Locked' : topic.status === 'todo' ? formatMinutes(topic.remainingMinutes) + ' left' : topic.status}
+          </span>
+        </div>
+
+        {locked && (
+          <p className="text-sm text-yellow-800 mb-3">
+            Finish first: {topic.missingPrerequisites.map(id => titles.get(id) ?? id).join(', ')}
+          </p>
+        )}
+
+        {topic.status === 'todo' && (
+          <ul className="space-y-1">
+            {topic.lessons.map(lesson => (
+              <li key={lesson.lessonId} className="flex items-center justify-between text-sm">
+                {lesson.status === 'todo' ? (
+                  <Link
+                    to={`/lessons/${lesson.lessonId}`}
+                    className={lesson.lessonId === nextLessonId
+                      ? 'font-semibold text-primary-700 hover:underline'
+                      : 'text-gray-800 hover:text-primary-600'}
+                  >
+                    {lesson.lessonId === nextLessonId ? `Next: ${lesson.title}` : lesson.title}
+                  </Link>
+                ) : (
+                  <span className="text-gray-400 line-through">{lesson.title}</span>
+                )}
+                <span className="text-gray-500">
+                  {lesson.status === 'todo' ? formatMinutes(lesson.estimatedMinutes) : lesson.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export default function RoadmapPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const target = searchParams.get('target') ?? '';
+
+  const { data: topicsData } = useQuery({
+    queryKey: ['topics'],
+    queryFn: api.getTopics
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['plan', target],
+    queryFn: () => api.getPlan(target || undefined)
+  });
+
+  const topics: Topic[] = topicsData?.topics || [];
+  const titles = new Map(topics.map(t => [t.id, t.title]));
+  const plan = data?.plan;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <h1 className="text-4xl font-bold text-gray-900 mb-2">Roadmap</h1>
+      <p className="text-gray-600 mb-6">
+        Lessons in prerequisite order. Completed and already-mastered material is skipped.
+      </p>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="target">Goal</label>
+      <select
+        id="target"
+        value={target}
+        onChange={(e) => setSearchParams(e.target.value ? { target: e.target.value } : {})}
+        className="w-full border border-gray-300 rounded px-3 py-2 mb-6"
+      >
+        <option value="">Whole curriculum</option>
+        {topics.map(topic => (
+          <option key={topic.id} value={topic.id}>{topic.title}</option>
+        ))}
+      </select>
+
+      {isLoading || !plan ? (
+        <div>Loading...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-8">
+            <div className="bg-white rounded-lg shadow p-4">
+              <div className="text-2xl font-bold text-gray-900">{formatMinutes(plan.remainingMinutes)}</div>
+              <div className="text-sm text-gray-500">of {formatMinutes(plan.totalMinutes)} left</div>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <div className="text-2xl font-bold text-gray-900">{plan.remainingWeeks}</div>
+              <div className="text-sm text-gray-500">weeks at the suggested pace</div>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4">
+              <div className="text-2xl font-bold text-gray-900">{plan.lockedTopicIds.length}</div>
+              <div className="text-sm text-gray-500">locked topics</div>
+            </div>
+          </div>
+
+          {plan.nextLessonId ? (
+            <Link
+              to={`/lessons/${plan.nextLessonId}`}
+              className="inline-block bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded mb-8"
+            >
+              Continue with the next lesson
+            </Link>
+          ) : (
+            <p className="text-green-700 font-medium mb-8">Everything on this path is done.</p>
+          )}
+
+          <ol className="ml-2">
+            {plan.topics.map(topic => (
+              <TopicStep key={topic.topicId} topic={topic} titles={titles} nextLessonId={plan.nextLessonId} />
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1 +1,2 @@
 export * from './types/index.js';
+export * from './plan-tree.js';
@@ -0,0 +1,138 @@
+import type { ExplainPlan, PlanNode, PlanNodeMatch, PlanNodeMatcher } from './types/plan.js';
+
+const INDEX_NODE_TYPES = ['Index Scan', 'Index Only Scan', 'Bitmap Index Scan'];
+
+function parseNode(raw: Record<string, any>): PlanNode {
+  const { Plans, ...rest } = raw;
+  return {
+    nodeType: raw['Node Type'],
+    relationName: raw['Relation Name'],
+    alias: raw['Alias'],
+    schema: raw['Schema'],
+    indexName: raw['Index Name'],
+    joinType: raw['Join Type'],
+    parentRelationship: raw['Parent Relationship'],
+    startupCost: raw['Startup Cost'] ?? 0,
+    totalCost: raw['Total Cost'] ?? 0,
+    planRows: raw['Plan Rows'] ?? 0,
+    planWidth: raw['Plan Width'] ?? 0,
+    actualRows: raw['Actual Rows'],
+    actualLoops: raw['Actual Loops'],
+    actualTotalTimeMs: raw['Actual Total Time'],
+    children: Array.isArray(Plans) ? Plans.map(parseNode) : [],
+    raw: rest
+  };
+}
+
+/**
+ * Parses the 'QUERY PLAN' value of EXPLAIN (FORMAT JSON), which pg returns as
+ * a one-element array (or its JSON text, depending on the type parser).
+ */
+export function parseExplainPlan(queryPlan: any): ExplainPlan {
+  const parsed = typeof queryPlan === 'string' ? JSON.parse(queryPlan) : queryPlan;
+  const top = Array.isArray(parsed) ? parsed[0] : parsed;
+
+  if (!top || typeof top.Plan !== 'object') {
+    throw new Error('Not an EXPLAIN (FORMAT JSON) plan');
+  }
+
+  return {
+    root: parseNode(top.Plan),
+    planningTimeMs: top['Planning Time'],
+    executionTimeMs: top['Execution Time']
+  };
+}
+
+/** Depth-first, parents before children. */
+export function walkPlan(root: PlanNode, visit: (node: PlanNode, path: PlanNode[]) => void): void {
+  const walk = (node: PlanNode, ancestors: PlanNode[]) => {
+    const path = [...ancestors, node];
+    visit(node, path);
+    for (const child of node.children) {
+      walk(child, path);
+    }
+  };
+  walk(root, []);
+}
+
+// Node type, then "using <index>" and "on <relation> [alias]" in either order
+const MATCHER_PATTERN = /^(.+?)(?:\s+using\s+(\S+))?(?:\s+on\s+(\S+)(?:\s+(?!using\b)(\S+))?)?(?:\s+using\s+(\S+))?$/i;
+
+export function parsePlanNodeMatcher(
+  matcher: PlanNodeMatcher
+): { nodeType?: string; relation?: string; alias?: string; index?: string } {
+  if (typeof matcher !== 'string') {
+    return matcher;
+  }
+  const match = matcher.trim().match(MATCHER_PATTERN);
+  if (!match || (match[2] && match[5])) {
+    return { nodeType: matcher };
+  }
+  const [, nodeType, indexBefore, relation, alias, indexAfter] = match;
+
+  // EXPLAIN names the index, not a relation, after a Bitmap Index Scan's "on"
+  if (nodeType.toLowerCase() === 'bitmap index scan' && relation && !alias && !indexBefore && !indexAfter) {
+    return { nodeType, index: relation };
+  }
+  return { nodeType, relation, alias, index: indexBefore ?? indexAfter };
+}
+
+export function planNodeMatches(node: PlanNode, matcher: PlanNodeMatcher): boolean {
+  const { nodeType, relation, alias, index } = parsePlanNodeMatcher(matcher);
+  const eq = (a: string | undefined, b: string) => a !== undefined && a.toLowerCase() === b.toLowerCase();
+
+  if (nodeType && !eq(node.nodeType, nodeType)) return false;
+  if (relation && !eq(node.relationName, relation) && !eq(node.alias, relation)) return false;
+  if (alias && !eq(node.alias, alias)) return false;
+  if (index && !eq(node.indexName, index)) return false;
+  return true;
+}
+
+export function findPlanNodes(plan: ExplainPlan, matcher: PlanNodeMatcher): PlanNodeMatch[] {
+  const matches: PlanNodeMatch[] = [];
+  walkPlan(plan.root, (node, path) => {
+    if (planNodeMatches(node, matcher)) {
+      matches.push({ node, path });
+    }
+  });
+  return matches;
+}
+
+export function isIndexNode(node: PlanNode): boolean {
+  return INDEX_NODE_TYPES.includes(node.nodeType);
+}
+
+/** 'Index Scan using idx_orders_customer on orders o', as in EXPLAIN text output. */
+export function describePlanNode(node: PlanNode): string {
+  let description = node.nodeType;
+  if (node.indexName && node.nodeType !== 'Bitmap Index Scan') {
+    description += ` using ${node.indexName}`;
+  }
+  if (node.relationName) {
+    description += ` on ${node.relationName}`;
+    if (node.alias && node.alias !== node.relationName) {
+      description += ` ${node.alias}`;
+    }
+  } else if (node.indexName && node.nodeType === 'Bitmap Index Scan') {
+    description += ` on ${node.indexName}`;
+  }
+  return description;
+}
+
+export function formatPlanPath(path: PlanNode[]): string {
+  return path.map(describePlanNode).join(' → ');
+}
+
+/**
+ * How far the planner's row estimate was off, as a factor >= 1 (2 means off
+ * by 2x in either direction). Undefined when the plan has no ANALYZE data or
+ * the node never ran.
+ */
+export function rowMisestimation(node: PlanNode): number | undefined {
+  if (node.actualRows === undefined || !node.actualLoops) {
+    return undefined;
+  }
+  const estimated = Math.max(1, node.planRows);
+  const actual = Math.max(1, node.actualRows);
+  return Math.max(estimated, actual) / Math.min(estimated, actual);
+}
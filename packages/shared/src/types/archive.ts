@@ -0,0 +1,42 @@
+export const PROGRESS_ARCHIVE_FORMAT = 'learn-pg-progress';
+export const PROGRESS_ARCHIVE_FORMAT_VERSION = 1;
+
+/** A database row as exported: columns by name, without user_id or surrogate ids. */
+export type ArchiveRow = Record<string, string | number | null>;
+
+export interface ProgressArchiveTables {
+  userProgress: ArchiveRow | null;
+  topicProgress: ArchiveRow[];
+  exerciseAttempts: ArchiveRow[];
+  sessionRecords: ArchiveRow[];
+  evaluationSessions: ArchiveRow[];
+  evaluationResponses: ArchiveRow[]; // linked to sessions by session_id
+  struggledConcepts: ArchiveRow[];
+  conceptMastery: ArchiveRow[];
+  reviewCards: ArchiveRow[];
+  // Missing from archives exported before they were added
+  reviewLog?: ArchiveRow[]; // linked to cards by item_type and item_id
+  weakAreas?: ArchiveRow[];
+}
+
+/** A learner's full history, portable between installs. */
+export interface ProgressArchive {
+  format: typeof PROGRESS_ARCHIVE_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // latest progress database migration at export time
+  exportedAt: string;
+  username?: string;
+  tables: ProgressArchiveTables;
+}
+
+/**
+ * `merge` keeps existing history and adds what the archive has on top;
+ * `replace` deletes the user's history first.
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  mode: ImportMode;
+  imported: Record<keyof ProgressArchiveTables, number>;
+  skippedExerciseIds: string[]; // not in the loaded curriculum
+}
@@ -0,0 +1,11 @@
+export interface User {
+  id: string;
+  username: string;
+  isAdmin: boolean; // Can run jobs that affect every user, such as IRT calibration
+  createdAt: string;
+}
+
+export interface AuthResponse {
+  user: User;
+  token: string; // sent back as `Authorization: Bearer <token>`
+}
@@ -1,4 +1,4 @@
-import type { ValidationConfig } from './validators.js';
+import type { SqlPolicy, ValidationConfig } from './validators.js';
 
 export interface Topic {
   id: string;
@@ -31,9 +31,19 @@ export type ExerciseType =
   | 'performance'
   | 'multi-session';
 
+/**
+ * How a submission runs. 'rollback' runs it in a transaction that is rolled
+ * back after validation, so a failed attempt can't damage the fixture data;
+ * the learner's own BEGIN/COMMIT/ROLLBACK become savepoints inside it.
+ * 'commit' keeps its changes, for DDL and statements like VACUUM that can't
+ * run in a transaction block.
+ */
+export type ExecutionMode = 'rollback' | 'commit';
+
 export interface Exercise {
   id: string;
   lessonId: string;
+  concepts: string[]; // e.g., 'indexes', 'query-planning' — same tags as evaluation questions
   type: ExerciseType;
   title: string;
   prompt: string;
@@ -44,6 +54,8 @@ export interface Exercise {
   order: number;
   difficulty: number; // 1-10
   requiresSuperuser?: boolean; // Uses learnpg_admin connection for internals access
+  execution?: ExecutionMode; // Defaults to 'commit' for schema-design and optimization, else 'rollback'
+  policy?: SqlPolicy; // Statements checked before the submission runs
 }
 
 export interface SQLQueryExercise extends Exercise {
@@ -124,3 +136,16 @@ export interface MultiSessionExercise extends Exercise {
     validation?: ValidationConfig;
   }>;
 }
+
+/** Something wrong with curriculum content, found while loading or checking it. */
+export interface CurriculumProblem {
+  severity: 'error' | 'warning';
+  file: string; // relative to the curriculum directory
+  message: string;
+}
+
+/** Sent to connected clients when the backend reloads a topic from disk. */
+export interface CurriculumChangeEvent {
+  topicId: string;
+  lessonIds: string[]; // lessons the topic had before or after the reload
+}
@@ -1,3 +1,5 @@
+import type { ResultDiff } from './validators.js';
+
 export interface EvaluationSession {
   id: string;
   userId: string;
@@ -8,6 +10,13 @@ export interface EvaluationSession {
   questionsAnswered: EvaluationResponse[];
   weakAreasIdentified: string[];
   status: 'in-progress' | 'completed' | 'abandoned';
+  abilityEstimate?: AbilityEstimate;
+}
+
+/** Skill level on the continuous 1-10 scale with its standard error. */
+export interface AbilityEstimate {
+  level: number;
+  standardError: number;
 }
 
 export interface EvaluationResponse {
@@ -15,10 +24,32 @@ export interface EvaluationResponse {
   questionDifficulty: number; // 1-10
   userAnswer: string;
   isCorrect: boolean;
+  score?: number; // 0-1 partial credit; when absent, isCorrect counts as 1 or 0
   timeSpentSeconds: number;
   hintsUsed: number;
 }
 
+/** Outcome of grading one evaluation answer, returned by the answer route. */
+export interface EvaluationAnswerResult {
+  isCorrect: boolean;
+  score?: number; // 0-1, for questions that award partial credit
+  explanation?: string;
+  executionError?: string; // sql-write: the answer failed to run
+  resultDiff?: ResultDiff; // sql-write: how the rows differ from the expected ones
+  queryResults?: {
+    rows: any[];
+    rowCount: number;
+  };
+  taskResults?: ScenarioTaskResult[]; // scenario-based: credit per task
+}
+
+export interface ScenarioTaskResult {
+  taskId: string;
+  score: number; // 0-1
+  feedback: string[];
+  executionError?: string;
+}
+
 export type QuestionType =
   | 'multiple-choice'
   | 'sql-write'
@@ -91,11 +122,44 @@ export interface ScenarioBasedQuestion extends EvaluationQuestion {
     id: string;
     description: string;
     expectedAction: string;
+    points?: number; // Weight of this task in the question score, defaults to 1
+    verification?: ScenarioTaskVerification; // Without one, the task can't be graded and earns no credit
   }>;
   solution: string;
   explanation: string;
 }
 
+/**
+ * How a scenario task's answer is graded. Answers to scenario questions are
+ * submitted as a JSON object mapping task ids to answers.
+ */
+export type ScenarioTaskVerification =
+  | {
+      kind: 'keywords';
+      keywords?: string[]; // Case-insensitive substrings
+      patterns?: string[]; // Regular expressions, case-insensitive
+      minMatches?: number; // Matches needed for full credit, defaults to all
+    }
+  | {
+      kind: 'sql';
+      // Run after the answer in the same rolled-back transaction; the first
+      // column of the first row must be true
+      checkQuery?: string;
+      expectedResult?: {
+        rowCount?: number;
+        columns?: string[];
+        exactMatch?: Array<Record<string, any>>;
+      };
+    }
+  | {
+      kind: 'multiple-choice';
+      options: Array<{
+        id: string;
+        text: string;
+      }>;
+      correctOptionId: string;
+    };
+
 export interface QuestionMetadata {
   timesAsked: number;
   timesCorrect: number;
@@ -2,3 +2,10 @@ export * from './curriculum.js';
 export * from './progress.js';
 export * from './evaluation.js';
 export * from './validators.js';
+export * from './plan.js';
+export * from './review.js';
+export * from './auth.js';
+export * from './archive.js';
+export * from './search.js';
+export * from './learning-path.js';
+export * from './playground.js';
@@ -0,0 +1,36 @@
+/**
+ * Where a lesson or topic stands for the learner. Mastered material was
+ * never completed step by step but its concepts are already known, so the
+ * plan skips it like completed material.
+ */
+export type PlanItemStatus = 'completed' | 'mastered' | 'todo';
+
+export interface PlannedLesson {
+  lessonId: string;
+  title: string;
+  estimatedMinutes: number;
+  status: PlanItemStatus;
+}
+
+export interface PlannedTopic {
+  topicId: string;
+  title: string;
+  level: number;
+  estimatedWeeks: number;
+  status: PlanItemStatus;
+  masteryLevel: number; // 0-100
+  // Prerequisites not yet completed or mastered; the topic is locked while any remain
+  missingPrerequisites: string[];
+  lessons: PlannedLesson[];
+  remainingMinutes: number; // Sum of estimatedMinutes over lessons still to do
+}
+
+export interface LearningPlan {
+  targetTopicId?: string; // Omitted when planning the whole curriculum
+  topics: PlannedTopic[]; // Prerequisites before the topics that need them
+  nextLessonId?: string; // First lesson to do in a topic that is not locked
+  lockedTopicIds: string[];
+  totalMinutes: number;
+  remainingMinutes: number;
+  remainingWeeks: number; // Topic estimatedWeeks, prorated by minutes left
+}
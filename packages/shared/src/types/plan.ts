@@ -0,0 +1,47 @@
+/**
+ * A node of an EXPLAIN (FORMAT JSON) plan, normalised from PostgreSQL's
+ * "Node Type" / "Relation Name" / ... keys. Actual-* fields are only present
+ * when the plan was produced with ANALYZE.
+ */
+export interface PlanNode {
+  nodeType: string; // e.g. 'Seq Scan', 'Index Scan', 'Hash Join'
+  relationName?: string;
+  alias?: string;
+  schema?: string;
+  indexName?: string;
+  joinType?: string;
+  parentRelationship?: string;
+  startupCost: number;
+  totalCost: number;
+  planRows: number; // Estimated rows per loop
+  planWidth: number;
+  actualRows?: number; // Actual rows per loop
+  actualLoops?: number;
+  actualTotalTimeMs?: number;
+  children: PlanNode[];
+  raw: Record<string, any>; // Original JSON node, children excluded
+}
+
+export interface ExplainPlan {
+  root: PlanNode;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+}
+
+/**
+ * Selects plan nodes. As a string it reads like EXPLAIN's own text output:
+ * 'Seq Scan', 'Seq Scan on orders o', 'Index Scan using idx_orders_customer on orders',
+ * 'Bitmap Index Scan on idx_orders_customer'. 'on' before 'using' works too.
+ */
+export type PlanNodeMatcher =
+  | string
+  | {
+      nodeType?: string;
+      relation?: string; // Matches the relation name or its alias
+      index?: string;
+    };
+
+export interface PlanNodeMatch {
+  node: PlanNode;
+  path: PlanNode[]; // Root first, ending with the node itself
+}
@@ -0,0 +1,38 @@
+import type { ExplainPlan } from './plan.js';
+import type { SqlPolicyViolation } from './validators.js';
+
+/**
+ * The dataset a playground runs against: one exercise's setupSql, or every
+ * exercise fixture of a topic loaded one after another.
+ */
+export interface PlaygroundTarget {
+  type: 'topic' | 'exercise';
+  id: string;
+}
+
+export interface PlaygroundDataset {
+  target: PlaygroundTarget;
+  title: string;
+  tables: Array<{ name: string; size: string }>;
+  skippedSetups: Array<{ exerciseId: string; error: string }>; // Fixtures that failed to load; the rest still did
+}
+
+export interface PlaygroundResult {
+  rows: any[];
+  rowCount: number;
+  fields: string[];
+  command?: string; // e.g. 'SELECT', 'UPDATE'
+  executionTimeMs: number;
+  plan?: ExplainPlan; // Set when the query was explained instead of run
+  error?: string;
+  policyViolation?: SqlPolicyViolation;
+}
+
+export interface PlaygroundHistoryEntry {
+  id: number;
+  query: string;
+  isError: boolean;
+  rowCount: number | null;
+  executionTimeMs: number | null;
+  executedAt: string;
+}
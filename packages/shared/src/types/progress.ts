@@ -58,11 +58,19 @@ export interface StruggledConcept {
   struggleCount: number;
 }
 
+export interface ConceptMastery {
+  concept: string;
+  mastery: number; // 0-1, probability the concept is known
+  attempts: number;
+  correct: number; // partial credit counts fractionally
+  updatedAt?: string;
+}
+
 export interface WeakArea {
   concept: string;
-  topicId: string;
-  topicTitle: string;
-  failureRate: number; // 0-1
+  topicId?: string; // topic that best covers the concept, if any exercise teaches it
+  topicTitle?: string;
+  mastery: number; // 0-1
   totalAttempts: number;
   recommendedLessons: string[];
 }
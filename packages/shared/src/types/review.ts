@@ -0,0 +1,33 @@
+import type { Exercise } from './curriculum.js';
+import type { EvaluationQuestion, EvaluationAnswerResult } from './evaluation.js';
+import type { ValidationResult } from './validators.js';
+
+export type ReviewItemType = 'exercise' | 'evaluation';
+
+/** SM-2 scheduling state for one exercise or evaluation question. */
+export interface ReviewCard {
+  id: number;
+  itemType: ReviewItemType;
+  itemId: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // consecutive successful reviews
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt?: string;
+}
+
+export interface DueReviewItem {
+  card: ReviewCard;
+  topicId?: string;
+  exercise?: Exercise;
+  question?: EvaluationQuestion; // answers stripped
+}
+
+export interface ReviewOutcome {
+  isCorrect: boolean;
+  quality: number; // SM-2 response quality, 0-5
+  card: ReviewCard;
+  validation?: ValidationResult;
+  answer?: EvaluationAnswerResult;
+}
@@ -0,0 +1,32 @@
+export type SearchResultType = 'lesson' | 'exercise' | 'question';
+
+export interface SearchFilters {
+  topicId?: string;
+  level?: number; // topic level, 1-5
+  type?: SearchResultType;
+}
+
+/** A run of snippet text; `highlight` marks the words that matched the query. */
+export interface SearchSnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string; // lesson, exercise or evaluation question id
+  title: string;
+  snippet: SearchSnippetPart[];
+  topicId?: string;
+  topicTitle?: string;
+  level?: number;
+  // Where the result opens: the lesson, and for exercises the exercise in it.
+  // Questions link to a lesson practising one of their concepts, if any.
+  lessonId?: string;
+  exerciseId?: string;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
@@ -1,13 +1,18 @@
+import type { PlanNodeMatcher } from './plan.js';
+
 export type ValidationStrategy =
   | 'result-match'
   | 'query-plan'
   | 'performance'
   | 'schema'
-  | 'custom';
+  | 'custom'
+  | 'composite'
+  | 'solution-match';
 
 export interface ValidationConfig {
   strategy: ValidationStrategy;
   rules: ValidationRules;
+  statementIndex?: number; // Statement to check, 0-based, negative from the end; defaults to the last
 }
 
 export interface ResultMatchRules {
@@ -25,20 +30,56 @@ export interface ResultMatchRules {
     exactMatch?: Array<Record<string, any>>;
     subset?: Array<Record<string, any>>; // User result must include these rows
     allowExtraRows?: boolean;
+    allowExtraColumns?: boolean; // Columns beyond those the expected rows name are not an error
+    floatTolerance?: number; // Absolute tolerance when comparing numbers
+    caseInsensitive?: boolean; // Compare text ignoring case
   };
   ordering?: {
-    mustMatch?: boolean;
-    columnName?: string;
+    mustMatch?: boolean; // Rows must appear in the same order as exactMatch
+    columnName?: string; // Rows must be sorted by this column
+    direction?: 'asc' | 'desc'; // For columnName, defaults to 'asc'
   };
 }
 
+/**
+ * Grades against the output of a reference solution run on freshly set-up
+ * exercise data instead of hand-written expected rows.
+ */
+export interface SolutionMatchRules {
+  solutionQuery?: string; // Defaults to the exercise's solutionQuery
+  ordered?: boolean; // Defaults to true when the solution has an ORDER BY
+  checkColumnNames?: boolean; // Defaults to true
+  floatTolerance?: number;
+  caseInsensitive?: boolean;
+}
+
+/**
+ * Row-level difference between the learner's result and the expected rows.
+ * Row indexes refer to the learner's result so the UI can highlight them.
+ */
+export interface ResultDiff {
+  missingRows: Array<Record<string, any>>; // Expected but not returned
+  unexpectedRows: Array<{
+    rowIndex: number;
+    row: Record<string, any>;
+  }>;
+  changedRows: Array<{
+    rowIndex: number;
+    expected: Record<string, any>;
+    actual: Record<string, any>;
+    columns: string[]; // Cells that differ
+  }>;
+  extraColumns?: string[]; // Returned but not in the expected rows
+}
+
 export interface QueryPlanRules {
   mustUseIndex?: boolean;
   specificIndex?: string;
-  forbiddenNodes?: string[]; // e.g., ['Seq Scan', 'Nested Loop']
-  requiredNodes?: string[]; // e.g., ['Index Scan', 'Bitmap Heap Scan']
-  maxCost?: number;
-  maxRows?: number;
+  forbiddenNodes?: PlanNodeMatcher[]; // e.g., ['Seq Scan', 'Nested Loop', 'Seq Scan on orders']
+  requiredNodes?: PlanNodeMatcher[]; // e.g., ['Index Scan using idx_orders_customer on orders']
+  maxCost?: number; // Total cost of the whole plan
+  maxRows?: number; // Largest row estimate of any node
+  maxRowMisestimation?: number; // e.g., 10: no node's row estimate may be off by more than 10x
 }
 
 export interface PerformanceRules {
@@ -71,16 +112,59 @@ export interface SchemaRules {
 }
 
 export interface CustomValidationRules {
-  validatorFunction: string; // Name of the custom validator function
+  validatorFunction: string; // Name of a validator registered with the backend
   parameters?: Record<string, any>;
 }
 
+/**
+ * Combines several strategies evaluated against a single execution of the
+ * learner's query. The overall score is the weighted mean of the checks.
+ */
+export interface CompositeValidationRules {
+  mode: 'all-of' | 'any-of';
+  checks: Array<{
+    validation: ValidationConfig;
+    weight?: number; // Defaults to 1
+  }>;
+}
+
+/**
+ * Query interface handed to custom validators. Queries run against the
+ * exercise's schema using the same role that executed the learner's query.
+ * With `rollback`, whatever the query changes is undone afterwards, e.g.
+ * for an EXPLAIN ANALYZE that runs the learner's statement again.
+ */
+export interface ValidatorQueryClient {
+  query(sql: string, params?: any[], options?: { rollback?: boolean }): Promise<{
+    rows: any[];
+    rowCount: number | null;
+    fields?: any[];
+  }>;
+}
+
+export interface CustomValidatorContext {
+  userQuery: string; // The statement being validated, not the whole submission
+  result: any; // Raw pg result of that statement
+  schema: string;
+  executionTimeMs: number;
+  parameters: Record<string, any>;
+  db: ValidatorQueryClient;
+}
+
+/**
+ * A named validator for the 'custom' strategy. Exercise modules can export
+ * these as `validators` alongside `exercises` to register them.
+ */
+export type CustomValidator = (context: CustomValidatorContext) => Promise<ValidationResult>;
+
 export type ValidationRules =
   | { strategy: 'result-match'; rules: ResultMatchRules }
   | { strategy: 'query-plan'; rules: QueryPlanRules }
   | { strategy: 'performance'; rules: PerformanceRules }
   | { strategy: 'schema'; rules: SchemaRules }
-  | { strategy: 'custom'; rules: CustomValidationRules };
+  | { strategy: 'custom'; rules: CustomValidationRules }
+  | { strategy: 'composite'; rules: CompositeValidationRules }
+  | { strategy: 'solution-match'; rules: SolutionMatchRules };
 
 export interface ValidationResult {
   isValid: boolean;
@@ -90,11 +174,51 @@ export interface ValidationResult {
   suggestions: string[];
   executionTimeMs?: number;
   queryPlan?: any;
+  resultDiff?: ResultDiff;
   queryResults?: {
     rows: any[];
     rowCount: number;
     fields: any[];
   };
+  policyViolation?: SqlPolicyViolation; // Set when the submission was rejected without running
+  statementResults?: StatementResult[]; // Every statement that ran, in order
+  statementIndex?: number; // The statement queryResults and resultDiff are for
+}
+
+/** What one statement of a multi-statement submission returned. */
+export interface StatementResult {
+  sql: string;
+  command: string | null; // Command tag, e.g. 'SELECT', 'PREPARE'; null if the statement failed
+  rowCount: number | null;
+  rows: any[];
+  fields: string[];
+  executionTimeMs: number;
+  error?: {
+    message: string;
+    position?: number; // 1-based character offset into the whole submission, like PostgreSQL's
+    line?: number; // Same position as 1-based line and column
+    column?: number;
+  };
+}
+
+/**
+ * Which statements an exercise accepts. Kinds are lowercase names like
+ * 'select', 'create-index' or 'vacuum'. Dangerous functions and operations
+ * (pg_terminate_backend, 'copy-program', 'alter-system', ...) are blocked
+ * unless listed in allowDangerous.
+ */
+export interface SqlPolicy {
+  allowStatements?: string[]; // If set, every top-level statement must be one of these
+  denyStatements?: string[]; // Rejected anywhere, including CTEs and EXPLAIN ANALYZE
+  allowDangerous?: string[];
+}
+
+export interface SqlPolicyViolation {
+  rule: 'statement-not-allowed' | 'statement-denied' | 'dangerous-operation' | 'syntax-error';
+  statementIndex: number; // 0-based
+  statementKind: string;
+  operation?: string; // The dangerous function or operation, for 'dangerous-operation'
+  message: string;
 }
 
 export interface MultiSessionStepResult {
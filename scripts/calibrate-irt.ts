@@ -0,0 +1,44 @@
+#!/usr/bin/env tsx
+
+import { initDatabase, closeDatabase } from '../packages/backend/src/db/index.js';
+import { irtCalibrator } from '../packages/backend/src/evaluation/irt-calibrator.js';
+
+function parseMinResponses(args: string[]): number | undefined {
+  const index = args.indexOf('--min-responses');
+  if (index === -1) return undefined;
+
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 1) {
+    console.error('--min-responses must be a positive integer');
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main() {
+  const minResponses = parseMinResponses(process.argv.slice(2));
+
+  await initDatabase();
+  const result = irtCalibrator.calibrate(minResponses !== undefined ? { minResponses } : undefined);
+  closeDatabase();
+
+  console.log(`📊 ${result.responses} responses across ${result.sessions} sessions`);
+  console.log(`${result.converged ? '✓ Converged' : '⚠️  Did not converge'} after ${result.iterations} iterations\n`);
+
+  for (const item of result.calibrated) {
+    console.log(
+      `  ${item.questionId.padEnd(32)} a=${item.discrimination.toFixed(2)}  b=${item.difficulty.toFixed(2)}  (${item.responses} responses)`
+    );
+  }
+
+  if (result.skipped.length > 0) {
+    console.log(`\nℹ ${result.skipped.length} questions have too few responses and keep their authored difficulty:`);
+    for (const item of result.skipped) {
+      console.log(`  ${item.questionId} (${item.responses} responses)`);
+    }
+  }
+
+  console.log(`\n✅ Calibrated ${result.calibrated.length} questions`);
+}
+
+main();
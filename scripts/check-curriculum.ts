@@ -0,0 +1,43 @@
+#!/usr/bin/env tsx
+
+import type { CurriculumProblem } from '@learn-pg/shared';
+import { curriculumService } from '../packages/backend/src/services/curriculum-service.js';
+import { checkCurriculum } from '../packages/backend/src/curriculum/check.js';
+
+function usage(): never {
+  console.error('Usage: npm run curriculum:check [-- --execute]');
+  process.exit(1);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.some(arg => arg !== '--execute')) usage();
+  const execute = args.includes('--execute');
+
+  console.log(`🔎 Checking curriculum${execute ? ' (executing setup SQL and reference solutions)' : ''}...`);
+  const problems = await checkCurriculum(curriculumService, { execute });
+
+  const byFile = new Map<string, CurriculumProblem[]>();
+  for (const problem of problems) {
+    byFile.set(problem.file, [...(byFile.get(problem.file) ?? []), problem]);
+  }
+
+  for (const file of Array.from(byFile.keys()).sort()) {
+    console.log(`\n${file}`);
+    for (const problem of byFile.get(file)!) {
+      console.log(`  ${problem.severity === 'error' ? '❌' : '⚠️ '} ${problem.message}`);
+    }
+  }
+
+  const errors = problems.filter(p => p.severity === 'error').length;
+  const warnings = problems.length - errors;
+  const topics = curriculumService.getAllTopics();
+  const exercises = topics
+    .flatMap(topic => curriculumService.getLessonsForTopic(topic.id))
+    .reduce((sum, lesson) => sum + curriculumService.getExercisesForLesson(lesson.id).length, 0);
+
+  console.log(`\n${errors > 0 ? '❌' : '✅'} ${topics.length} topics, ${exercises} exercises: ${errors} errors, ${warnings} warnings`);
+  process.exit(errors > 0 ? 1 : 0);
+}
+
+main();
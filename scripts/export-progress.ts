@@ -0,0 +1,41 @@
+#!/usr/bin/env tsx
+
+import { writeFileSync } from 'fs';
+import { initDatabase, closeDatabase } from '../packages/backend/src/db/index.js';
+import { authService } from '../packages/backend/src/services/auth-service.js';
+import { archiveService } from '../packages/backend/src/services/archive-service.js';
+
+function usage(): never {
+  console.error('Usage: npm run export-progress -- <username> [--out <file>]');
+  process.exit(1);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outIndex = args.indexOf('--out');
+  const outFile = outIndex === -1 ? undefined : args.splice(outIndex, 2)[1];
+  const [username] = args;
+  if (!username || (outIndex !== -1 && !outFile)) usage();
+
+  await initDatabase();
+  const user = authService.getUserByUsername(username);
+  if (!user) {
+    console.error(`❌ No user named ${username}`);
+    process.exit(1);
+  }
+
+  const archive = archiveService.exportProgress(user.id, user.username);
+  closeDatabase();
+
+  const json = JSON.stringify(archive, null, 2);
+  if (!outFile) {
+    console.log(json);
+    return;
+  }
+
+  writeFileSync(outFile, json);
+  const { tables } = archive;
+  console.error(`✅ Exported ${tables.exerciseAttempts.length} exercise attempts and ${tables.evaluationSessions.length} evaluations to ${outFile}`);
+}
+
+main();
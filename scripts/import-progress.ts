@@ -0,0 +1,60 @@
+#!/usr/bin/env tsx
+
+import { readFileSync } from 'fs';
+import type { ImportMode, ProgressArchive } from '@learn-pg/shared';
+import { initDatabase, closeDatabase } from '../packages/backend/src/db/index.js';
+import { authService } from '../packages/backend/src/services/auth-service.js';
+import { archiveService } from '../packages/backend/src/services/archive-service.js';
+import { curriculumService } from '../packages/backend/src/services/curriculum-service.js';
+
+function usage(): never {
+  console.error('Usage: npm run import-progress -- <username> <file> [--mode merge|replace]');
+  process.exit(1);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const modeIndex = args.indexOf('--mode');
+  const mode = (modeIndex === -1 ? 'merge' : args.splice(modeIndex, 2)[1]) as ImportMode;
+  const [username, file] = args;
+  if (!username || !file || (mode !== 'merge' && mode !== 'replace')) usage();
+
+  let archive: unknown;
+  try {
+    archive = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    console.error(`❌ Could not read ${file}: ${error.message}`);
+    process.exit(1);
+  }
+
+  await initDatabase();
+  const user = authService.getUserByUsername(username);
+  if (!user) {
+    console.error(`❌ No user named ${username}`);
+    process.exit(1);
+  }
+
+  const errors = archiveService.validateArchive(archive);
+  if (errors.length > 0) {
+    console.error('❌ Invalid progress archive:');
+    errors.forEach(error => console.error(`  ${error}`));
+    process.exit(1);
+  }
+
+  // Exercise ids are checked against the curriculum on disk
+  await curriculumService.loadCurriculum();
+  const result = archiveService.importProgress(user.id, archive as ProgressArchive, mode);
+  closeDatabase();
+
+  console.log(`✅ Imported into ${user.username} (${result.mode}):`);
+  for (const [table, count] of Object.entries(result.imported)) {
+    console.log(`  ${table.padEnd(22)} ${count}`);
+  }
+
+  if (result.skippedExerciseIds.length > 0) {
+    console.log(`\n⚠️  Skipped ${result.skippedExerciseIds.length} exercises not in the current curriculum:`);
+    result.skippedExerciseIds.forEach(id => console.log(`  ${id}`));
+  }
+}
+
+main();
@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+import { openDatabase } from '../packages/backend/src/db/index.js';
+import {
+  createMigration,
+  getMigrationStatus,
+  runPendingMigrations,
+  type MigrationState
+} from '../packages/backend/src/db/migrator.js';
+
+const STATE_LABELS: Record<MigrationState, string> = {
+  applied: '✓ applied ',
+  pending: '· pending ',
+  modified: '✗ modified',
+  missing: '✗ missing '
+};
+
+function usage(): never {
+  console.error('Usage: npm run migrate -- status | up | create <name> [--ts]');
+  process.exit(1);
+}
+
+function status() {
+  const db = openDatabase();
+  const statuses = getMigrationStatus(db);
+  db.close();
+
+  for (const s of statuses) {
+    const label = s.filename ?? `${s.version}_${s.name}`;
+    console.log(`  ${STATE_LABELS[s.state]}  ${label.padEnd(40)} ${s.appliedAt ?? ''}`);
+  }
+
+  const pending = statuses.filter(s => s.state === 'pending').length;
+  const broken = statuses.filter(s => s.state === 'modified' || s.state === 'missing').length;
+  console.log(`\n${statuses.length - pending - broken} applied, ${pending} pending${broken ? `, ${broken} edited or missing` : ''}`);
+}
+
+async function up() {
+  const db = openDatabase();
+  try {
+    const applied = await runPendingMigrations(db);
+    if (applied.length === 0) {
+      console.log('✅ Already up to date');
+      return;
+    }
+    for (const migration of applied) {
+      console.log(`  ✓ ${migration.filename}`);
+    }
+    console.log(`\n✅ Applied ${applied.length} migration${applied.length === 1 ? '' : 's'}`);
+  } finally {
+    db.close();
+  }
+}
+
+function create(args: string[]) {
+  const typescript = args.includes('--ts');
+  const name = args.filter(arg => arg !== '--ts').join(' ');
+  if (!name) usage();
+
+  const path = createMigration(name, { typescript });
+  console.log(`✓ Created ${path}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case 'status':
+        status();
+        break;
+      case 'up':
+        await up();
+        break;
+      case 'create':
+        create(args);
+        break;
+      default:
+        usage();
+    }
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,240 @@
+#!/usr/bin/env tsx
+
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import readline from 'readline';
+import type { ExerciseType, Lesson, Topic } from '@learn-pg/shared';
+import { curriculumService } from '../packages/backend/src/services/curriculum-service.js';
+import { dockerService } from '../packages/backend/src/services/docker-service.js';
+import { EXERCISE_TYPES } from '../packages/backend/src/curriculum/content-schemas.js';
+import {
+  appendExercise,
+  nextNumberedName,
+  renderExercise,
+  renderExercisesFile,
+  renderLesson,
+  renderTopicMeta,
+  slugify,
+  type CapturedResult
+} from '../packages/backend/src/curriculum/scaffold.js';
+
+const TOPICS_PATH = join(process.cwd(), 'curriculum', 'topics');
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout
+});
+// Read answers as a line stream so piped input works as well as a terminal
+const lines = rl[Symbol.asyncIterator]();
+
+async function question(query: string, defaultValue?: string): Promise<string> {
+  process.stdout.write(defaultValue ? `${query} [${defaultValue}]: ` : `${query}: `);
+  const { value, done } = await lines.next();
+  if (done) {
+    console.error('\n❌ Input ended before all questions were answered');
+    process.exit(1);
+  }
+  return value.trim() || defaultValue || '';
+}
+
+async function ask(query: string, check: (answer: string) => string | null, defaultValue?: string): Promise<string> {
+  for (;;) {
+    const answer = await question(query, defaultValue);
+    const error = check(answer);
+    if (!error) return answer;
+    console.log(`  ${error}`);
+  }
+}
+
+const required = (answer: string) => (answer ? null : 'Required');
+const id = (answer: string) => (ID_PATTERN.test(answer) ? null : 'Use lowercase letters, digits and dashes');
+const integer = (min: number, max: number) => (answer: string) =>
+  /^\d+$/.test(answer) && +answer >= min && +answer <= max ? null : `Enter a whole number from ${min} to ${max}`;
+
+async function confirm(query: string, defaultYes: boolean = true): Promise<boolean> {
+  const answer = await question(`${query} (y/n)`, defaultYes ? 'y' : 'n');
+  return answer.toLowerCase().startsWith('y');
+}
+
+async function choose<T extends string>(label: string, options: T[], defaultValue?: T): Promise<T> {
+  console.log(`${label}:`);
+  options.forEach((option, i) => console.log(`  ${i + 1}. ${option}`));
+  const answer = await ask('Choose', a =>
+    options.includes(a as T) || options[parseInt(a, 10) - 1] ? null : 'Pick a number or name from the list',
+    defaultValue
+  );
+  return (options.includes(answer as T) ? answer : options[parseInt(answer, 10) - 1]) as T;
+}
+
+function list(answer: string): string[] {
+  return answer.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function written(path: string) {
+  console.log(`✓ Wrote ${relative(process.cwd(), path)}`);
+}
+
+async function newTopic(): Promise<void> {
+  const topics = curriculumService.getAllTopics();
+
+  const title = await ask('Title', required);
+  const topicId = await ask('Topic id', answer =>
+    id(answer) ?? (existsSync(join(TOPICS_PATH, answer)) ? `${answer} already exists` : null),
+    slugify(title)
+  );
+  const description = await ask('Description (1-2 sentences)', required);
+  const level = await ask('Level (1-5)', integer(1, 5), '1');
+  const estimatedWeeks = await ask('Estimated weeks', integer(1, 52), '1');
+  console.log(`Existing topics: ${topics.map(t => t.id).join(', ')}`);
+  const prerequisites = list(await ask('Prerequisites (comma-separated topic ids)', answer => {
+    const unknown = list(answer).filter(p => !curriculumService.getTopic(p));
+    return unknown.length > 0 ? `Unknown topics: ${unknown.join(', ')}` : null;
+  }));
+  const order = Math.max(0, ...topics.map(t => t.order)) + 1;
+
+  const topicPath = join(TOPICS_PATH, topicId);
+  mkdirSync(join(topicPath, 'lessons'), { recursive: true });
+  mkdirSync(join(topicPath, 'exercises'), { recursive: true });
+  writeFileSync(join(topicPath, 'meta.json'), renderTopicMeta({
+    title,
+    description,
+    level: +level,
+    estimatedWeeks: +estimatedWeeks,
+    prerequisites,
+    order
+  }));
+  written(join(topicPath, 'meta.json'));
+
+  if (await confirm('Add its first lesson now?')) {
+    await curriculumService.loadCurriculum();
+    await newLesson(curriculumService.getTopic(topicId));
+  }
+}
+
+async function newLesson(topic?: Topic): Promise<void> {
+  topic ??= await chooseTopic();
+
+  const title = await ask('Title', required);
+  const slug = await ask('File name', id, slugify(title));
+  const description = await ask('Description', required);
+  const estimatedMinutes = await ask('Estimated minutes', integer(1, 600), '30');
+
+  const lessonsPath = join(TOPICS_PATH, topic.id, 'lessons');
+  const exercisesPath = join(TOPICS_PATH, topic.id, 'exercises');
+  mkdirSync(lessonsPath, { recursive: true });
+  mkdirSync(exercisesPath, { recursive: true });
+
+  // The loader pairs lessons/NN-name.md with exercises/NN-name.ts
+  const name = nextNumberedName(readdirSync(lessonsPath), slug);
+  writeFileSync(join(lessonsPath, `${name}.md`), renderLesson({ title, description, estimatedMinutes: +estimatedMinutes }));
+  written(join(lessonsPath, `${name}.md`));
+  writeFileSync(join(exercisesPath, `${name}.ts`), renderExercisesFile());
+  written(join(exercisesPath, `${name}.ts`));
+
+  if (await confirm('Add an exercise now?')) {
+    await curriculumService.loadCurriculum();
+    await newExercise(curriculumService.getLesson(`${topic.id}-${name}`));
+  }
+}
+
+async function newExercise(lesson?: Lesson): Promise<void> {
+  if (!lesson) {
+    const topic = await chooseTopic();
+    const lessons = curriculumService.getLessonsForTopic(topic.id);
+    if (lessons.length === 0) {
+      console.error(`❌ ${topic.id} has no lessons yet; run npm run curriculum:new -- lesson`);
+      process.exit(1);
+    }
+    const lessonId = await choose('Lesson', lessons.map(l => l.id));
+    lesson = curriculumService.getLesson(lessonId)!;
+  }
+
+  const existing = curriculumService.getExercisesForLesson(lesson.id);
+  const existingIds = existing.map(e => e.id.slice(lesson!.id.length + 1));
+
+  const type = await choose<ExerciseType>('Exercise type', EXERCISE_TYPES, 'sql-query');
+  const title = await ask('Title', required);
+  const exerciseId = await ask('Exercise id', answer =>
+    id(answer) ?? (existingIds.includes(answer) ? `${answer} already exists in this lesson` : null),
+    slugify(title)
+  );
+  const known = curriculumService.getConceptsForTopic(lesson.topicId);
+  if (known.length > 0) console.log(`Concepts used in this topic: ${known.join(', ')}`);
+  const concepts = list(await ask('Concepts (comma-separated)', answer =>
+    list(answer).every(c => ID_PATTERN.test(c)) ? null : 'Use lowercase tags like query-planning'
+  ));
+  const difficulty = await ask('Difficulty (1-10)', integer(1, 10), '1');
+
+  const setupFile = await question('Setup SQL file (optional)');
+  let setupSql: string | undefined;
+  if (setupFile) {
+    if (!existsSync(setupFile)) {
+      console.error(`❌ No such file: ${setupFile}`);
+      process.exit(1);
+    }
+    setupSql = readFileSync(setupFile, 'utf-8').trim();
+  }
+
+  const solutionQuery = await question('Solution query (optional, one line)') || undefined;
+  let captured: CapturedResult | undefined;
+  if (solutionQuery && await confirm('Capture the expected result by running it against the local database?')) {
+    captured = await capture(solutionQuery, setupSql);
+  }
+
+  const file = join(TOPICS_PATH, lesson.topicId, 'exercises', `${lesson.id.slice(lesson.topicId.length + 1)}.ts`);
+  const source = existsSync(file) ? readFileSync(file, 'utf-8') : renderExercisesFile();
+  writeFileSync(file, appendExercise(source, renderExercise({
+    id: exerciseId,
+    type,
+    title,
+    concepts,
+    difficulty: +difficulty,
+    order: Math.max(0, ...existing.map(e => e.order)) + 1,
+    setupSql,
+    solutionQuery,
+    captured
+  })));
+  written(file);
+}
+
+async function chooseTopic(): Promise<Topic> {
+  const topics = curriculumService.getAllTopics();
+  const topicId = await choose('Topic', topics.map(t => t.id));
+  return curriculumService.getTopic(topicId)!;
+}
+
+/** Runs the solution in a throwaway schema; nothing it creates is kept. */
+async function capture(solutionQuery: string, setupSql?: string): Promise<CapturedResult | undefined> {
+  const schema = `scaffold_${crypto.randomBytes(6).toString('hex')}`;
+  try {
+    const result = await dockerService.executeAndRollback(solutionQuery, schema, { setupSql: setupSql ?? '' });
+    const rows = result.rows ?? [];
+    const columns = result.fields?.map((f: any) => f.name) ?? Object.keys(rows[0] ?? {});
+    console.log(`✓ Captured ${rows.length} rows (${columns.join(', ')})`);
+    return { columns, rows };
+  } catch (error: any) {
+    console.log(`⚠️  Could not run the solution, skipping capture: ${error.message}`);
+    return undefined;
+  }
+}
+
+async function main() {
+  const kind = process.argv[2];
+  if (!['topic', 'lesson', 'exercise'].includes(kind)) {
+    console.error('Usage: npm run curriculum:new -- topic|lesson|exercise');
+    process.exit(1);
+  }
+
+  await curriculumService.loadCurriculum();
+
+  if (kind === 'topic') await newTopic();
+  if (kind === 'lesson') await newLesson();
+  if (kind === 'exercise') await newExercise();
+
+  console.log('\n✅ Done. Fill in the TODOs, then run: npm run curriculum:check');
+  rl.close();
+}
+
+main();